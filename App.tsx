@@ -7,12 +7,24 @@
  */
 
 import React, { useState, useCallback, useRef, useEffect } from 'react';
-import Katex from 'react-katex';
-import { ShorAttempt, ExplanationTopic, Language } from './types';
-import { runShor, isPrime } from './services/shor';
+import { ShorAttempt, WorkerShorOptions, ExplanationTopic, Language, FactorNode, RunControl, RunMode, AppMode } from './types';
+import { factorizeInWorker } from './services/shorWorkerClient';
+import { generateSeed } from './services/random';
+import { MAX_LANDSCAPE_N } from './services/baseLandscape';
+import { createRunControl } from './services/runControl';
 import { translations } from './i18n/locales';
 import InputForm from './components/InputForm';
 import AttemptCard from './components/AttemptCard';
+import FactorizationResult from './components/FactorizationResult';
+import ClassicalComparison from './components/ClassicalComparison';
+import RunControls from './components/RunControls';
+import ModeSwitcher from './components/ModeSwitcher';
+import StatisticsPanel from './components/StatisticsPanel';
+import BaseLandscape from './components/BaseLandscape';
+import ContinuedFractionWorkbench from './components/ContinuedFractionWorkbench';
+import CountsImport from './components/CountsImport';
+import RsaScenario from './components/RsaScenario';
+import DiscreteLogMode from './components/DiscreteLogMode';
 import Modal from './components/Modal';
 import GeminiExplanation from './components/GeminiExplanation';
 import LanguageSwitcher from './components/LanguageSwitcher';
@@ -27,22 +39,33 @@ function App() {
   const [isLoading, setIsLoading] = useState(false);
   // State to store any error messages that occur during factorization.
   const [error, setError] = useState<string | null>(null);
-  // State to store the final factors once they are found.
-  const [finalFactors, setFinalFactors] = useState<bigint[] | null>(null);
+  // State to store the factorization tree once every cofactor has been resolved.
+  const [factorTree, setFactorTree] = useState<FactorNode | null>(null);
   // State to keep track of the number currently being factored.
   const [currentN, setCurrentN] = useState<bigint | null>(null);
+  // State to record the seed of the current run so it can be replayed.
+  const [runSeed, setRunSeed] = useState<number | null>(null);
+  // State for the mode of the current run (running, paused, stepping or stopped).
+  const [runMode, setRunMode] = useState<RunMode>('running');
   
   // State for controlling the explanation modal visibility.
   const [isModalOpen, setIsModalOpen] = useState(false);
   // State to store which topic is being explained in the modal.
   const [explanationTopic, setExplanationTopic] = useState<ExplanationTopic | null>(null);
 
+  // State for the top-level mode: the animated explorer, the batch statistics, the workbench or the counts import.
+  const [mode, setMode] = useState<AppMode>('explorer');
+  // State for the fraction last sent from an attempt to the continued fraction workbench.
+  const [workbenchFraction, setWorkbenchFraction] = useState<{ c: bigint; q: bigint } | null>(null);
+
   // State for the current language, defaulting to English.
   const [language, setLanguage] = useState<Language>('en');
   const t = translations[language];
 
   // Ref to the container div for all attempt cards to enable auto-scrolling.
   const attemptsContainerRef = useRef<HTMLDivElement>(null);
+  // Ref to the controls of the current run, used by the Stop, Pause and Step buttons.
+  const runControlRef = useRef<RunControl | null>(null);
   
   // Effect to set the document language attribute whenever the language changes.
   useEffect(() => {
@@ -69,42 +92,59 @@ function App() {
     setIsModalOpen(true);
   }, []);
 
+  /**
+   * Callback to open a measured fraction c/q in the continued fraction workbench.
+   * @param c The measured value of the first register.
+   * @param q The size of the first register.
+   */
+  const handleOpenWorkbench = useCallback((c: bigint, q: bigint) => {
+    setWorkbenchFraction({ c, q });
+    setMode('workbench');
+  }, []);
+
   /**
    * Initiates the factorization process for a given number.
    * This function sets up the initial state and then iterates through the
-   * steps of the Shor's algorithm simulation provided by the `runShor` generator.
-   * @param nToFactor The integer to be factored.
+   * attempts yielded by the `factorizeCompletely` driver, which applies
+   * Shor's algorithm to every composite cofactor. The driver runs in a Web Worker
+   * so that long computations never block the page.
+   * @param N The integer to be factored.
+   * @param requestedSeed The seed for the random source, or null to pick a fresh one.
+   * @param options The run options chosen in the input form.
    */
-  const startFactorization = async (nToFactor: number) => {
-    const N = BigInt(nToFactor);
+  const startFactorization = async (N: bigint, requestedSeed: number | null, options: WorkerShorOptions) => {
     // Basic input validation.
     if (N <= 1n) {
       setError(t.errorNumberTooSmall);
       return;
     }
-    if (N % 2n === 0n) {
-      setError(t.errorNumberEven);
-      setFinalFactors([2n, N/2n]);
-      return;
-    }
 
     // Reset application state for a new factorization run.
     setIsLoading(true);
     setAttempts([]);
     setError(null);
-    setFinalFactors(null);
+    setFactorTree(null);
     setCurrentN(N);
 
-    // Add a primality test before starting the main algorithm.
-    if (isPrime(N)) {
-      setError(t.errorNumberIsPrime);
-      setIsLoading(false);
-      return;
-    }
+    // Every random choice of the run is drawn from one source seeded in the worker,
+    // so the same seed reproduces the same sequence of attempts.
+    const seed = requestedSeed ?? generateSeed();
+    setRunSeed(seed);
+
+    // The run control gates every step, so the run can be paused, stepped or stopped.
+    const control = createRunControl(setRunMode);
+    runControlRef.current = control;
+    setRunMode(control.mode);
 
     try {
-      // Consume the async generator from runShor to get step-by-step updates.
-      for await (const attempt of runShor(N, t)) {
+      // Consume the driver step by step. Its return value is the factorization tree,
+      // so the generator is advanced by hand rather than with for-await. The driver
+      // only runs while it is asked for its next step, so waiting for the run control
+      // between two calls pauses the algorithm.
+      const run = factorizeInWorker(N, seed, language, options, control.signal);
+      let step = await run.next();
+      while (step.done !== true) {
+        const attempt = step.value;
         // Update the state with the latest information for the current attempt.
         setAttempts(prev => {
           const existingAttemptIndex = prev.findIndex(a => a.id === attempt.id);
@@ -117,20 +157,34 @@ function App() {
           // Otherwise, add it as a new attempt.
           return [...prev, attempt];
         });
+        await control.waitForTurn();
+        control.signal.throwIfAborted();
+        step = await run.next();
+      }
 
-        // If a successful factorization occurs, store the factors and stop.
-        if (attempt.status === 'success' && attempt.factors) {
-          setFinalFactors(attempt.factors);
-          break;
-        }
+      // The driver tests the primality of N before making any attempt.
+      if (step.value.method === 'prime') {
+        setError(t.errorNumberIsPrime);
+      } else if (step.value.method !== 'unresolved') {
+        // A tree whose root could not be split means every attempt failed.
+        setFactorTree(step.value);
       }
     } catch (e: any) {
-      setError(e.message);
+      // A stopped run is not an error; the stopped message is shown instead.
+      if (!control.signal.aborted) {
+        setError(e.message);
+      }
     } finally {
       setIsLoading(false);
+      runControlRef.current = null;
     }
   };
   
+  // The base landscape follows the number the latest attempt is splitting.
+  const latestAttempt = attempts.length > 0 ? attempts[attempts.length - 1] : null;
+  const landscapeN = latestAttempt?.n ?? currentN;
+  const showLandscape = landscapeN !== null && landscapeN % 2n === 1n && landscapeN <= MAX_LANDSCAPE_N;
+
   return (
     <div className="min-h-screen bg-slate-900 text-slate-200 p-4 sm:p-8">
       <div className="max-w-4xl mx-auto">
@@ -141,11 +195,28 @@ function App() {
           <p className="text-slate-400">
             {t.subtitle}
           </p>
+          {runSeed !== null && (
+            <p className="text-sm text-slate-500 mt-1 font-mono">
+              {t.headerSeed(runSeed.toString())}
+            </p>
+          )}
           <LanguageSwitcher currentLang={language} onLangChange={setLanguage} />
         </header>
 
-        <main>
+        <ModeSwitcher mode={mode} onModeChange={setMode} t={t} />
+
+        {/* Every mode stays mounted, so a run in one continues while another is shown. */}
+        <main className={mode === 'explorer' ? '' : 'hidden'}>
           <InputForm onStart={startFactorization} isLoading={isLoading} t={t} />
+
+          {showLandscape && (
+            <BaseLandscape
+              n={landscapeN}
+              currentBase={latestAttempt?.a ?? null}
+              triedBases={attempts.filter(attempt => attempt.n === landscapeN).map(attempt => attempt.a)}
+              t={t}
+            />
+          )}
           
           {error && (
             <div className="bg-red-900/50 border border-red-700 text-red-300 px-4 py-3 rounded-lg my-6 text-center">
@@ -153,35 +224,45 @@ function App() {
             </div>
           )}
 
-          {currentN && !finalFactors && !error && (
+          {currentN && !factorTree && !error && (
             <div className="my-6 text-center text-lg">
-              <p>{t.runningFactorization(currentN.toString())}</p>
+              <p>
+                {runMode === 'stopped'
+                  ? t.runStoppedMessage(currentN.toString())
+                  : t.runningFactorization(currentN.toString())}
+              </p>
             </div>
           )}
 
           <div ref={attemptsContainerRef} className="space-y-6">
             {attempts.map((attempt) => (
-              <AttemptCard key={attempt.id} attempt={attempt} onExplain={handleExplain} t={t} />
+              <AttemptCard key={attempt.id} attempt={attempt} onExplain={handleExplain} onOpenWorkbench={handleOpenWorkbench} t={t} />
             ))}
           </div>
 
           {isLoading && (
-            <div className="flex justify-center items-center my-8">
-              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-sky-400"></div>
-              <p className="ml-4 text-slate-400">{t.simulatingQuantum}</p>
-            </div>
+            <RunControls
+              mode={runMode}
+              onPause={() => runControlRef.current?.pause()}
+              onResume={() => runControlRef.current?.resume()}
+              onStep={() => runControlRef.current?.step()}
+              onStop={() => runControlRef.current?.stop()}
+              t={t}
+            />
           )}
 
-          {finalFactors && (
-            <div className="mt-8 p-6 bg-green-900/50 border border-green-700 rounded-lg shadow-2xl text-center">
-              <h2 className="text-2xl font-bold text-green-300 mb-4">{t.factorizationComplete}</h2>
-              <div className="text-2xl sm:text-3xl text-slate-200">
-                <Katex.InlineMath math={`${finalFactors[0].toString()} \\times ${finalFactors[1].toString()} = ${currentN?.toString()}`} />
-              </div>
-            </div>
+          {factorTree && <FactorizationResult tree={factorTree} t={t} />}
+
+          {factorTree && currentN && factorTree.children.length > 0 && (
+            <ClassicalComparison
+              key={currentN.toString()}
+              n={currentN}
+              shorAttempts={attempts.filter(attempt => attempt.n === currentN).length}
+              t={t}
+            />
           )}
 
-          {attempts.length > 0 && !finalFactors && !isLoading && !error && (
+          {attempts.length > 0 && !factorTree && !isLoading && !error && runMode !== 'stopped' && (
              <div className="mt-8 p-6 bg-yellow-900/50 border border-yellow-700 rounded-lg shadow-2xl text-center">
               <h2 className="text-2xl font-bold text-yellow-300 mb-2">{t.factorizationFailed}</h2>
               <p className="text-lg">
@@ -191,6 +272,26 @@ function App() {
           )}
 
         </main>
+
+        <section className={mode === 'statistics' ? '' : 'hidden'}>
+          <StatisticsPanel language={language} t={t} />
+        </section>
+
+        <section className={mode === 'workbench' ? '' : 'hidden'}>
+          <ContinuedFractionWorkbench initial={workbenchFraction} t={t} />
+        </section>
+
+        <section className={mode === 'import' ? '' : 'hidden'}>
+          <CountsImport onExplain={handleExplain} onOpenWorkbench={handleOpenWorkbench} t={t} />
+        </section>
+
+        <section className={mode === 'rsa' ? '' : 'hidden'}>
+          <RsaScenario language={language} onExplain={handleExplain} onOpenWorkbench={handleOpenWorkbench} t={t} />
+        </section>
+
+        <section className={mode === 'discrete-log' ? '' : 'hidden'}>
+          <DiscreteLogMode language={language} onExplain={handleExplain} t={t} />
+        </section>
       </div>
 
       <Modal isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} t={t}>
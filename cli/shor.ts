@@ -0,0 +1,235 @@
+/**
+ * @file shor.ts
+ * A headless command-line runner for the Shor's algorithm simulation, for scripted
+ * demos, course material and regression checks of the math. It drives `runShor`
+ * without UI delays and prints every attempt as a readable trace or as JSON Lines.
+ *
+ * Usage: npm run shor -- <N> [--seed <n>] [--format text|jsonl] [options]
+ *
+ * Exit codes: 0 when N was split, 1 when every attempt failed, 2 for invalid or prime input.
+ */
+
+import { parseArgs } from 'node:util';
+import { BaseStrategy, Language, PeriodFinderSelection, ShorAttempt, ShorOptions } from '../types';
+import { runShor, isPrime, DEFAULT_SHOR_OPTIONS } from '../services/shor';
+import { createSeededRandom, generateSeed, MAX_SEED } from '../services/random';
+import { translations } from '../i18n/locales';
+
+/** The exit code when a non-trivial factor was found. */
+const EXIT_SUCCESS = 0;
+/** The exit code when every attempt failed. */
+const EXIT_ALL_FAILED = 1;
+/** The exit code for invalid arguments, or an N that is prime. */
+const EXIT_INVALID_INPUT = 2;
+
+const USAGE = `Usage: npm run shor -- <N> [options]
+
+Runs Shor's algorithm on the odd composite N and prints every attempt.
+
+Options:
+  --seed <n>              Seed of the random source (default: random, printed in the output)
+  --format <text|jsonl>   Readable trace or one JSON object per attempt (default: text)
+  --max-attempts <n>      Maximum number of attempts (default: ${DEFAULT_SHOR_OPTIONS.maxAttempts})
+  --qubits <n>            Qubits in the first register (default: bit length of N²)
+  --base-strategy <kind>  random, sequential or list (default: random)
+  --bases <a,b,...>       Bases to try; implies --base-strategy list
+  --shots <n>             Measurements per base (default: ${DEFAULT_SHOR_OPTIONS.shotsPerBase})
+  --cf-iterations <n>     Maximum continued fraction terms (default: the whole expansion)
+  --backend <id>          auto, state-vector or classical-oracle (default: auto)
+  --lang <en|zh>          Language of the error messages (default: en)
+  -h, --help              Show this message
+
+Exit codes: 0 factored, 1 all attempts failed, 2 invalid or prime input.`;
+
+/**
+ * Parses a whole number option.
+ * @param name The option name, for the error message.
+ * @param value The option value, or undefined if it was not given.
+ * @param min The smallest accepted value.
+ * @returns The number, or undefined if the option was not given.
+ */
+function parseCount(name: string, value: string | undefined, min: number): number | undefined {
+  if (value === undefined) return undefined;
+  if (!/^\d+$/.test(value) || Number(value) < min) {
+    throw new Error(`--${name} must be a whole number of at least ${min}.`);
+  }
+  return Number(value);
+}
+
+/**
+ * Checks that an option value is one of the accepted choices.
+ * @param name The option name, for the error message.
+ * @param value The option value, or undefined if it was not given.
+ * @param choices The accepted values.
+ * @returns The value, or undefined if the option was not given.
+ */
+function parseChoice<T extends string>(name: string, value: string | undefined, choices: readonly T[]): T | undefined {
+  if (value === undefined) return undefined;
+  if (!(choices as readonly string[]).includes(value)) {
+    throw new Error(`--${name} must be one of: ${choices.join(', ')}.`);
+  }
+  return value as T;
+}
+
+/**
+ * Converts a value to JSON with every BigInt written as a decimal string.
+ * @param value The value to encode.
+ * @returns A single line of JSON.
+ */
+function toJsonLine(value: unknown): string {
+  return JSON.stringify(value, (_key, item) => (typeof item === 'bigint' ? item.toString() : item));
+}
+
+/**
+ * Describes a finished attempt as an indented, human-readable trace.
+ * @param attempt The attempt, with its final status.
+ * @returns The lines of the trace.
+ */
+function formatAttempt(attempt: ShorAttempt): string[] {
+  const { n, a } = attempt;
+  const lines = [`Attempt ${attempt.id}: a = ${a}`];
+  if (attempt.gcdCheck !== undefined) {
+    lines.push(`  gcd(${a}, ${n}) = ${attempt.gcdCheck}`);
+  }
+  if (attempt.quantumResult) {
+    const { t, measurements } = attempt.quantumResult;
+    lines.push(`  period finding (${attempt.periodFinder}, t = ${t}): c = ${measurements.join(', ')}`);
+  }
+  if (attempt.fractionResult) {
+    const { convergents, candidates, lcm } = attempt.fractionResult;
+    lines.push(`  convergents: ${convergents.map(({ numerator, denominator }) => `${numerator}/${denominator}`).join(', ')}`);
+    const tried = candidates.map(candidate => `${candidate.value}${candidate.verified ? ' ✓' : ''} (${candidate.source})`);
+    lines.push(`  candidates: ${tried.join(', ')}`);
+    if (lcm !== undefined) lines.push(`  lcm of denominators: ${lcm}`);
+  }
+  if (attempt.period !== undefined) {
+    lines.push(`  period r = ${attempt.period}`);
+  }
+  if (attempt.verification && !attempt.verification.isPeriodOdd) {
+    lines.push(`  a^(r/2) ≡ -1 (mod ${n}): ${attempt.verification.isTrivial ? 'yes' : 'no'}`);
+  }
+  if (attempt.factorizationResult) {
+    const { term, p1, p2 } = attempt.factorizationResult;
+    lines.push(`  a^(r/2) mod ${n} = ${term}, gcd(${term} - 1, ${n}) = ${p1}, gcd(${term} + 1, ${n}) = ${p2}`);
+  }
+  lines.push(attempt.status === 'success'
+    ? `  success: ${n} = ${attempt.factors?.join(' × ')}`
+    : `  failed: ${attempt.error ?? attempt.status}`);
+  return lines;
+}
+
+/**
+ * Parses the arguments, runs the simulation and prints its trace.
+ * @param argv The command-line arguments after the script name.
+ * @returns The exit code.
+ */
+async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      seed: { type: 'string' },
+      format: { type: 'string', default: 'text' },
+      'max-attempts': { type: 'string' },
+      qubits: { type: 'string' },
+      'base-strategy': { type: 'string' },
+      bases: { type: 'string' },
+      shots: { type: 'string' },
+      'cf-iterations': { type: 'string' },
+      backend: { type: 'string' },
+      lang: { type: 'string', default: 'en' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return EXIT_SUCCESS;
+  }
+  if (positionals.length !== 1 || !/^\d+$/.test(positionals[0])) {
+    throw new Error('Expected exactly one positive integer N.');
+  }
+  const N = BigInt(positionals[0]);
+  if (N <= 3n || N % 2n === 0n) {
+    throw new Error('N must be an odd integer greater than 3.');
+  }
+
+  const format = parseChoice('format', values.format, ['text', 'jsonl'] as const);
+  const language = parseChoice<Language>('lang', values.lang, ['en', 'zh']) ?? 'en';
+  const seed = parseCount('seed', values.seed, 0) ?? generateSeed();
+  if (seed > MAX_SEED) {
+    throw new Error(`--seed must not exceed ${MAX_SEED}.`);
+  }
+
+  let baseStrategy: BaseStrategy | undefined;
+  const strategyKind = parseChoice<BaseStrategy['kind']>('base-strategy', values['base-strategy'], ['random', 'sequential', 'list']);
+  if (values.bases !== undefined || strategyKind === 'list') {
+    const entries = (values.bases ?? '').split(/[\s,]+/).filter(Boolean);
+    if (entries.length === 0 || entries.some(entry => !/^\d+$/.test(entry))) {
+      throw new Error('--bases must be a comma-separated list of whole numbers.');
+    }
+    baseStrategy = { kind: 'list', bases: entries.map(entry => BigInt(entry)) };
+  } else if (strategyKind) {
+    baseStrategy = { kind: strategyKind } as BaseStrategy;
+  }
+
+  const random = createSeededRandom(seed);
+  const options: Partial<ShorOptions> = {
+    stepDelayMs: 0,
+    random,
+    maxAttempts: parseCount('max-attempts', values['max-attempts'], 1),
+    qubitCount: parseCount('qubits', values.qubits, 1),
+    baseStrategy,
+    shotsPerBase: parseCount('shots', values.shots, 1),
+    maxContinuedFractionIterations: parseCount('cf-iterations', values['cf-iterations'], 1),
+    periodFinder: parseChoice<PeriodFinderSelection>('backend', values.backend, ['auto', 'state-vector', 'classical-oracle']),
+  };
+  // Leave out the options that were not given, so they take their defaults.
+  for (const key of Object.keys(options) as (keyof ShorOptions)[]) {
+    if (options[key] === undefined) delete options[key];
+  }
+
+  const t = translations[language];
+  if (format === 'text') {
+    console.log(`N = ${N}, seed = ${seed}`);
+  } else {
+    // Keep stdout to one attempt per line; the seed is still needed to replay the run.
+    console.error(`seed = ${seed}`);
+  }
+  if (isPrime(N, 10, random)) {
+    console.error(t.errorNumberIsPrime);
+    return EXIT_INVALID_INPUT;
+  }
+
+  let factors: bigint[] | undefined;
+  for await (const attempt of runShor(N, t, options)) {
+    // runShor yields an attempt after every step; print it once it has finished.
+    if (attempt.status === 'running') continue;
+    if (format === 'jsonl') {
+      console.log(toJsonLine(attempt));
+    } else {
+      console.log(formatAttempt(attempt).join('\n'));
+    }
+    if (attempt.status === 'success') factors = attempt.factors;
+  }
+
+  if (!factors) {
+    if (format === 'text') console.log(t.factorizationFailedMessage(N.toString()));
+    return EXIT_ALL_FAILED;
+  }
+  if (format === 'text') console.log(`${N} = ${factors.join(' × ')}`);
+  return EXIT_SUCCESS;
+}
+
+main(process.argv.slice(2)).then(
+  code => {
+    process.exitCode = code;
+  },
+  // Arguments are validated before the run starts, and runShor itself only throws
+  // for invalid settings, so every error is reported as invalid input.
+  (e: unknown) => {
+    console.error(e instanceof Error ? e.message : String(e));
+    console.error('Run with --help for usage.');
+    process.exitCode = EXIT_INVALID_INPUT;
+  },
+);
@@ -0,0 +1,192 @@
+/**
+ * @file AdvancedSettings.tsx
+ * A collapsible panel of the input form that exposes the run options of
+ * Shor's algorithm: attempt limit, animation speed, register size, base
+ * selection, continued fraction depth and measurements per base.
+ */
+
+import React, { useState } from 'react';
+import { BaseStrategy } from '../types';
+import { fieldClass } from './formStyles';
+import type { TranslationSet } from '../i18n/locales';
+
+/**
+ * The raw values of the advanced settings fields, as typed by the user.
+ * They are validated and converted into run options when the form is submitted.
+ */
+export interface AdvancedSettingsValues {
+  /** The maximum number of attempts. */
+  maxAttempts: string;
+  /** The pause after each step in milliseconds. */
+  stepDelayMs: string;
+  /** True to run without any pause between steps. */
+  instant: boolean;
+  /** The number of qubits in the first register; empty for the default. */
+  qubitCount: string;
+  /** The base selection strategy. */
+  baseStrategy: BaseStrategy['kind'];
+  /** The comma- or space-separated bases for the `list` strategy. */
+  baseList: string;
+  /** The number of measurements per base. */
+  shotsPerBase: string;
+  /** The maximum number of continued fraction terms; empty for the whole expansion. */
+  maxContinuedFractionIterations: string;
+}
+
+/**
+ * Props for the AdvancedSettings component.
+ */
+interface AdvancedSettingsProps {
+  /** The current field values. */
+  values: AdvancedSettingsValues;
+  /** Function to call with the updated values when a field changes. */
+  onChange: (values: AdvancedSettingsValues) => void;
+  /** Boolean indicating if the fields should be disabled. */
+  disabled: boolean;
+  /** The translation object for the current language. */
+  t: TranslationSet;
+}
+
+/** The base selection strategies offered in the selector, in display order. */
+const BASE_STRATEGY_OPTIONS: BaseStrategy['kind'][] = ['random', 'sequential', 'list'];
+
+/**
+ * A collapsible panel with the advanced run options.
+ * @param {AdvancedSettingsProps} props - The props for the component.
+ */
+function AdvancedSettings({ values, onChange, disabled, t }: AdvancedSettingsProps) {
+  // State for whether the panel is expanded.
+  const [isOpen, setIsOpen] = useState(false);
+
+  /**
+   * Updates a single field of the settings.
+   * @param key The field to update.
+   * @param value The new value of the field.
+   */
+  const update = <K extends keyof AdvancedSettingsValues>(key: K, value: AdvancedSettingsValues[K]) => {
+    onChange({ ...values, [key]: value });
+  };
+
+  return (
+    <div className="mt-4 border-t border-slate-700 pt-3">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="text-slate-300 hover:text-sky-400 transition-colors font-semibold flex items-center"
+        aria-expanded={isOpen}
+      >
+        <span className={`inline-block mr-2 transition-transform ${isOpen ? 'rotate-90' : ''}`}>▶</span>
+        {t.advancedTitle}
+      </button>
+
+      {isOpen && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mt-4 text-sm">
+          <label className="flex flex-col gap-1 text-slate-400">
+            {t.advancedMaxAttempts}
+            <input
+              type="number"
+              min={1}
+              value={values.maxAttempts}
+              onChange={(e) => update('maxAttempts', e.target.value)}
+              className={fieldClass}
+              disabled={disabled}
+            />
+          </label>
+
+          <div className="flex flex-col gap-1 text-slate-400">
+            <label htmlFor="step-delay-input">{t.advancedStepDelay}</label>
+            <div className="flex items-center gap-3">
+              <input
+                id="step-delay-input"
+                type="number"
+                min={0}
+                step={100}
+                value={values.stepDelayMs}
+                onChange={(e) => update('stepDelayMs', e.target.value)}
+                className={fieldClass}
+                disabled={disabled || values.instant}
+              />
+              <label className="flex items-center gap-1 whitespace-nowrap text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={values.instant}
+                  onChange={(e) => update('instant', e.target.checked)}
+                  disabled={disabled}
+                />
+                {t.advancedInstant}
+              </label>
+            </div>
+          </div>
+
+          <label className="flex flex-col gap-1 text-slate-400">
+            {t.advancedQubitCount}
+            <input
+              type="number"
+              min={1}
+              value={values.qubitCount}
+              onChange={(e) => update('qubitCount', e.target.value)}
+              className={fieldClass}
+              placeholder={t.advancedQubitCountPlaceholder}
+              disabled={disabled}
+            />
+          </label>
+
+          <label className="flex flex-col gap-1 text-slate-400">
+            {t.advancedCfIterations}
+            <input
+              type="number"
+              min={1}
+              value={values.maxContinuedFractionIterations}
+              onChange={(e) => update('maxContinuedFractionIterations', e.target.value)}
+              className={fieldClass}
+              placeholder={t.advancedCfIterationsPlaceholder}
+              disabled={disabled}
+            />
+          </label>
+
+          <label className="flex flex-col gap-1 text-slate-400">
+            {t.advancedShotsPerBase}
+            <input
+              type="number"
+              min={1}
+              value={values.shotsPerBase}
+              onChange={(e) => update('shotsPerBase', e.target.value)}
+              className={fieldClass}
+              disabled={disabled}
+            />
+          </label>
+
+          <label className="flex flex-col gap-1 text-slate-400">
+            {t.advancedBaseStrategy}
+            <select
+              value={values.baseStrategy}
+              onChange={(e) => update('baseStrategy', e.target.value as BaseStrategy['kind'])}
+              className={fieldClass}
+              disabled={disabled}
+            >
+              {BASE_STRATEGY_OPTIONS.map(option => (
+                <option key={option} value={option}>{t.baseStrategyNames[option]}</option>
+              ))}
+            </select>
+          </label>
+
+          {values.baseStrategy === 'list' && (
+            <label className="flex flex-col gap-1 text-slate-400 sm:col-span-2">
+              {t.advancedBaseList}
+              <input
+                type="text"
+                value={values.baseList}
+                onChange={(e) => update('baseList', e.target.value)}
+                className={fieldClass}
+                placeholder={t.advancedBaseListPlaceholder}
+                disabled={disabled}
+              />
+            </label>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default AdvancedSettings;
@@ -9,8 +9,14 @@ import React from 'react';
 import Katex from 'react-katex';
 import { ShorAttempt, ExplanationTopic } from '../types';
 import QuantumCircuitDiagram from './QuantumCircuitDiagram';
+import RegisterInspector from './RegisterInspector';
+import ResourceEstimator from './ResourceEstimator';
 import ContinuedFractionDisplay from './ContinuedFractionDisplay';
+import PeriodRecoveryDisplay from './PeriodRecoveryDisplay';
+import PeriodPlot from './PeriodPlot';
+import MeasurementHistogram from './MeasurementHistogram';
 import ExplainButton from './ExplainButton';
+import { canInspect } from '../services/stateVector';
 import type { TranslationSet } from '../i18n/locales';
 
 /**
@@ -21,6 +27,8 @@ interface AttemptCardProps {
   attempt: ShorAttempt;
   /** Callback function to trigger the explanation modal for a specific topic. */
   onExplain: (topic: ExplanationTopic) => void;
+  /** Callback function to open the measured fraction c/q in the continued fraction workbench. */
+  onOpenWorkbench: (c: bigint, q: bigint) => void;
   /** The translation object for the current language. */
   t: TranslationSet;
 }
@@ -46,16 +54,19 @@ const getStatusColorClasses = (status: ShorAttempt['status']) => {
  * A card component that displays the step-by-step progress of one factorization attempt.
  * @param {AttemptCardProps} props The props for the component.
  */
-function AttemptCard({ attempt, onExplain, t }: AttemptCardProps) {
-  const { id, n, a, status, gcdCheck, quantumResult, fractionResult, period, verification, factorizationResult, factors, error } = attempt;
+function AttemptCard({ attempt, onExplain, onOpenWorkbench, t }: AttemptCardProps) {
+  const { id, n, a, status, periodFinder, gcdCheck, quantumResult, fractionResult, period, verification, factorizationResult, factors, error, pinned } = attempt;
   // A counter to number the steps as they are rendered.
   let step = 1;
+  // A badge marking a value chosen by the user rather than at random.
+  const pinnedBadge = <span className="ml-2 px-2 py-0.5 text-xs font-semibold rounded-full bg-amber-500/20 text-amber-300">{t.pinnedBadge}</span>;
 
   return (
     <div className={`border-2 rounded-lg shadow-xl overflow-hidden transition-all duration-500 ${getStatusColorClasses(status)}`}>
       <header className="px-4 py-3 sm:px-6 sm:py-4 bg-slate-800/50 flex justify-between items-center">
         <h3 className="text-xl font-bold text-slate-200">
           {t.attemptTitle(id)}
+          <span className="ml-3 text-base font-normal text-slate-400 font-mono">{t.attemptTarget(n.toString())}</span>
         </h3>
         <span className={`px-3 py-1 text-sm font-semibold rounded-full capitalize ${
             status === 'success' ? 'bg-green-500/20 text-green-300' :
@@ -75,6 +86,7 @@ function AttemptCard({ attempt, onExplain, t }: AttemptCardProps) {
           </h4>
           <p className="text-slate-400 mt-2">
             {t.step1ChosenBase} <Katex.InlineMath math={`a = ${a.toString()}`} />
+            {pinned?.base && pinnedBadge}
           </p>
           {gcdCheck && (
             <p className="text-slate-400 mt-1 animate-step-in">
@@ -93,10 +105,20 @@ function AttemptCard({ attempt, onExplain, t }: AttemptCardProps) {
             <p className="text-slate-400 mt-2 mb-4">
               {t.step2Description(a.toString(), n.toString())}
             </p>
-            <QuantumCircuitDiagram tQubits={quantumResult.t} nBits={Math.ceil(Math.log2(Number(n)))} onExplain={onExplain} t={t} />
+            <PeriodPlot a={a} n={n} candidateR={fractionResult?.candidateR} t={t} />
+            <QuantumCircuitDiagram a={a} n={n} tQubits={quantumResult.t} onExplain={onExplain} t={t} />
+            {canInspect(n, quantumResult.t) && (
+              <RegisterInspector a={a} n={n} tQubits={quantumResult.t} onExplain={onExplain} t={t} />
+            )}
+            <ResourceEstimator n={n} t={t} />
             <p className="text-slate-400 mt-4">
+              {t.step2Backend} <span className="text-slate-300 font-semibold">{t.periodFinderNames[periodFinder]}</span>
+            </p>
+            <p className="text-slate-400 mt-1">
               {t.step2Measurement(quantumResult.c.toString(), quantumResult.t.toString(), quantumResult.q.toString())}
+              {pinned?.measurement && pinnedBadge}
             </p>
+            <MeasurementHistogram a={a} n={n} c={quantumResult.c} q={quantumResult.q} maxIterations={quantumResult.maxContinuedFractionIterations} t={t} />
           </div>
         )}
 
@@ -111,6 +133,18 @@ function AttemptCard({ attempt, onExplain, t }: AttemptCardProps) {
               {t.step3Description} <Katex.BlockMath math={`\\frac{c}{q} = \\frac{${quantumResult?.c.toString()}}{${quantumResult?.q.toString()}}`} />
             </p>
             <ContinuedFractionDisplay convergents={fractionResult.convergents} candidateR={fractionResult.candidateR} t={t} />
+            {quantumResult && (
+              <button
+                type="button"
+                onClick={() => onOpenWorkbench(quantumResult.c, quantumResult.q)}
+                className="mt-2 text-sm text-sky-400 hover:text-sky-300 underline"
+              >
+                {t.workbenchOpen}
+              </button>
+            )}
+            {quantumResult && (
+              <PeriodRecoveryDisplay measurements={quantumResult.measurements} fractionResult={fractionResult} onExplain={onExplain} t={t} />
+            )}
           </div>
         )}
 
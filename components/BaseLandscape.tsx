@@ -0,0 +1,198 @@
+/**
+ * @file BaseLandscape.tsx
+ * A collapsible analysis view that lists every base 'a' for a small N with its
+ * GCD, order, parity, square-root check and the factor it yields, as a sortable,
+ * colour-coded table. The base of the running attempt is highlighted.
+ */
+
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import { BaseAnalysis, BaseVerdict } from '../types';
+import { analyzeBases, summarizeBases } from '../services/baseLandscape';
+import type { TranslationSet } from '../i18n/locales';
+
+/**
+ * Props for the BaseLandscape component.
+ */
+interface BaseLandscapeProps {
+  /** The number whose bases are analysed. */
+  n: bigint;
+  /** The base of the running attempt, or null. */
+  currentBase: bigint | null;
+  /** The bases already tried for this N. */
+  triedBases: bigint[];
+  /** The translation object for the current language. */
+  t: TranslationSet;
+}
+
+/** The columns the table can be sorted by. */
+type SortKey = 'a' | 'gcd' | 'order' | 'verdict' | 'factor';
+
+/** The columns of the table, in display order. */
+const COLUMNS: SortKey[] = ['a', 'gcd', 'order', 'verdict', 'factor'];
+
+/** The order verdicts are sorted in, from the most to the least useful. */
+const VERDICT_ORDER: BaseVerdict[] = ['good', 'shared-factor', 'trivial-root', 'odd-order'];
+
+/** Tailwind classes for the text colour of each verdict. */
+const VERDICT_CLASSES: Record<BaseVerdict, string> = {
+  'good': 'text-green-400',
+  'shared-factor': 'text-sky-400',
+  'trivial-root': 'text-red-400',
+  'odd-order': 'text-yellow-400',
+};
+
+/**
+ * Compares two optional BigInts, placing missing values last.
+ * @param x The first value.
+ * @param y The second value.
+ * @returns A negative, zero or positive number, as for `Array.prototype.sort`.
+ */
+function compareOptional(x: bigint | null, y: bigint | null): number {
+  if (x === null || y === null) return x === y ? 0 : x === null ? 1 : -1;
+  return x < y ? -1 : x > y ? 1 : 0;
+}
+
+/**
+ * Compares two analysed bases by a column.
+ * @param x The first base.
+ * @param y The second base.
+ * @param key The column to compare.
+ * @returns A negative, zero or positive number, as for `Array.prototype.sort`.
+ */
+function compareBy(x: BaseAnalysis, y: BaseAnalysis, key: SortKey): number {
+  switch (key) {
+    case 'verdict':
+      return VERDICT_ORDER.indexOf(x.verdict) - VERDICT_ORDER.indexOf(y.verdict);
+    case 'gcd':
+      return compareOptional(x.gcd, y.gcd);
+    case 'order':
+      return compareOptional(x.order, y.order);
+    case 'factor':
+      return compareOptional(x.factor, y.factor);
+    case 'a':
+    default:
+      return compareOptional(x.a, y.a);
+  }
+}
+
+/**
+ * Displays the analysis of every base of N.
+ * @param {BaseLandscapeProps} props - The props for the component.
+ */
+function BaseLandscape({ n, currentBase, triedBases, t }: BaseLandscapeProps) {
+  // State for whether the panel is expanded.
+  const [isOpen, setIsOpen] = useState(false);
+  // State for the sort column and direction.
+  const [sortKey, setSortKey] = useState<SortKey>('a');
+  const [ascending, setAscending] = useState(true);
+  // Refs to the scrolling container and to the row of the running attempt.
+  const containerRef = useRef<HTMLDivElement>(null);
+  const currentRowRef = useRef<HTMLTableRowElement>(null);
+
+  // The analysis only runs once the panel is opened, and again when N changes.
+  const analyses = useMemo(() => (isOpen ? analyzeBases(n) : []), [isOpen, n]);
+  const summary = useMemo(() => summarizeBases(n, analyses), [n, analyses]);
+  const sorted = useMemo(() => {
+    const rows = [...analyses].sort((x, y) => compareBy(x, y, sortKey) || compareOptional(x.a, y.a));
+    return ascending ? rows : rows.reverse();
+  }, [analyses, sortKey, ascending]);
+
+  // Keep the row of the running attempt visible inside the table.
+  useEffect(() => {
+    const container = containerRef.current;
+    const row = currentRowRef.current;
+    if (container && row) {
+      container.scrollTop = row.offsetTop - container.clientHeight / 2;
+    }
+  }, [currentBase, sorted]);
+
+  /**
+   * Sorts by a column, or reverses the direction if it is already the sort column.
+   * @param key The column that was clicked.
+   */
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setAscending(!ascending);
+    } else {
+      setSortKey(key);
+      setAscending(true);
+    }
+  };
+
+  const tried = new Set(triedBases.map(base => base.toString()));
+
+  return (
+    <div className="bg-slate-800/50 p-4 rounded-lg shadow-lg border border-slate-700 mb-8">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="text-slate-300 hover:text-sky-400 transition-colors font-semibold flex items-center"
+        aria-expanded={isOpen}
+      >
+        <span className={`inline-block mr-2 transition-transform ${isOpen ? 'rotate-90' : ''}`}>▶</span>
+        {t.landscapeTitle(n.toString())}
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 text-sm">
+          <p className="text-slate-400">{t.landscapeDescription}</p>
+          <div className="flex flex-wrap gap-4 mt-3">
+            {VERDICT_ORDER.map(verdict => (
+              <span key={verdict} className={VERDICT_CLASSES[verdict]}>
+                {t.landscapeVerdicts[verdict]}: {summary.counts[verdict]}
+              </span>
+            ))}
+          </div>
+          <p className="text-slate-300 mt-2">
+            {t.landscapeSummary(
+              summary.counts.good,
+              summary.coprime,
+              (summary.goodFraction * 100).toFixed(1),
+              summary.distinctPrimes,
+              (summary.theoreticalBound * 100).toFixed(1),
+            )}
+          </p>
+
+          <div ref={containerRef} className="relative overflow-auto max-h-80 mt-3 border border-slate-700 rounded">
+            <table className="w-full font-mono">
+              <thead className="sticky top-0 bg-slate-900">
+                <tr className="text-slate-400">
+                  {COLUMNS.map(key => (
+                    <th key={key} className="text-left px-3 py-1">
+                      <button type="button" onClick={() => handleSort(key)} className="hover:text-sky-400">
+                        {t.landscapeColumns[key]}
+                        {sortKey === key && (ascending ? ' ▲' : ' ▼')}
+                      </button>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {sorted.map(row => {
+                  const isCurrent = currentBase !== null && row.a === currentBase;
+                  const rowClass = isCurrent
+                    ? 'bg-sky-900/60 ring-1 ring-sky-400'
+                    : tried.has(row.a.toString()) ? 'bg-slate-700/40' : '';
+                  return (
+                    <tr key={row.a.toString()} ref={isCurrent ? currentRowRef : undefined} className={`border-t border-slate-800 ${rowClass}`}>
+                      <td className="px-3 py-0.5">{row.a.toString()}</td>
+                      <td className="px-3 py-0.5">{row.gcd.toString()}</td>
+                      <td className="px-3 py-0.5">
+                        {row.order === null ? '—' : `${row.order} (${row.order % 2n === 0n ? t.landscapeEven : t.landscapeOdd})`}
+                      </td>
+                      <td className={`px-3 py-0.5 ${VERDICT_CLASSES[row.verdict]}`}>{t.landscapeVerdicts[row.verdict]}</td>
+                      <td className="px-3 py-0.5">{row.factor === null ? '—' : `${row.factor} × ${n / row.factor}`}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-slate-500 text-xs mt-2">{t.landscapeLegend}</p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default BaseLandscape;
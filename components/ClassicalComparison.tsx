@@ -0,0 +1,127 @@
+/**
+ * @file ClassicalComparison.tsx
+ * A panel below the factorization result that runs classical factoring algorithms
+ * on the same N in a Web Worker and compares their operation counts and running
+ * times with the number of Shor attempts and the estimated quantum resources.
+ */
+
+import React, { useState, useRef, useEffect } from 'react';
+import { ClassicalFactoringResult } from '../types';
+import { MAX_CLASSICAL_OPERATIONS } from '../services/classicalFactoring';
+import { classicalBaselinesInWorker } from '../services/shorWorkerClient';
+import { estimateResources } from '../services/resourceEstimate';
+import { bitLength } from '../services/shor';
+import type { TranslationSet } from '../i18n/locales';
+
+/**
+ * Props for the ClassicalComparison component.
+ */
+interface ClassicalComparisonProps {
+  /** The number that was factored. */
+  n: bigint;
+  /** The number of Shor attempts made on N itself. */
+  shorAttempts: number;
+  /** The translation object for the current language. */
+  t: TranslationSet;
+}
+
+/**
+ * Runs the classical baselines on N and shows them next to Shor's algorithm.
+ * @param {ClassicalComparisonProps} props - The props for the component.
+ */
+function ClassicalComparison({ n, shorAttempts, t }: ClassicalComparisonProps) {
+  // State for the results collected so far and whether the algorithms are running.
+  const [results, setResults] = useState<ClassicalFactoringResult[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState('');
+  // The controller of the running job, aborted when the component goes away.
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  // The windowed construction is the cheapest, so it is the fairest quantum comparison.
+  const quantum = estimateResources(bitLength(n)).find(estimate => estimate.construction === 'gidney-ekera');
+
+  /**
+   * Runs every algorithm in turn in a Web Worker, showing each row as soon as its algorithm has finished.
+   */
+  const handleRun = async () => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsRunning(true);
+    setResults([]);
+    setError('');
+    try {
+      for await (const result of classicalBaselinesInWorker(n, controller.signal)) {
+        setResults(previous => [...previous, result]);
+      }
+    } catch (err: any) {
+      if (!controller.signal.aborted) setError(err.message);
+    } finally {
+      setIsRunning(false);
+      controllerRef.current = null;
+    }
+  };
+
+  return (
+    <div className="mt-8 p-6 bg-slate-800/50 border border-slate-700 rounded-lg shadow-2xl">
+      <h2 className="text-2xl font-bold text-sky-300 mb-2">{t.classicalTitle}</h2>
+      <p className="text-slate-400 text-sm mb-4">{t.classicalDescription}</p>
+      <button
+        type="button"
+        onClick={handleRun}
+        disabled={isRunning}
+        className="bg-sky-600 hover:bg-sky-500 disabled:bg-slate-600 disabled:cursor-not-allowed text-white font-semibold py-2 px-4 rounded transition-colors"
+      >
+        {isRunning ? t.classicalRunning : t.classicalRun(n.toString())}
+      </button>
+      {error && <p className="text-red-400 mt-3">{error}</p>}
+
+      {results.length > 0 && (
+        <div className="overflow-x-auto mt-4">
+          <table className="w-full text-sm text-slate-300 whitespace-nowrap">
+            <thead>
+              <tr className="text-slate-400 border-b border-slate-700">
+                <th className="text-left py-1 pr-4">{t.classicalTableAlgorithm}</th>
+                <th className="text-right py-1 pr-4">{t.classicalTableFactor}</th>
+                <th className="text-right py-1 pr-4">{t.classicalTableOperations}</th>
+                <th className="text-right py-1">{t.classicalTableTime}</th>
+              </tr>
+            </thead>
+            <tbody className="font-mono">
+              {results.map(result => (
+                <tr key={result.algorithm} className="border-b border-slate-800">
+                  <td className="py-1 pr-4 font-sans">{t.classicalAlgorithmNames[result.algorithm]}</td>
+                  <td className="text-right py-1 pr-4">
+                    {result.factor !== null ? (
+                      <span className="text-green-300">{result.factor.toString()}</span>
+                    ) : (
+                      <span className="text-yellow-300 font-sans">
+                        {result.budgetExhausted ? t.classicalBudgetExhausted : t.classicalNoFactor}
+                      </span>
+                    )}
+                  </td>
+                  <td className="text-right py-1 pr-4">{result.operations.toLocaleString('en-US')}</td>
+                  <td className="text-right py-1">{result.elapsedMs.toFixed(1)} ms</td>
+                </tr>
+              ))}
+              <tr className="text-sky-300">
+                <td className="py-1 pr-4 font-sans">{t.classicalShorRow}</td>
+                <td colSpan={3} className="text-right py-1 font-sans">
+                  {t.classicalShorSummary(
+                    shorAttempts,
+                    quantum?.logicalQubits ?? 0,
+                    Math.round(quantum?.toffoliCount ?? 0).toLocaleString('en-US'),
+                  )}
+                </td>
+              </tr>
+            </tbody>
+          </table>
+          <p className="text-slate-500 text-xs mt-2">{t.classicalFootnote(MAX_CLASSICAL_OPERATIONS.toLocaleString('en-US'))}</p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ClassicalComparison;
@@ -0,0 +1,192 @@
+/**
+ * @file ContinuedFractionWorkbench.tsx
+ * The continued fraction workbench: it expands any fraction c/q one Euclidean
+ * division at a time, showing the quotient, the remainder, the recurrence for
+ * the convergent p_k/q_k and the nested fraction built so far. Each convergent
+ * is checked against the 1/(2q) measurement bound and Legendre's condition.
+ */
+
+import React, { useState, useEffect, useMemo, FormEvent } from 'react';
+import Katex from 'react-katex';
+import { expandContinuedFraction, nestedFractionTex } from '../services/continuedFraction';
+import { fieldClass } from './formStyles';
+import type { TranslationSet } from '../i18n/locales';
+
+/**
+ * Props for the ContinuedFractionWorkbench component.
+ */
+interface ContinuedFractionWorkbenchProps {
+  /** A fraction to load, such as the measurement of an attempt, or null. */
+  initial: { c: bigint; q: bigint } | null;
+  /** The translation object for the current language. */
+  t: TranslationSet;
+}
+
+/** The most terms drawn as a nested fraction; longer expansions use the bracket notation only. */
+const MAX_NESTED_TERMS = 8;
+
+/** Tailwind classes shared by the stepping buttons. */
+const buttonClass = "bg-slate-700 hover:bg-slate-600 text-slate-100 font-semibold py-1 px-4 rounded-lg transition-colors disabled:opacity-50";
+
+/**
+ * Lets the user expand a fraction c/q step by step.
+ * @param {ContinuedFractionWorkbenchProps} props - The props for the component.
+ */
+function ContinuedFractionWorkbench({ initial, t }: ContinuedFractionWorkbenchProps) {
+  // State for the form fields and the fraction being expanded.
+  const [cValue, setCValue] = useState('85');
+  const [qValue, setQValue] = useState('256');
+  const [fraction, setFraction] = useState<{ c: bigint; q: bigint }>({ c: 85n, q: 256n });
+  // State for the number of divisions revealed so far.
+  const [shown, setShown] = useState(0);
+  const [error, setError] = useState('');
+
+  // A fraction sent from an attempt replaces the current one.
+  useEffect(() => {
+    if (initial) {
+      setCValue(initial.c.toString());
+      setQValue(initial.q.toString());
+      setFraction(initial);
+      setShown(0);
+      setError('');
+    }
+  }, [initial]);
+
+  const steps = useMemo(() => expandContinuedFraction(fraction.c, fraction.q), [fraction]);
+  const revealed = steps.slice(0, shown);
+  const current = shown > 0 ? steps[shown - 1] : null;
+  const isComplete = shown === steps.length;
+
+  /**
+   * Validates the form and starts a new expansion.
+   * @param e The form event.
+   */
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    const cText = cValue.trim();
+    const qText = qValue.trim();
+    if (!/^\d+$/.test(cText) || !/^\d+$/.test(qText) || BigInt(qText) < 1n) {
+      setError(t.workbenchError);
+      return;
+    }
+    setError('');
+    setFraction({ c: BigInt(cText), q: BigInt(qText) });
+    setShown(0);
+  };
+
+  /**
+   * Finds the convergent before step k of the recurrence, including the two seed values.
+   * @param k The index of the convergent, from -2.
+   * @returns p_k and q_k.
+   */
+  const convergentAt = (k: number) => {
+    if (k === -2) return { p: 0n, q: 1n };
+    if (k === -1) return { p: 1n, q: 0n };
+    return { p: steps[k].numerator, q: steps[k].denominator };
+  };
+
+  const terms = revealed.map(step => step.a);
+  // The bracket notation [a_0; a_1, a_2, ...], open-ended until the expansion is complete.
+  const tail = [...terms.slice(1).map(term => term.toString()), ...(isComplete ? [] : ['\\dots'])];
+  const bracketTex = terms.length === 0 ? '' : `[${terms[0].toString()}${tail.length > 0 ? `; ${tail.join(', ')}` : ''}]`;
+
+  return (
+    <div className="bg-slate-800/50 p-6 rounded-lg shadow-lg border border-slate-700 space-y-6">
+      <div>
+        <h2 className="text-xl font-semibold text-slate-200">{t.workbenchTitle}</h2>
+        <p className="text-slate-400 text-sm mt-1">{t.workbenchDescription}</p>
+        <form onSubmit={handleSubmit} className="grid grid-cols-2 sm:grid-cols-3 gap-4 mt-4 text-sm items-end">
+          <label className="flex flex-col gap-1 text-slate-400">
+            {t.workbenchC}
+            <input type="text" inputMode="numeric" value={cValue} onChange={(e) => setCValue(e.target.value)} className={fieldClass} />
+          </label>
+          <label className="flex flex-col gap-1 text-slate-400">
+            {t.workbenchQ}
+            <input type="text" inputMode="numeric" value={qValue} onChange={(e) => setQValue(e.target.value)} className={fieldClass} />
+          </label>
+          <button
+            type="submit"
+            className="col-span-2 sm:col-span-1 bg-sky-600 hover:bg-sky-500 text-white font-bold py-2 px-6 rounded-lg transition-colors"
+          >
+            {t.workbenchLoad}
+          </button>
+        </form>
+        {error && <p className="text-red-400 mt-3">{error}</p>}
+      </div>
+
+      <div className="text-slate-200">
+        <Katex.BlockMath math={`\\frac{c}{q} = \\frac{${fraction.c.toString()}}{${fraction.q.toString()}}`} />
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <button type="button" onClick={() => setShown(shown + 1)} className={buttonClass} disabled={isComplete}>{t.workbenchStep}</button>
+        <button type="button" onClick={() => setShown(steps.length)} className={buttonClass} disabled={isComplete}>{t.workbenchShowAll}</button>
+        <button type="button" onClick={() => setShown(0)} className={buttonClass} disabled={shown === 0}>{t.workbenchRestart}</button>
+      </div>
+
+      {current === null ? (
+        <p className="text-slate-400">{t.workbenchStart}</p>
+      ) : (
+        <div className="bg-slate-950/50 p-4 rounded-lg border border-slate-700 text-slate-300 space-y-2">
+          <h3 className="font-semibold text-slate-200">{t.workbenchDivision(shown - 1)}</h3>
+          <Katex.BlockMath
+            math={`${current.dividend.toString()} = \\underbrace{${current.a.toString()}}_{a_{${shown - 1}}} \\cdot ${current.divisor.toString()} + \\underbrace{${current.remainder.toString()}}_{r_{${shown - 1}}}`}
+          />
+          <p className="text-slate-400 text-sm">{t.workbenchRecurrence}</p>
+          <Katex.BlockMath
+            math={`p_{${shown - 1}} = a_{${shown - 1}}\\,p_{${shown - 2}} + p_{${shown - 3}} = ${current.a.toString()} \\cdot ${convergentAt(shown - 2).p.toString()} + ${convergentAt(shown - 3).p.toString()} = ${current.numerator.toString()}`}
+          />
+          <Katex.BlockMath
+            math={`q_{${shown - 1}} = a_{${shown - 1}}\\,q_{${shown - 2}} + q_{${shown - 3}} = ${current.a.toString()} \\cdot ${convergentAt(shown - 2).q.toString()} + ${convergentAt(shown - 3).q.toString()} = ${current.denominator.toString()}`}
+          />
+          <p className="text-slate-400 text-sm">{t.workbenchNested}</p>
+          <Katex.BlockMath math={bracketTex} />
+          {terms.length <= MAX_NESTED_TERMS && (
+            <Katex.BlockMath math={`${nestedFractionTex(terms)} = \\frac{${current.numerator.toString()}}{${current.denominator.toString()}}`} />
+          )}
+          {isComplete && <p className="text-green-300">{t.workbenchComplete}</p>}
+        </div>
+      )}
+
+      {revealed.length > 0 && (
+        <div className="overflow-x-auto bg-slate-950/50 p-4 rounded-lg border border-slate-700">
+          <table className="w-full text-left text-sm whitespace-nowrap">
+            <thead className="border-b border-slate-600 text-slate-400">
+              <tr>
+                <th className="p-2 text-center"><Katex.InlineMath math="k" /></th>
+                <th className="p-2 text-center"><Katex.InlineMath math="a_k" /></th>
+                <th className="p-2 text-center">{t.workbenchRemainder} <Katex.InlineMath math="r_k" /></th>
+                <th className="p-2 text-center"><Katex.InlineMath math="\frac{p_k}{q_k}" /></th>
+                <th className="p-2 text-center"><Katex.InlineMath math="\left|\frac{c}{q} - \frac{p_k}{q_k}\right|" /></th>
+                <th className="p-2 text-center"><Katex.InlineMath math="< \frac{1}{2q}" /></th>
+                <th className="p-2 text-center"><Katex.InlineMath math="< \frac{1}{2q_k^2}" /></th>
+              </tr>
+            </thead>
+            <tbody className="font-mono">
+              {revealed.map((step, k) => (
+                <tr key={k} className={`border-b border-slate-700/50 ${step.withinMeasurementBound ? 'bg-green-800/30 text-green-300' : ''}`}>
+                  <td className="p-2 text-center">{k}</td>
+                  <td className="p-2 text-center">{step.a.toString()}</td>
+                  <td className="p-2 text-center">{step.remainder.toString()}</td>
+                  <td className="p-2 text-center">{step.numerator.toString()}/{step.denominator.toString()}</td>
+                  <td className="p-2 text-center">
+                    {(Number(step.distanceNumerator) / (Number(fraction.q) * Number(step.denominator))).toExponential(3)}
+                  </td>
+                  <td className={`p-2 text-center font-bold ${step.withinMeasurementBound ? 'text-green-400' : 'text-red-400'}`}>
+                    {step.withinMeasurementBound ? t.yes : t.no}
+                  </td>
+                  <td className={`p-2 text-center font-bold ${step.withinLegendreBound ? 'text-green-400' : 'text-red-400'}`}>
+                    {step.withinLegendreBound ? t.yes : t.no}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-slate-400 text-sm mt-3">{t.workbenchBounds}</p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ContinuedFractionWorkbench;
@@ -0,0 +1,198 @@
+/**
+ * @file CountsImport.tsx
+ * The import mode: it reads measurement counts from real hardware or an external
+ * simulator, runs the classical half of Shor's algorithm on every distinct
+ * outcome, and shows which bitstrings led to factors, both as a summary table
+ * and as attempt cards.
+ */
+
+import React, { useState, ChangeEvent, FormEvent } from 'react';
+import { ExplanationTopic, ImportedOutcome } from '../types';
+import { MAX_IMPORT_QUBITS, analyzeCounts, parseCounts, parseImportNumber, summarizeImport } from '../services/countsImport';
+import AttemptCard from './AttemptCard';
+import { MAX_INPUT } from './InputForm';
+import { fieldClass } from './formStyles';
+import type { TranslationSet } from '../i18n/locales';
+
+/**
+ * Props for the CountsImport component.
+ */
+interface CountsImportProps {
+  /** Callback function to trigger the explanation modal for a specific topic. */
+  onExplain: (topic: ExplanationTopic) => void;
+  /** Callback function to open a measured fraction c/q in the continued fraction workbench. */
+  onOpenWorkbench: (c: bigint, q: bigint) => void;
+  /** The translation object for the current language. */
+  t: TranslationSet;
+}
+
+/** The number of most frequent outcomes shown as attempt cards; the table lists all of them. */
+const MAX_CARDS = 8;
+
+/**
+ * Offers the import form and displays the analysis of every imported outcome.
+ * @param {CountsImportProps} props - The props for the component.
+ */
+function CountsImport({ onExplain, onOpenWorkbench, t }: CountsImportProps) {
+  // State for the form fields, with the counts of a small example run for N = 15.
+  const [nValue, setNValue] = useState('15');
+  const [aValue, setAValue] = useState('7');
+  const [tValue, setTValue] = useState('8');
+  const [countsText, setCountsText] = useState('{\n  "00000000": 251,\n  "01000000": 262,\n  "10000000": 243,\n  "11000000": 244\n}');
+  // State for the analysis: whether it is running, its results and errors.
+  const [isRunning, setIsRunning] = useState(false);
+  const [outcomes, setOutcomes] = useState<ImportedOutcome[]>([]);
+  const [error, setError] = useState('');
+
+  /**
+   * Loads the content of a chosen file into the text area.
+   * @param e The change event of the file input.
+   */
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      setCountsText(await file.text());
+    }
+  };
+
+  /**
+   * Validates the form, parses the counts and analyses every outcome.
+   * @param e The form event.
+   */
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    let n: bigint;
+    try {
+      n = parseImportNumber(nValue, MAX_INPUT, t);
+    } catch (err: any) {
+      setError(err.message);
+      return;
+    }
+    const aText = aValue.trim();
+    const a = /^\d+$/.test(aText) ? BigInt(aText) : null;
+    if (a === null || a < 2n || a >= n) {
+      setError(t.errorPinnedBase(n.toString()));
+      return;
+    }
+    const tQubits = /^\d+$/.test(tValue.trim()) ? Number(tValue.trim()) : 0;
+    if (tQubits < 1 || tQubits > MAX_IMPORT_QUBITS) {
+      setError(t.importErrorQubits(MAX_IMPORT_QUBITS));
+      return;
+    }
+
+    setError('');
+    setIsRunning(true);
+    try {
+      const counts = parseCounts(countsText, tQubits, t);
+      setOutcomes(await analyzeCounts(n, a, tQubits, counts, t));
+    } catch (err: any) {
+      setOutcomes([]);
+      setError(err.message);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const summary = summarizeImport(outcomes);
+
+  return (
+    <div>
+      <div className="bg-slate-800/50 p-6 rounded-lg shadow-lg border border-slate-700 mb-8">
+        <h2 className="text-xl font-semibold text-slate-200">{t.importTitle}</h2>
+        <p className="text-slate-400 text-sm mt-1">{t.importDescription}</p>
+        <form onSubmit={handleSubmit} className="grid grid-cols-3 gap-4 mt-4 text-sm">
+          <label className="flex flex-col gap-1 text-slate-400">
+            N
+            <input type="text" inputMode="numeric" value={nValue} onChange={(e) => setNValue(e.target.value)} className={fieldClass} disabled={isRunning} />
+          </label>
+          <label className="flex flex-col gap-1 text-slate-400">
+            {t.importBase}
+            <input type="text" inputMode="numeric" value={aValue} onChange={(e) => setAValue(e.target.value)} className={fieldClass} disabled={isRunning} />
+          </label>
+          <label className="flex flex-col gap-1 text-slate-400">
+            {t.importQubits}
+            <input type="text" inputMode="numeric" value={tValue} onChange={(e) => setTValue(e.target.value)} className={fieldClass} disabled={isRunning} />
+          </label>
+          <label className="col-span-3 flex flex-col gap-1 text-slate-400">
+            {t.importCounts}
+            <textarea
+              value={countsText}
+              onChange={(e) => setCountsText(e.target.value)}
+              rows={6}
+              spellCheck={false}
+              className={fieldClass}
+              disabled={isRunning}
+            />
+            <span className="text-xs text-slate-500">{t.importCountsHint}</span>
+          </label>
+          <label className="col-span-3 sm:col-span-2 flex flex-col gap-1 text-slate-400">
+            {t.importFile}
+            <input type="file" accept=".json,application/json" onChange={handleFile} className="text-slate-300" disabled={isRunning} />
+          </label>
+          <div className="col-span-3 sm:col-span-1 flex items-end">
+            <button
+              type="submit"
+              disabled={isRunning}
+              className="w-full bg-sky-600 hover:bg-sky-500 disabled:bg-slate-600 disabled:cursor-not-allowed text-white font-bold py-2 px-6 rounded-lg transition-colors"
+            >
+              {isRunning ? t.buttonRunning : t.importStart}
+            </button>
+          </div>
+        </form>
+        {error && <p className="text-red-400 mt-3">{error}</p>}
+      </div>
+
+      {outcomes.length > 0 && (
+        <div className="space-y-6">
+          <div className="bg-slate-800/50 p-6 rounded-lg shadow-lg border border-slate-700 space-y-4">
+            <p className="text-slate-300">
+              {t.importSummary(outcomes.length, summary.shots, summary.successfulShots, ((summary.successfulShots / summary.shots) * 100).toFixed(1))}
+            </p>
+            <p className={summary.factorPairs.length > 0 ? 'text-green-300' : 'text-yellow-300'}>
+              {summary.factorPairs.length > 0
+                ? t.importFactors(summary.factorPairs.map(([p, q]) => `${p} × ${q}`).join(', '))
+                : t.importNoFactors}
+            </p>
+            <div className="overflow-x-auto max-h-96">
+              <table className="w-full text-sm font-mono text-slate-300">
+                <thead>
+                  <tr className="text-slate-400 border-b border-slate-700">
+                    <th className="text-left py-1 pr-4">#</th>
+                    <th className="text-left py-1 pr-4">{t.importTableBitstring}</th>
+                    <th className="text-right py-1 pr-4">c</th>
+                    <th className="text-right py-1 pr-4">{t.importTableCount}</th>
+                    <th className="text-right py-1 pr-4">r</th>
+                    <th className="text-left py-1 pr-4">{t.importTableOutcome}</th>
+                    <th className="text-left py-1">{t.importTableFactors}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {outcomes.map(({ bitstring, c, count, attempt }) => (
+                    <tr key={c.toString()} className={`border-b border-slate-800 ${attempt.status === 'success' ? 'text-green-300' : ''}`}>
+                      <td className="py-1 pr-4">{attempt.id}</td>
+                      <td className="py-1 pr-4">{bitstring}</td>
+                      <td className="text-right py-1 pr-4">{c.toString()}</td>
+                      <td className="text-right py-1 pr-4">{count}</td>
+                      <td className="text-right py-1 pr-4">{attempt.period?.toString() ?? '—'}</td>
+                      <td className="py-1 pr-4">{attempt.outcome ? t.outcomeNames[attempt.outcome] : '—'}</td>
+                      <td className="py-1">{attempt.status === 'success' && attempt.factors ? attempt.factors.map(factor => factor.toString()).join(' × ') : '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {outcomes.length > MAX_CARDS && (
+              <p className="text-slate-400 text-sm">{t.importCardsShown(MAX_CARDS, outcomes.length)}</p>
+            )}
+          </div>
+
+          {outcomes.slice(0, MAX_CARDS).map(({ attempt }) => (
+            <AttemptCard key={attempt.id} attempt={attempt} onExplain={onExplain} onOpenWorkbench={onOpenWorkbench} t={t} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default CountsImport;
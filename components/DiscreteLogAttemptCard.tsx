@@ -0,0 +1,156 @@
+/**
+ * @file DiscreteLogAttemptCard.tsx
+ * This component displays a single attempt of Shor's discrete-logarithm algorithm
+ * in the layout of the factoring attempt cards: the order of g, the two-register
+ * measurement (c1, c2) with its circuit, the recovery of x and its verification.
+ */
+
+import React from 'react';
+import Katex from 'react-katex';
+import { DiscreteLogAttempt, ExplanationTopic } from '../types';
+import DiscreteLogCircuitDiagram from './DiscreteLogCircuitDiagram';
+import ExplainButton from './ExplainButton';
+import type { TranslationSet } from '../i18n/locales';
+
+/**
+ * Props for the DiscreteLogAttemptCard component.
+ */
+interface DiscreteLogAttemptCardProps {
+  /** The attempt object containing all the data to display. */
+  attempt: DiscreteLogAttempt;
+  /** Callback function to trigger the explanation modal for a specific topic. */
+  onExplain: (topic: ExplanationTopic) => void;
+  /** The translation object for the current language. */
+  t: TranslationSet;
+}
+
+/**
+ * Helper function to determine the border and background color of the card based on its status.
+ * @param status The current status of the attempt ('running', 'success', 'failed').
+ * @returns A string of Tailwind CSS classes.
+ */
+const getStatusColorClasses = (status: DiscreteLogAttempt['status']) => {
+  switch (status) {
+    case 'success':
+      return 'border-green-500 bg-green-900/30';
+    case 'failed':
+      return 'border-red-500 bg-red-900/30';
+    case 'running':
+    default:
+      return 'border-sky-500 bg-sky-900/30';
+  }
+};
+
+/**
+ * A card component that displays the step-by-step progress of one discrete-logarithm attempt.
+ * @param {DiscreteLogAttemptCardProps} props The props for the component.
+ */
+function DiscreteLogAttemptCard({ attempt, onExplain, t }: DiscreteLogAttemptCardProps) {
+  const { id, p, g, h, order, status, periodFinder, quantumResult, recovery, verification, x, error } = attempt;
+  // A counter to number the steps as they are rendered.
+  let step = 1;
+
+  return (
+    <div className={`border-2 rounded-lg shadow-xl overflow-hidden transition-all duration-500 ${getStatusColorClasses(status)}`}>
+      <header className="px-4 py-3 sm:px-6 sm:py-4 bg-slate-800/50 flex justify-between items-center">
+        <h3 className="text-xl font-bold text-slate-200">
+          {t.attemptTitle(id)}
+          <span className="ml-3 text-base font-normal text-slate-400 font-mono">{t.dlogAttemptTarget(g.toString(), h.toString(), p.toString())}</span>
+        </h3>
+        <span className={`px-3 py-1 text-sm font-semibold rounded-full capitalize ${
+            status === 'success' ? 'bg-green-500/20 text-green-300' :
+            status === 'failed' ? 'bg-red-500/20 text-red-300' :
+            'bg-sky-500/20 text-sky-300'
+        }`}>
+          {t.status[status]}
+        </span>
+      </header>
+
+      <div className="p-4 sm:p-6 space-y-6">
+        {/* Step 1: The order of g */}
+        <div className="border-b border-slate-700 pb-4">
+          <h4 className="text-lg font-semibold text-slate-300 flex items-center">
+            {step++}. {t.dlogStep1Title}
+            <ExplainButton onClick={() => onExplain(ExplanationTopic.DiscreteLogIntro)} t={t} />
+          </h4>
+          <p className="text-slate-400 mt-2">
+            {t.dlogStep1Description(g.toString(), p.toString())} <Katex.InlineMath math={`r = \\operatorname{ord}_{${p.toString()}}(${g.toString()}) = ${order.toString()}`} />
+          </p>
+        </div>
+
+        {/* Step 2: Two-register period finding */}
+        {quantumResult && (
+          <div className="border-b border-slate-700 pb-4 animate-step-in">
+            <h4 className="text-lg font-semibold text-slate-300 flex items-center">
+              {step++}. {t.dlogStep2Title}
+              <ExplainButton onClick={() => onExplain(ExplanationTopic.DiscreteLogCircuit)} t={t} />
+            </h4>
+            <p className="text-slate-400 mt-2 mb-4">{t.dlogStep2Description}</p>
+            <p className="text-slate-400 mb-4">{t.dlogStep2Register(order.toString(), quantumResult.registerQubits)}</p>
+            <DiscreteLogCircuitDiagram p={p} g={g} h={h} order={order} onExplain={onExplain} t={t} />
+            <p className="text-slate-400 mt-4">
+              {t.step2Backend} <span className="text-slate-300 font-semibold">{t.periodFinderNames[periodFinder]}</span>
+            </p>
+            <p className="text-slate-400 mt-1">
+              {t.dlogStep2Measurement(quantumResult.c1.toString(), quantumResult.c2.toString(), quantumResult.work.toString())}
+            </p>
+          </div>
+        )}
+
+        {/* Step 3: Recovering x */}
+        {recovery && quantumResult && (
+          <div className="border-b border-slate-700 pb-4 animate-step-in">
+            <h4 className="text-lg font-semibold text-slate-300 flex items-center">
+              {step++}. {t.dlogStep3Title}
+              <ExplainButton onClick={() => onExplain(ExplanationTopic.DiscreteLogRecovery)} t={t} />
+            </h4>
+            <p className="text-slate-400 mt-2">{t.dlogStep3Description}</p>
+            <Katex.BlockMath math={`${quantumResult.c1.toString()} \\cdot x \\equiv -${quantumResult.c2.toString()} \\pmod{${order.toString()}}, \\quad d = \\gcd(${quantumResult.c1.toString()}, ${order.toString()}) = ${recovery.divisor.toString()}`} />
+            <Katex.BlockMath math={`x \\equiv ${recovery.residue.toString()} \\pmod{${recovery.modulus.toString()}}`} />
+            {recovery.candidates.length > 0 && (
+              <p className="text-slate-400">
+                {t.dlogStep3Candidates(recovery.candidates.length)}{' '}
+                <span className="font-mono text-slate-300">{recovery.candidates.map(candidate => candidate.toString()).join(', ')}</span>
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Step 4: Verification */}
+        {verification && (
+          <div className="animate-step-in">
+            <h4 className="text-lg font-semibold text-slate-300 flex items-center">
+              {step++}. {t.dlogStep4Title}
+              <ExplainButton onClick={() => onExplain(ExplanationTopic.DiscreteLogRecovery)} t={t} />
+            </h4>
+            <p className="text-slate-400 mt-2">{t.dlogStep4Description}</p>
+            <div className="text-slate-300 pl-4 mt-1 space-y-1">
+              {verification.map(({ candidate, value }) => (
+                <p key={candidate.toString()} className={value === h ? 'text-green-400' : 'text-slate-400'}>
+                  <Katex.InlineMath math={`${g.toString()}^{${candidate.toString()}} \\bmod ${p.toString()} = ${value.toString()} ${value === h ? '=' : '\\neq'} ${h.toString()}`} />
+                </p>
+              ))}
+            </div>
+            {x !== undefined && (
+              <div className="mt-4 p-4 bg-green-900/40 border border-green-700 rounded-lg">
+                <h5 className="font-bold text-green-300">{t.dlogSuccess}</h5>
+                <p className="text-lg text-green-200 mt-1">
+                  <Katex.InlineMath math={`x = ${x.toString()}`} />: {t.dlogFound(g.toString(), x.toString(), h.toString(), p.toString())}
+                </p>
+              </div>
+            )}
+          </div>
+        )}
+
+        {error && (
+          <div className="animate-step-in">
+            <h4 className="text-lg font-semibold text-red-400">{t.attemptFailed}</h4>
+            <p className="text-slate-400 mt-2">{error}</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default DiscreteLogAttemptCard;
@@ -0,0 +1,205 @@
+/**
+ * @file DiscreteLogCircuitDiagram.tsx
+ * This component renders the circuit of Shor's discrete-logarithm algorithm as an
+ * SVG diagram: two counting registers over Z_r, the work register as a bundle, the
+ * controlled multiplications by g^(2^j) and h^(-2^j) mod p, and the Fourier
+ * transforms over Z_r as blocks. It follows the layout of the factoring circuit.
+ */
+
+import React, { useMemo } from 'react';
+import { CircuitStage, ExplanationTopic } from '../types';
+import { buildDiscreteLogCircuit } from '../services/circuit';
+import ExplainButton from './ExplainButton';
+import type { TranslationSet } from '../i18n/locales';
+
+/**
+ * Props for the DiscreteLogCircuitDiagram component.
+ */
+interface DiscreteLogCircuitDiagramProps {
+  /** The prime modulus. */
+  p: bigint;
+  /** The base. */
+  g: bigint;
+  /** The target. */
+  h: bigint;
+  /** The order of g. */
+  order: bigint;
+  /** Callback function to trigger the explanation modal. */
+  onExplain: (topic: ExplanationTopic) => void;
+  /** The translation object for the current language. */
+  t: TranslationSet;
+}
+
+/** The vertical distance between two wires. */
+const ROW_HEIGHT = 26;
+/** The width of the wire labels on the left and the right. */
+const LEFT_MARGIN = 72;
+const RIGHT_MARGIN = 40;
+/** The space above the first wire for the stage labels. */
+const TOP_MARGIN = 36;
+/** The size of a single-qubit gate box. */
+const GATE_SIZE = 20;
+/** The width of the columns of each stage; there is one column per multiplication. */
+const COLUMN_WIDTHS: Record<CircuitStage, number> = {
+  'prepare': 48,
+  'modular-exponentiation': 64,
+  'inverse-qft': 56,
+  'measure': 40,
+};
+
+/** The fill colour of the gates of each stage, as in the factoring circuit. */
+const STAGE_COLORS: Record<CircuitStage, string> = {
+  'prepare': '#0ea5e9',
+  'modular-exponentiation': '#8b5cf6',
+  'inverse-qft': '#f59e0b',
+  'measure': '#10b981',
+};
+
+/**
+ * A component that displays the circuit for the discrete logarithm.
+ * @param {DiscreteLogCircuitDiagramProps} props - The props for the component.
+ */
+function DiscreteLogCircuitDiagram({ p, g, h, order, onExplain, t }: DiscreteLogCircuitDiagramProps) {
+  const circuit = useMemo(() => buildDiscreteLogCircuit(p, g, h, order), [p, g, h, order]);
+  const qubits = circuit.registerQubits;
+
+  // The second register and the work register each sit half a row below the one above.
+  const registerY = (register: 0 | 1, j: number) => TOP_MARGIN + (register * (qubits + 0.5) + j) * ROW_HEIGHT;
+  const workY = TOP_MARGIN + (2 * qubits + 1) * ROW_HEIGHT;
+  const registerLabels = ['a', 'b'];
+  const height = workY + ROW_HEIGHT;
+
+  // One column for the preparation, each multiplication, the inverse transforms and the measurements.
+  const stages: CircuitStage[] = ['prepare', ...circuit.multiplications.map((): CircuitStage => 'modular-exponentiation'), 'inverse-qft', 'measure'];
+  const columnX: number[] = [];
+  let wiresEnd = LEFT_MARGIN;
+  for (const stage of stages) {
+    columnX.push(wiresEnd);
+    wiresEnd += COLUMN_WIDTHS[stage];
+  }
+  const width = wiresEnd + RIGHT_MARGIN;
+
+  /**
+   * Draws a block spanning a whole counting register.
+   * @param x The centre of the column.
+   * @param register The register.
+   * @param label The text inside the block.
+   * @param stage The stage, which sets the colour.
+   */
+  const registerBlock = (x: number, register: 0 | 1, label: string, stage: CircuitStage) => (
+    <g key={register}>
+      <rect
+        x={x - 18}
+        y={registerY(register, 0) - GATE_SIZE / 2}
+        width={36}
+        height={registerY(register, qubits - 1) - registerY(register, 0) + GATE_SIZE}
+        rx={3}
+        fill={STAGE_COLORS[stage]}
+        stroke="white"
+        strokeWidth={0.5}
+      />
+      <text x={x} y={(registerY(register, 0) + registerY(register, qubits - 1)) / 2 + 4} fontSize={12} textAnchor="middle" fontWeight="bold" fill="black">{label}</text>
+    </g>
+  );
+
+  /**
+   * Draws the content of a column.
+   * @param index The index of the column.
+   * @param x The centre of the column.
+   */
+  const renderColumn = (index: number, x: number) => {
+    const stage = stages[index];
+    switch (stage) {
+      case 'prepare':
+        return (
+          <g>
+            {([0, 1] as const).map(register => registerBlock(x, register, 'F_r', stage))}
+            <rect x={x - GATE_SIZE / 2} y={workY - GATE_SIZE / 2} width={GATE_SIZE} height={GATE_SIZE} rx={2} fill={STAGE_COLORS[stage]} stroke="white" strokeWidth={0.5} />
+            <text x={x} y={workY + 4} fontSize={11} textAnchor="middle" fontWeight="bold" fill="black">X</text>
+          </g>
+        );
+      case 'modular-exponentiation': {
+        const { register, control, multiplier } = circuit.multiplications[index - 1];
+        const y = registerY(register, control);
+        const exponent = `${register === 1 ? '-' : ''}${2n ** BigInt(control)}`;
+        return (
+          <g>
+            <line x1={x} y1={y} x2={x} y2={workY - 15} stroke="white" strokeWidth={1} />
+            <circle cx={x} cy={y} r={4} fill={STAGE_COLORS[stage]} />
+            <rect x={x - 28} y={workY - 15} width={56} height={30} rx={2} fill={STAGE_COLORS[stage]} stroke="white" strokeWidth={0.5} />
+            <text x={x} y={workY - 2} fontSize={10} textAnchor="middle" fill="black">
+              {register === 0 ? 'g' : 'h'}<tspan dy={-4} fontSize={8}>{exponent}</tspan>
+            </text>
+            <text x={x} y={workY + 10} fontSize={11} textAnchor="middle" fontWeight="bold" fill="black">×{multiplier.toString()}</text>
+            <title>{t.dlogCircuitMultiplyTitle(`${registerLabels[register]}${control}`, exponent, multiplier.toString())}</title>
+          </g>
+        );
+      }
+      case 'inverse-qft':
+        return <g>{([0, 1] as const).map(register => registerBlock(x, register, 'F_r†', stage))}</g>;
+      case 'measure':
+        return (
+          <g>
+            {([0, 1] as const).flatMap(register => Array.from({ length: qubits }, (_, j) => {
+              const y = registerY(register, j);
+              return (
+                <g key={`${register}-${j}`}>
+                  <rect x={x - GATE_SIZE / 2} y={y - GATE_SIZE / 2} width={GATE_SIZE} height={GATE_SIZE} rx={2} fill={STAGE_COLORS[stage]} stroke="white" strokeWidth={0.5} />
+                  <path d={`M ${x - 7} ${y + 5} A 7 7 0 0 1 ${x + 7} ${y + 5}`} stroke="black" fill="none" strokeWidth={1.2} />
+                  <line x1={x} y1={y + 5} x2={x + 6} y2={y - 6} stroke="black" strokeWidth={1.2} />
+                </g>
+              );
+            }))}
+            <title>{t.circuitGateTitles.measure}</title>
+          </g>
+        );
+    }
+  };
+
+  return (
+    <div className="p-4 bg-slate-950/50 rounded-lg border border-slate-700">
+      <h5 className="text-md font-semibold text-slate-300 flex items-center mb-2">
+        {t.circuitDiagramTitle}
+        <ExplainButton onClick={() => onExplain(ExplanationTopic.DiscreteLogCircuit)} t={t} />
+      </h5>
+      <p className="text-slate-400 text-xs mb-2">
+        {t.dlogCircuitSummary(qubits, circuit.workQubits, order.toString())}
+      </p>
+      <div className="overflow-x-auto">
+        <svg width={width} height={height} className="block">
+          {/* Wires and their labels */}
+          {([0, 1] as const).flatMap(register => Array.from({ length: qubits }, (_, j) => (
+            <g key={`${register}-${j}`}>
+              <text x={LEFT_MARGIN - 8} y={registerY(register, j) + 4} fill="white" fontSize={11} textAnchor="end" fontFamily="monospace">
+                {registerLabels[register]}{j} |0⟩
+              </text>
+              <line x1={LEFT_MARGIN} y1={registerY(register, j)} x2={wiresEnd} y2={registerY(register, j)} stroke="white" strokeWidth={0.75} />
+              <text x={wiresEnd + 6} y={registerY(register, j) + 4} fill="gray" fontSize={11} fontFamily="monospace">c{register + 1}.{j}</text>
+            </g>
+          )))}
+          <text x={LEFT_MARGIN - 8} y={workY + 4} fill="white" fontSize={11} textAnchor="end" fontFamily="monospace">w |0⟩^{circuit.workQubits}</text>
+          <line x1={LEFT_MARGIN} y1={workY} x2={wiresEnd} y2={workY} stroke="white" strokeWidth={2} />
+
+          {/* Gates, column by column */}
+          {stages.map((stage, index) => {
+            const x = columnX[index] + COLUMN_WIDTHS[stage] / 2;
+            const startsStage = index === 0 || stages[index - 1] !== stage;
+            return (
+              <g key={index}>
+                {startsStage && index > 0 && (
+                  <line x1={columnX[index]} y1={18} x2={columnX[index]} y2={height - 6} stroke="#334155" strokeDasharray="3 3" />
+                )}
+                {startsStage && (
+                  <text x={columnX[index] + 2} y={12} fill={STAGE_COLORS[stage]} fontSize={11}>{t.circuitStages[stage]}</text>
+                )}
+                {renderColumn(index, x)}
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+    </div>
+  );
+}
+
+export default DiscreteLogCircuitDiagram;
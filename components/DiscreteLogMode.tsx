@@ -0,0 +1,144 @@
+/**
+ * @file DiscreteLogMode.tsx
+ * The discrete-logarithm mode: it reads a prime p, a base g and a target h, runs
+ * Shor's algorithm for the discrete logarithm in a Web Worker, and shows every
+ * attempt as a card until x with g^x ≡ h (mod p) is found.
+ */
+
+import React, { useState, useRef, useEffect, FormEvent } from 'react';
+import { DiscreteLogAttempt, ExplanationTopic, Language } from '../types';
+import { MAX_DISCRETE_LOG_P } from '../services/discreteLog';
+import { discreteLogInWorker } from '../services/shorWorkerClient';
+import { generateSeed } from '../services/random';
+import DiscreteLogAttemptCard from './DiscreteLogAttemptCard';
+import ExplainButton from './ExplainButton';
+import { fieldClass } from './formStyles';
+import type { TranslationSet } from '../i18n/locales';
+
+/**
+ * Props for the DiscreteLogMode component.
+ */
+interface DiscreteLogModeProps {
+  /** The current language, for the error messages of the worker. */
+  language: Language;
+  /** Callback function to trigger the explanation modal for a specific topic. */
+  onExplain: (topic: ExplanationTopic) => void;
+  /** The translation object for the current language. */
+  t: TranslationSet;
+}
+
+/**
+ * Parses a field holding a non-negative integer.
+ * @param value The text of the field.
+ * @returns The integer, or null if the text is not one.
+ */
+const parseInteger = (value: string) => (/^\d+$/.test(value.trim()) ? BigInt(value.trim()) : null);
+
+/**
+ * Offers the input form and displays the attempts of the discrete-logarithm algorithm.
+ * @param {DiscreteLogModeProps} props - The props for the component.
+ */
+function DiscreteLogMode({ language, onExplain, t }: DiscreteLogModeProps) {
+  // State for the form fields, with 5^13 ≡ 21 (mod 23) as the example.
+  const [pValue, setPValue] = useState('23');
+  const [gValue, setGValue] = useState('5');
+  const [hValue, setHValue] = useState('21');
+  // State for the run: its attempts, whether it is running, and errors.
+  const [attempts, setAttempts] = useState<DiscreteLogAttempt[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState('');
+  // The controller of the running job, aborted when the component goes away.
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  /**
+   * Checks that the fields hold integers and starts the algorithm; the worker validates the rest.
+   * @param e The form event.
+   */
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    const p = parseInteger(pValue);
+    const g = parseInteger(gValue);
+    const h = parseInteger(hValue);
+    if (p === null || p < 3n || p >= MAX_DISCRETE_LOG_P) {
+      setError(t.dlogErrorPrime(MAX_DISCRETE_LOG_P.toString()));
+      return;
+    }
+    if (g === null) {
+      setError(t.dlogErrorBase(p.toString()));
+      return;
+    }
+    if (h === null) {
+      setError(t.dlogErrorTarget(p.toString()));
+      return;
+    }
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setError('');
+    setAttempts([]);
+    setIsRunning(true);
+    try {
+      let solved = false;
+      for await (const attempt of discreteLogInWorker(p, g, h, generateSeed(), language, {}, controller.signal)) {
+        setAttempts(prev => {
+          const index = prev.findIndex(a => a.id === attempt.id);
+          return index > -1 ? prev.map((a, i) => (i === index ? attempt : a)) : [...prev, attempt];
+        });
+        solved = attempt.status === 'success';
+      }
+      if (!solved) setError(t.dlogFailed);
+    } catch (err: any) {
+      if (!controller.signal.aborted) setError(err.message);
+    } finally {
+      setIsRunning(false);
+      controllerRef.current = null;
+    }
+  };
+
+  return (
+    <div>
+      <div className="bg-slate-800/50 p-6 rounded-lg shadow-lg border border-slate-700 mb-8">
+        <h2 className="text-xl font-semibold text-slate-200 flex items-center">
+          {t.dlogTitle}
+          <ExplainButton onClick={() => onExplain(ExplanationTopic.DiscreteLogIntro)} t={t} />
+        </h2>
+        <p className="text-slate-400 text-sm mt-1">{t.dlogDescription}</p>
+        <form onSubmit={handleSubmit} className="grid grid-cols-1 sm:grid-cols-4 gap-4 mt-4 text-sm">
+          <label className="flex flex-col gap-1 text-slate-400">
+            {t.dlogPrime}
+            <input type="text" inputMode="numeric" value={pValue} onChange={(e) => setPValue(e.target.value)} className={fieldClass} disabled={isRunning} />
+          </label>
+          <label className="flex flex-col gap-1 text-slate-400">
+            {t.dlogBase}
+            <input type="text" inputMode="numeric" value={gValue} onChange={(e) => setGValue(e.target.value)} className={fieldClass} disabled={isRunning} />
+          </label>
+          <label className="flex flex-col gap-1 text-slate-400">
+            {t.dlogTarget}
+            <input type="text" inputMode="numeric" value={hValue} onChange={(e) => setHValue(e.target.value)} className={fieldClass} disabled={isRunning} />
+          </label>
+          <div className="flex items-end">
+            <button
+              type="submit"
+              disabled={isRunning}
+              className="w-full bg-sky-600 hover:bg-sky-500 disabled:bg-slate-600 disabled:cursor-not-allowed text-white font-bold py-2 px-6 rounded-lg transition-colors"
+            >
+              {isRunning ? t.buttonRunning : t.dlogStart}
+            </button>
+          </div>
+        </form>
+        <p className="text-xs text-slate-500 mt-2">{t.dlogHint(MAX_DISCRETE_LOG_P.toString())}</p>
+        {error && <p className="text-red-400 mt-3">{error}</p>}
+      </div>
+
+      <div className="space-y-6">
+        {attempts.map(attempt => (
+          <DiscreteLogAttemptCard key={attempt.id} attempt={attempt} onExplain={onExplain} t={t} />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default DiscreteLogMode;
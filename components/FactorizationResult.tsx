@@ -0,0 +1,89 @@
+/**
+ * @file FactorizationResult.tsx
+ * This component displays the outcome of a complete factorization: the prime
+ * factorization of N with multiplicities and the tree of splits that produced it.
+ */
+
+import React from 'react';
+import Katex from 'react-katex';
+import { FactorNode } from '../types';
+import { collectFactors, isFullyFactored } from '../services/factorize';
+import type { TranslationSet } from '../i18n/locales';
+
+/**
+ * Props for the FactorizationResult component.
+ */
+interface FactorizationResultProps {
+  /** The root of the factorization tree. */
+  tree: FactorNode;
+  /** The translation object for the current language. */
+  t: TranslationSet;
+}
+
+/**
+ * Props for the FactorTreeBranch component.
+ */
+interface FactorTreeBranchProps {
+  /** The node to render together with its descendants. */
+  node: FactorNode;
+  /** The translation object for the current language. */
+  t: TranslationSet;
+}
+
+/**
+ * Renders one node of the factorization tree and, recursively, its children.
+ * @param {FactorTreeBranchProps} props - The props for the component.
+ */
+function FactorTreeBranch({ node, t }: FactorTreeBranchProps) {
+  const valueClass =
+    node.method === 'prime' ? 'text-green-300' :
+    node.method === 'unresolved' ? 'text-yellow-300' :
+    'text-slate-200';
+
+  return (
+    <li className="mt-1">
+      <span className={`font-mono font-semibold ${valueClass}`}>{node.value.toString()}</span>
+      <span className="ml-2 text-sm text-slate-400">({t.factorMethods[node.method]})</span>
+      {node.children.length > 0 && (
+        <ul className="pl-6 ml-2 border-l border-slate-600">
+          {node.children.map((child, i) => (
+            <FactorTreeBranch key={i} node={child} t={t} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+/**
+ * A component that displays the complete factorization of N and its factorization tree.
+ * @param {FactorizationResultProps} props - The props for the component.
+ */
+function FactorizationResult({ tree, t }: FactorizationResultProps) {
+  const complete = isFullyFactored(tree);
+  const product = collectFactors(tree)
+    .map(({ factor, exponent }) => exponent > 1 ? `${factor.toString()}^{${exponent}}` : factor.toString())
+    .join(' \\times ');
+
+  return (
+    <div className={`mt-8 p-6 rounded-lg shadow-2xl text-center border ${complete ? 'bg-green-900/50 border-green-700' : 'bg-yellow-900/50 border-yellow-700'}`}>
+      <h2 className={`text-2xl font-bold mb-4 ${complete ? 'text-green-300' : 'text-yellow-300'}`}>
+        {complete ? t.factorizationComplete : t.factorizationPartial}
+      </h2>
+      <div className="text-2xl sm:text-3xl text-slate-200">
+        <Katex.InlineMath math={`${tree.value.toString()} = ${product}`} />
+      </div>
+      {!complete && (
+        <p className="text-lg mt-2">{t.factorizationPartialMessage(tree.value.toString())}</p>
+      )}
+      <div className="mt-6 text-left">
+        <h3 className="text-lg font-semibold text-slate-300">{t.factorTreeTitle}</h3>
+        <ul className="mt-2">
+          <FactorTreeBranch node={tree} t={t} />
+        </ul>
+      </div>
+    </div>
+  );
+}
+
+export default FactorizationResult;
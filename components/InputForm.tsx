@@ -1,18 +1,56 @@
 /**
  * @file InputForm.tsx
  * This component provides the user interface for inputting the number to be factored.
- * It includes an input field, a submit button, and handles basic client-side validation.
+ * It includes an input field, a submit button, the run settings, and handles basic client-side validation.
  */
 
 import React, { useState, FormEvent } from 'react';
+import { PeriodFinderSelection, ShorOptions, WorkerShorOptions } from '../types';
+import { MAX_SEED } from '../services/random';
+import { PERIOD_FINDER_OPTIONS } from '../services/periodFinders';
+import { DEFAULT_SHOR_OPTIONS, bitLength } from '../services/shor';
+import AdvancedSettings, { AdvancedSettingsValues } from './AdvancedSettings';
 import type { TranslationSet } from '../i18n/locales';
 
+/** The largest number accepted by the form; the classical backend handles numbers of this size. */
+export const MAX_INPUT = 2n ** 64n;
+
+/** The initial values of the advanced settings, taken from the default run options. */
+const DEFAULT_ADVANCED_SETTINGS: AdvancedSettingsValues = {
+  maxAttempts: String(DEFAULT_SHOR_OPTIONS.maxAttempts),
+  stepDelayMs: String(DEFAULT_SHOR_OPTIONS.stepDelayMs),
+  instant: false,
+  qubitCount: '',
+  baseStrategy: DEFAULT_SHOR_OPTIONS.baseStrategy.kind,
+  baseList: '',
+  shotsPerBase: String(DEFAULT_SHOR_OPTIONS.shotsPerBase),
+  maxContinuedFractionIterations: '',
+};
+
+/**
+ * Parses a whole number typed into a settings field.
+ * @param text The field value.
+ * @param min The smallest accepted value.
+ * @param max The largest accepted value.
+ * @returns The number, or null if the text is not a whole number in [min, max].
+ */
+const parseWholeNumber = (text: string, min: number, max: number): number | null => {
+  const trimmed = text.trim();
+  if (!/^\d+$/.test(trimmed)) return null;
+  const value = Number(trimmed);
+  return value >= min && value <= max ? value : null;
+};
+
 /**
  * Props for the InputForm component.
  */
 interface InputFormProps {
-  /** Function to call when the factorization process is started. */
-  onStart: (n: number) => void;
+  /**
+   * Function to call when the factorization process is started.
+   * The seed is null when the user left the field empty and a fresh one should be picked.
+   * The options hold every run setting except the random source, which is created from the seed.
+   */
+  onStart: (n: bigint, seed: number | null, options: WorkerShorOptions) => void;
   /** Boolean indicating if the main application is in a loading state. */
   isLoading: boolean;
   /** The translation object for the current language. */
@@ -26,9 +64,84 @@ interface InputFormProps {
 function InputForm({ onStart, isLoading, t }: InputFormProps) {
   // State for the value of the number input field.
   const [inputValue, setInputValue] = useState('91');
+  // State for the optional seed field. An empty value means a random seed.
+  const [seedValue, setSeedValue] = useState('');
+  // State for the selected period-finding backend.
+  const [periodFinder, setPeriodFinder] = useState<PeriodFinderSelection>('auto');
+  // State for the optional pinned base 'a' and measured value 'c'. Empty values are chosen at random.
+  const [pinnedBaseValue, setPinnedBaseValue] = useState('');
+  const [pinnedMeasurementValue, setPinnedMeasurementValue] = useState('');
+  // State for the fields of the advanced settings panel.
+  const [advanced, setAdvanced] = useState<AdvancedSettingsValues>(DEFAULT_ADVANCED_SETTINGS);
   // State for displaying validation error messages.
   const [error, setError] = useState('');
 
+  /**
+   * Converts the advanced settings fields into run options.
+   * @param n The number to be factored, used to validate user-supplied bases.
+   * @returns The run options, or an error message naming the first invalid field.
+   */
+  const parseAdvancedSettings = (n: bigint): WorkerShorOptions | string => {
+    const maxAttempts = parseWholeNumber(advanced.maxAttempts, 1, 1000);
+    if (maxAttempts === null) return t.errorAdvancedInvalid(t.advancedMaxAttempts);
+
+    const stepDelayMs = advanced.instant ? 0 : parseWholeNumber(advanced.stepDelayMs, 0, 10000);
+    if (stepDelayMs === null) return t.errorAdvancedInvalid(t.advancedStepDelay);
+
+    const qubitCount = advanced.qubitCount.trim() === '' ? null : parseWholeNumber(advanced.qubitCount, 1, 1024);
+    if (advanced.qubitCount.trim() !== '' && qubitCount === null) return t.errorAdvancedInvalid(t.advancedQubitCount);
+
+    const maxContinuedFractionIterations = advanced.maxContinuedFractionIterations.trim() === '' ? null : parseWholeNumber(advanced.maxContinuedFractionIterations, 1, 1000);
+    if (advanced.maxContinuedFractionIterations.trim() !== '' && maxContinuedFractionIterations === null) return t.errorAdvancedInvalid(t.advancedCfIterations);
+
+    const shotsPerBase = parseWholeNumber(advanced.shotsPerBase, 1, 16);
+    if (shotsPerBase === null) return t.errorAdvancedInvalid(t.advancedShotsPerBase);
+
+    let baseStrategy: ShorOptions['baseStrategy'] = { kind: advanced.baseStrategy } as ShorOptions['baseStrategy'];
+    if (advanced.baseStrategy === 'list') {
+      const entries = advanced.baseList.split(/[\s,]+/).filter(Boolean);
+      if (entries.length === 0 || entries.some(entry => !/^\d+$/.test(entry))) {
+        return t.errorAdvancedInvalid(t.advancedBaseList);
+      }
+      const bases = entries.map(entry => BigInt(entry));
+      if (bases.some(base => base < 2n || base >= n)) {
+        return t.errorAdvancedInvalid(t.advancedBaseList);
+      }
+      baseStrategy = { kind: 'list', bases };
+    }
+
+    const pins = parsePins(n, qubitCount);
+    if (typeof pins === 'string') return pins;
+
+    return { maxAttempts, stepDelayMs, qubitCount, maxContinuedFractionIterations, shotsPerBase, baseStrategy, periodFinder, ...pins };
+  };
+
+  /**
+   * Converts the pinned base and measurement fields into run options.
+   * @param n The number to be factored; the base must lie in [2, n-1].
+   * @param qubitCount The chosen register size, or null for the default; 'c' must lie in [0, 2^t).
+   * @returns The pinned inputs, or an error message.
+   */
+  const parsePins = (n: bigint, qubitCount: number | null): Pick<WorkerShorOptions, 'pinnedBase' | 'pinnedMeasurement'> | string => {
+    const baseText = pinnedBaseValue.trim();
+    const measurementText = pinnedMeasurementValue.trim();
+    const pinnedBase = baseText === '' ? null : /^\d+$/.test(baseText) ? BigInt(baseText) : -1n;
+    if (pinnedBase !== null && (pinnedBase < 2n || pinnedBase >= n)) {
+      return t.errorPinnedBase(n.toString());
+    }
+    if (measurementText === '') {
+      return { pinnedBase, pinnedMeasurement: null };
+    }
+    if (pinnedBase === null) return t.errorPinnedMeasurementWithoutBase;
+    // The same register size as runShor: by default the smallest t with 2^t >= N^2.
+    const q = 2n ** BigInt(qubitCount ?? bitLength(n * n - 1n));
+    const pinnedMeasurement = /^\d+$/.test(measurementText) ? BigInt(measurementText) : -1n;
+    if (pinnedMeasurement < 0n || pinnedMeasurement >= q) {
+      return t.errorPinnedMeasurement(q.toString());
+    }
+    return { pinnedBase, pinnedMeasurement };
+  };
+
   /**
    * Handles the form submission event.
    * It performs validation on the input value before calling the onStart callback.
@@ -36,17 +149,30 @@ function InputForm({ onStart, isLoading, t }: InputFormProps) {
    */
   const handleSubmit = (e: FormEvent) => {
     e.preventDefault();
-    const n = parseInt(inputValue, 10);
-    if (isNaN(n) || n <= 3 || n > 100000) {
-      setError(t.errorNumberRange);
+    // Parse as a BigInt so that large inputs are never rounded.
+    const text = inputValue.trim();
+    const n = /^\d+$/.test(text) ? BigInt(text) : null;
+    if (n === null || n <= 3n || n > MAX_INPUT) {
+      setError(t.errorNumberRange(MAX_INPUT.toString()));
       return;
     }
-     if (n % 2 === 0) {
+     if (n % 2n === 0n) {
       setError(t.errorNumberEven);
       return;
     }
+    const seedText = seedValue.trim();
+    const seed = seedText === '' ? null : Number(seedText);
+    if (seed !== null && (!/^\d+$/.test(seedText) || seed > MAX_SEED)) {
+      setError(t.errorSeedInvalid);
+      return;
+    }
+    const options = parseAdvancedSettings(n);
+    if (typeof options === 'string') {
+      setError(options);
+      return;
+    }
     setError('');
-    onStart(n);
+    onStart(n, seed, options);
   };
 
   return (
@@ -57,7 +183,8 @@ function InputForm({ onStart, isLoading, t }: InputFormProps) {
         </label>
         <input
           id="number-input"
-          type="number"
+          type="text"
+          inputMode="numeric"
           value={inputValue}
           onChange={(e) => setInputValue(e.target.value)}
           className="w-full sm:w-auto flex-grow bg-slate-900 border border-slate-600 rounded-md px-4 py-2 text-lg text-center font-mono focus:ring-2 focus:ring-sky-500 focus:border-sky-500 outline-none transition"
@@ -72,6 +199,65 @@ function InputForm({ onStart, isLoading, t }: InputFormProps) {
           {isLoading ? t.buttonRunning : t.buttonStart}
         </button>
       </form>
+      <div className="flex flex-col sm:flex-row items-center gap-2 mt-4">
+        <label htmlFor="seed-input" className="text-slate-300 whitespace-nowrap">
+          {t.formSeedLabel}
+        </label>
+        <input
+          id="seed-input"
+          type="text"
+          inputMode="numeric"
+          value={seedValue}
+          onChange={(e) => setSeedValue(e.target.value)}
+          className="w-full sm:w-40 bg-slate-900 border border-slate-600 rounded-md px-3 py-1 font-mono focus:ring-2 focus:ring-sky-500 focus:border-sky-500 outline-none transition"
+          placeholder={t.formSeedPlaceholder}
+          disabled={isLoading}
+        />
+        <label htmlFor="backend-select" className="text-slate-300 whitespace-nowrap sm:ml-4">
+          {t.formBackendLabel}
+        </label>
+        <select
+          id="backend-select"
+          value={periodFinder}
+          onChange={(e) => setPeriodFinder(e.target.value as PeriodFinderSelection)}
+          className="w-full sm:w-auto bg-slate-900 border border-slate-600 rounded-md px-3 py-1 focus:ring-2 focus:ring-sky-500 focus:border-sky-500 outline-none transition"
+          disabled={isLoading}
+        >
+          {PERIOD_FINDER_OPTIONS.map(option => (
+            <option key={option} value={option}>{t.periodFinderNames[option]}</option>
+          ))}
+        </select>
+      </div>
+      <div className="flex flex-col sm:flex-row items-center gap-2 mt-4">
+        <label htmlFor="pinned-base-input" className="text-slate-300 whitespace-nowrap">
+          {t.formPinnedBaseLabel}
+        </label>
+        <input
+          id="pinned-base-input"
+          type="text"
+          inputMode="numeric"
+          value={pinnedBaseValue}
+          onChange={(e) => setPinnedBaseValue(e.target.value)}
+          className="w-full sm:w-32 bg-slate-900 border border-slate-600 rounded-md px-3 py-1 font-mono focus:ring-2 focus:ring-sky-500 focus:border-sky-500 outline-none transition"
+          placeholder={t.formSeedPlaceholder}
+          disabled={isLoading}
+        />
+        <label htmlFor="pinned-measurement-input" className="text-slate-300 whitespace-nowrap sm:ml-4">
+          {t.formPinnedMeasurementLabel}
+        </label>
+        <input
+          id="pinned-measurement-input"
+          type="text"
+          inputMode="numeric"
+          value={pinnedMeasurementValue}
+          onChange={(e) => setPinnedMeasurementValue(e.target.value)}
+          className="w-full sm:w-32 bg-slate-900 border border-slate-600 rounded-md px-3 py-1 font-mono focus:ring-2 focus:ring-sky-500 focus:border-sky-500 outline-none transition"
+          placeholder={t.formSeedPlaceholder}
+          disabled={isLoading}
+        />
+      </div>
+      <p className="text-xs text-slate-500 mt-1 text-center sm:text-left">{t.formPinnedHint}</p>
+      <AdvancedSettings values={advanced} onChange={setAdvanced} disabled={isLoading} t={t} />
       {error && <p className="text-red-400 mt-3 text-center sm:text-left">{error}</p>}
        <div className="text-sm text-slate-400 mt-4 text-center">
         {t.formHint}
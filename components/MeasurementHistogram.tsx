@@ -0,0 +1,210 @@
+/**
+ * @file MeasurementHistogram.tsx
+ * A histogram of the theoretical distribution P(c) of the first register's
+ * measurement, with the sampled 'c' marked. The view can be zoomed into a peak
+ * down to single values, and clicking a value re-runs the continued fractions
+ * for it, showing which measurements lead to the true period.
+ */
+
+import React, { useState, useMemo } from 'react';
+import { binnedDistribution, measurementProbability, nearestPeak } from '../services/measurementDistribution';
+import { multiplicativeOrder } from '../services/order';
+import { recoverPeriod } from '../services/shor';
+import ContinuedFractionDisplay from './ContinuedFractionDisplay';
+import type { TranslationSet } from '../i18n/locales';
+
+/**
+ * Props for the MeasurementHistogram component.
+ */
+interface MeasurementHistogramProps {
+  /** The base 'a', co-prime with N. */
+  a: bigint;
+  /** The number being factored. */
+  n: bigint;
+  /** The sampled measurement of the first register. */
+  c: bigint;
+  /** The size of the first register, `q = 2^t`. */
+  q: bigint;
+  /** The most terms of each continued fraction expansion, as in the run being shown. */
+  maxIterations: number;
+  /** The translation object for the current language. */
+  t: TranslationSet;
+}
+
+/** The range of values shown: from `start` up to, but not including, `end`. */
+interface HistogramView {
+  start: bigint;
+  end: bigint;
+}
+
+/** The largest number of bars drawn; a view with more values is binned. */
+const BAR_COUNT = 128n;
+/** How much narrower the view becomes on each zoom step. */
+const ZOOM_FACTOR = 8n;
+/** The dimensions of the SVG coordinate system. */
+const WIDTH = 600;
+const HEIGHT = 200;
+const MARGIN = { top: 12, right: 8, bottom: 24, left: 8 };
+
+/**
+ * Centres a view of the given width on a value, keeping it inside [0, q).
+ * @param center The value to centre on.
+ * @param span The number of values in the view.
+ * @param q The size of the first register.
+ * @returns The first value of the view and the value after its last one.
+ */
+function viewAround(center: bigint, span: bigint, q: bigint): HistogramView {
+  if (span >= q) return { start: 0n, end: q };
+  let start = center - span / 2n;
+  if (start < 0n) start = 0n;
+  if (start + span > q) start = q - span;
+  return { start, end: start + span };
+}
+
+/**
+ * Formats a probability for display.
+ * @param p The probability.
+ * @returns The probability with four significant digits.
+ */
+const formatProbability = (p: number) => p.toPrecision(4);
+
+/**
+ * Displays the measurement distribution and re-runs period recovery for a chosen value.
+ * @param {MeasurementHistogramProps} props - The props for the component.
+ */
+function MeasurementHistogram({ a, n, c, q, maxIterations, t }: MeasurementHistogramProps) {
+  // State for the values shown and the value whose continued fractions are displayed.
+  const [view, setView] = useState<HistogramView>(() => ({ start: 0n, end: q }));
+  const [selected, setSelected] = useState<bigint>(c);
+
+  // The distribution is determined by the true period, computed classically.
+  const r = useMemo(() => multiplicativeOrder(a, n), [a, n]);
+  const { start, end }: HistogramView = view;
+  const span = end - start;
+  const isSingleValued = span <= BAR_COUNT;
+  const barCount = isSingleValued ? Number(span) : Number(BAR_COUNT);
+  const bins = useMemo(() => binnedDistribution(q, r, start, end, barCount), [q, r, start, end, barCount]);
+  const maxBin = Math.max(...bins);
+
+  // Once single values are shown, each bar is coloured by whether it recovers 'r'.
+  const recovers = useMemo(
+    () => (isSingleValued ? bins.map((_, i) => recoverPeriod(a, n, q, [start + BigInt(i)], maxIterations).period === r) : []),
+    [isSingleValued, bins, a, n, q, start, r, maxIterations],
+  );
+  const recovery = useMemo(() => recoverPeriod(a, n, q, [selected], maxIterations), [a, n, q, selected, maxIterations]);
+
+  const plotWidth = WIDTH - MARGIN.left - MARGIN.right;
+  const plotHeight = HEIGHT - MARGIN.top - MARGIN.bottom;
+  const barWidth = plotWidth / barCount;
+  // The first value of bin i, matching how `binnedDistribution` assigns values to bins.
+  const binStart = (i: number) => start + (span * BigInt(i) + BigInt(barCount) - 1n) / BigInt(barCount);
+  const xOf = (value: bigint) => MARGIN.left + (Number(value - start) / Number(span)) * plotWidth;
+
+  /**
+   * Selects a single value, or zooms into the peak nearest to a bin.
+   * @param i The index of the clicked bar.
+   */
+  const handleBarClick = (i: number) => {
+    if (isSingleValued) {
+      setSelected(binStart(i));
+      return;
+    }
+    const center = (binStart(i) + binStart(i + 1)) / 2n;
+    const zoomedSpan = span / ZOOM_FACTOR > BAR_COUNT ? span / ZOOM_FACTOR : BAR_COUNT;
+    setView(viewAround(nearestPeak(center, q, r), zoomedSpan, q));
+  };
+
+  const zoomOut = () => setView(viewAround((start + end) / 2n, span * ZOOM_FACTOR, q));
+  const zoomToSampled = () => {
+    setView(viewAround(c, BAR_COUNT, q));
+    setSelected(c);
+  };
+
+  const buttonClass = "bg-slate-700 hover:bg-slate-600 text-slate-100 text-xs font-semibold py-1 px-3 rounded transition-colors disabled:opacity-50";
+
+  return (
+    <div className="my-4 bg-slate-950/50 p-4 rounded-lg border border-slate-700">
+      <h5 className="text-md font-semibold text-slate-300">{t.histogramTitle}</h5>
+      <p className="text-slate-400 text-sm mt-1">{t.histogramDescription(r.toString())}</p>
+
+      <div className="flex flex-wrap items-center gap-2 mt-3">
+        <button type="button" onClick={zoomToSampled} className={buttonClass}>{t.histogramZoomSampled}</button>
+        <button type="button" onClick={zoomOut} className={buttonClass} disabled={span >= q}>{t.histogramZoomOut}</button>
+        <button type="button" onClick={() => setView({ start: 0n, end: q })} className={buttonClass} disabled={span >= q}>{t.histogramReset}</button>
+        <span className="text-slate-500 text-xs font-mono">{t.histogramRange(start.toString(), (end - 1n).toString())}</span>
+      </div>
+
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full mt-2">
+        <line x1={MARGIN.left} y1={MARGIN.top + plotHeight} x2={WIDTH - MARGIN.right} y2={MARGIN.top + plotHeight} className="stroke-slate-600" />
+        {bins.map((p, i) => {
+          const barHeight = maxBin > 0 ? (p / maxBin) * plotHeight : 0;
+          const value = binStart(i);
+          const fill = !isSingleValued ? 'fill-sky-500' : recovers[i] ? 'fill-green-500' : 'fill-slate-500';
+          return (
+            <g key={i} onClick={() => handleBarClick(i)} className="cursor-pointer">
+              {/* A transparent full-height target makes low bars easy to click. */}
+              <rect x={MARGIN.left + i * barWidth} y={MARGIN.top} width={barWidth} height={plotHeight} fill="transparent" />
+              <rect
+                x={MARGIN.left + i * barWidth + barWidth * 0.1}
+                y={MARGIN.top + plotHeight - barHeight}
+                width={barWidth * 0.8}
+                height={barHeight}
+                className={`${fill} hover:opacity-80 ${isSingleValued && value === selected ? 'stroke-slate-100' : ''}`}
+              />
+              <title>
+                {isSingleValued
+                  ? t.histogramValue(value.toString(), formatProbability(p))
+                  : t.histogramBin(value.toString(), binStart(i + 1).toString(), formatProbability(p))}
+              </title>
+            </g>
+          );
+        })}
+        {c >= start && c < end && (
+          <g className="pointer-events-none">
+            <line
+              x1={xOf(c) + (isSingleValued ? barWidth / 2 : 0)}
+              y1={MARGIN.top}
+              x2={xOf(c) + (isSingleValued ? barWidth / 2 : 0)}
+              y2={MARGIN.top + plotHeight}
+              className="stroke-amber-400"
+              strokeDasharray="3 3"
+            />
+            <text x={xOf(c) + (isSingleValued ? barWidth / 2 : 0)} y={HEIGHT - 6} textAnchor="middle" className="fill-amber-400 text-[11px] font-mono">
+              c = {c.toString()}
+            </text>
+          </g>
+        )}
+      </svg>
+
+      <div className="flex flex-wrap gap-4 text-xs text-slate-400 mt-1">
+        <span><span className="text-amber-400">┆</span> {t.histogramSampled}</span>
+        {isSingleValued && <span><span className="text-green-500">■</span> {t.histogramRecovers}</span>}
+        {isSingleValued && <span><span className="text-slate-500">■</span> {t.histogramMisses}</span>}
+      </div>
+
+      <div className="mt-4">
+        <p className="text-slate-300 text-sm mb-2">
+          {t.histogramSelected(selected.toString(), q.toString(), formatProbability(measurementProbability(selected, q, r)))}
+        </p>
+        {recovery.candidates.length > 0 ? (
+          <ContinuedFractionDisplay
+            convergents={recovery.convergents}
+            candidateR={recovery.period ?? recovery.candidates[recovery.candidates.length - 1].value}
+            t={t}
+          />
+        ) : (
+          <p className="text-red-300 text-sm">{t.shorErrorContFraction}</p>
+        )}
+        <p className={`text-sm mt-2 ${recovery.period === r ? 'text-green-300' : 'text-red-300'}`}>
+          {recovery.period === r
+            ? t.histogramRecovered(r.toString())
+            : recovery.period !== null
+              ? t.histogramMultiple(recovery.period.toString(), r.toString())
+              : t.histogramNotRecovered}
+        </p>
+      </div>
+    </div>
+  );
+}
+
+export default MeasurementHistogram;
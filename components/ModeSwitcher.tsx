@@ -0,0 +1,49 @@
+/**
+ * @file ModeSwitcher.tsx
+ * A tab bar that switches between the explorer, statistics, workbench, import, RSA and discrete-log modes.
+ */
+
+import React from 'react';
+import { AppMode } from '../types';
+import type { TranslationSet } from '../i18n/locales';
+
+/**
+ * Props for the ModeSwitcher component.
+ */
+interface ModeSwitcherProps {
+  /** The active mode. */
+  mode: AppMode;
+  /** Function to call when the user selects a mode. */
+  onModeChange: (mode: AppMode) => void;
+  /** The translation object for the current language. */
+  t: TranslationSet;
+}
+
+/** The modes offered in the tab bar, in display order. */
+const MODES: AppMode[] = ['explorer', 'statistics', 'workbench', 'import', 'rsa', 'discrete-log'];
+
+/**
+ * Displays one tab per application mode.
+ * @param {ModeSwitcherProps} props - The props for the component.
+ */
+function ModeSwitcher({ mode, onModeChange, t }: ModeSwitcherProps) {
+  const inactiveClass = "text-slate-400 hover:text-sky-400 border-transparent";
+  const activeClass = "text-sky-400 border-sky-400 font-semibold";
+
+  return (
+    <nav className="flex justify-center gap-6 mb-6 border-b border-slate-700">
+      {MODES.map(option => (
+        <button
+          key={option}
+          onClick={() => onModeChange(option)}
+          className={`pb-2 -mb-px border-b-2 transition-colors ${mode === option ? activeClass : inactiveClass}`}
+          aria-pressed={mode === option}
+        >
+          {t.modeNames[option]}
+        </button>
+      ))}
+    </nav>
+  );
+}
+
+export default ModeSwitcher;
@@ -0,0 +1,142 @@
+/**
+ * @file PeriodPlot.tsx
+ * An interactive SVG chart of f(x) = a^x mod N over several periods. Every return
+ * of f to 1 is marked, the period is annotated once the continued fractions have
+ * produced a candidate, and a candidate that differs from the true period is drawn
+ * next to it for comparison. Hovering a point shows its value.
+ */
+
+import React, { useState, useMemo } from 'react';
+import { multiplicativeOrder } from '../services/order';
+import type { TranslationSet } from '../i18n/locales';
+
+/**
+ * Props for the PeriodPlot component.
+ */
+interface PeriodPlotProps {
+  /** The base 'a', co-prime with N. */
+  a: bigint;
+  /** The number being factored. */
+  n: bigint;
+  /** The period candidate from the continued fractions, once known. */
+  candidateR?: bigint;
+  /** The translation object for the current language. */
+  t: TranslationSet;
+}
+
+/** The number of periods shown when they fit in the window. */
+const PERIODS_SHOWN = 3;
+/** The largest number of points plotted. */
+const MAX_POINTS = 96;
+/** The dimensions of the SVG coordinate system. */
+const WIDTH = 600;
+const HEIGHT = 220;
+const MARGIN = { top: 24, right: 12, bottom: 28, left: 48 };
+
+/**
+ * Plots f(x) = a^x mod N and annotates its period.
+ * @param {PeriodPlotProps} props - The props for the component.
+ */
+function PeriodPlot({ a, n, candidateR, t }: PeriodPlotProps) {
+  // State for the index of the point under the pointer.
+  const [hovered, setHovered] = useState<number | null>(null);
+
+  // The true period is computed classically, to draw and check the chart.
+  const period = useMemo(() => multiplicativeOrder(a, n), [a, n]);
+  const count = Number(period) * PERIODS_SHOWN + 1 <= MAX_POINTS ? Number(period) * PERIODS_SHOWN + 1 : MAX_POINTS;
+  const values = useMemo(() => {
+    const result: bigint[] = [];
+    let value = 1n;
+    for (let x = 0; x < count; x++) {
+      result.push(value);
+      value = (value * a) % n;
+    }
+    return result;
+  }, [a, n, count]);
+
+  const plotWidth = WIDTH - MARGIN.left - MARGIN.right;
+  const plotHeight = HEIGHT - MARGIN.top - MARGIN.bottom;
+  const xAt = (x: number) => MARGIN.left + (count > 1 ? (x / (count - 1)) * plotWidth : 0);
+  const yAt = (value: bigint) => MARGIN.top + plotHeight - (Number(value) / Number(n - 1n)) * plotHeight;
+
+  // Vertical markers at every multiple of a period that falls inside the window.
+  const multiples = (r: bigint) => {
+    const xs: number[] = [];
+    for (let x = Number(r); r > 0n && x < count; x += Number(r)) xs.push(x);
+    return xs;
+  };
+  const candidateDiffers = candidateR !== undefined && candidateR !== period;
+  const path = values.map((value, x) => `${x === 0 ? 'M' : 'L'}${xAt(x)},${yAt(value)}`).join(' ');
+
+  return (
+    <div className="my-4">
+      <p className="text-slate-400 text-sm mb-1">{t.plotTitle(a.toString(), n.toString())}</p>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full bg-slate-950/50 rounded-lg border border-slate-700" onMouseLeave={() => setHovered(null)}>
+        {/* Axes */}
+        <line x1={MARGIN.left} y1={MARGIN.top + plotHeight} x2={WIDTH - MARGIN.right} y2={MARGIN.top + plotHeight} className="stroke-slate-600" />
+        <line x1={MARGIN.left} y1={MARGIN.top} x2={MARGIN.left} y2={MARGIN.top + plotHeight} className="stroke-slate-600" />
+        <text x={MARGIN.left - 6} y={MARGIN.top + 4} textAnchor="end" className="fill-slate-400 text-[11px] font-mono">{(n - 1n).toString()}</text>
+        <text x={MARGIN.left - 6} y={MARGIN.top + plotHeight} textAnchor="end" className="fill-slate-400 text-[11px] font-mono">0</text>
+        <text x={WIDTH - MARGIN.right} y={HEIGHT - 8} textAnchor="end" className="fill-slate-400 text-[11px] font-mono">x = {count - 1}</text>
+
+        {/* The true period, once a candidate is known */}
+        {candidateR !== undefined && multiples(period).map(x => (
+          <line key={`r${x}`} x1={xAt(x)} y1={MARGIN.top} x2={xAt(x)} y2={MARGIN.top + plotHeight} className="stroke-green-500" strokeDasharray="4 3" />
+        ))}
+        {candidateR !== undefined && period < BigInt(count) && (
+          <g>
+            <line x1={xAt(0)} y1={MARGIN.top - 8} x2={xAt(Number(period))} y2={MARGIN.top - 8} className="stroke-green-400" />
+            <text x={(xAt(0) + xAt(Number(period))) / 2} y={MARGIN.top - 12} textAnchor="middle" className="fill-green-400 text-[12px] font-mono">
+              r = {period.toString()}
+            </text>
+          </g>
+        )}
+        {/* A candidate that differs from the true period */}
+        {candidateDiffers && multiples(candidateR).map(x => (
+          <line key={`c${x}`} x1={xAt(x)} y1={MARGIN.top} x2={xAt(x)} y2={MARGIN.top + plotHeight} className="stroke-red-500" strokeDasharray="2 4" />
+        ))}
+
+        <path d={path} fill="none" className="stroke-sky-600" strokeWidth={1} />
+        {values.map((value, x) => {
+          // f returns to 1 exactly at the multiples of the period: these are the repetitions.
+          const isRepetition = value === 1n;
+          return (
+            <circle
+              key={x}
+              cx={xAt(x)}
+              cy={yAt(value)}
+              r={hovered === x ? 5 : isRepetition ? 4 : 2.5}
+              className={isRepetition ? 'fill-amber-400' : 'fill-sky-400'}
+              onMouseEnter={() => setHovered(x)}
+            >
+              <title>{t.plotPoint(a.toString(), x, n.toString(), value.toString())}</title>
+            </circle>
+          );
+        })}
+
+        {hovered !== null && (
+          <text
+            x={Math.min(xAt(hovered) + 8, WIDTH - MARGIN.right - 150)}
+            y={Math.max(yAt(values[hovered]) - 8, MARGIN.top + 10)}
+            className="fill-slate-100 text-[12px] font-mono"
+          >
+            {t.plotPoint(a.toString(), hovered, n.toString(), values[hovered].toString())}
+          </text>
+        )}
+      </svg>
+      <div className="flex flex-wrap gap-4 text-xs text-slate-400 mt-1">
+        <span><span className="text-amber-400">●</span> {t.plotRepetition}</span>
+        {candidateR !== undefined && <span><span className="text-green-400">┆</span> {t.plotTruePeriod(period.toString())}</span>}
+        {candidateDiffers && <span><span className="text-red-400">┆</span> {t.plotCandidate(candidateR.toString())}</span>}
+      </div>
+      {candidateR !== undefined && period >= BigInt(count) && (
+        <p className="text-xs text-slate-500 mt-1">{t.plotPeriodBeyondWindow(period.toString(), count)}</p>
+      )}
+      {candidateDiffers && (
+        <p className="text-sm text-red-300 mt-1">{t.plotCandidateDiffers(candidateR.toString(), period.toString())}</p>
+      )}
+    </div>
+  );
+}
+
+export default PeriodPlot;
@@ -0,0 +1,92 @@
+/**
+ * @file PeriodRecoveryDisplay.tsx
+ * This component shows how the period 'r' was recovered from the measurements:
+ * the denominator found in each measurement, their least common multiple, and
+ * every candidate that was checked against a^r ≡ 1 (mod N).
+ */
+
+import React from 'react';
+import Katex from 'react-katex';
+import { ShorAttempt, ExplanationTopic } from '../types';
+import ExplainButton from './ExplainButton';
+import type { TranslationSet } from '../i18n/locales';
+
+/**
+ * Props for the PeriodRecoveryDisplay component.
+ */
+interface PeriodRecoveryDisplayProps {
+  /** The measurements of the first register for this base. */
+  measurements: bigint[];
+  /** The period recovery results of the attempt. */
+  fractionResult: NonNullable<ShorAttempt['fractionResult']>;
+  /** Callback function to trigger the explanation modal. */
+  onExplain: (topic: ExplanationTopic) => void;
+  /** The translation object for the current language. */
+  t: TranslationSet;
+}
+
+/**
+ * A component that displays the candidates tested during period recovery.
+ * @param {PeriodRecoveryDisplayProps} props - The props for the component.
+ */
+function PeriodRecoveryDisplay({ measurements, fractionResult, onExplain, t }: PeriodRecoveryDisplayProps) {
+  const { candidates, shotDenominators, lcm } = fractionResult;
+
+  return (
+    <div className="mt-4 bg-slate-950/50 p-4 rounded-lg border border-slate-700">
+      <h5 className="text-md font-semibold text-slate-300 flex items-center">
+        {t.recoveryTitle}
+        <ExplainButton onClick={() => onExplain(ExplanationTopic.PeriodRecovery)} t={t} />
+      </h5>
+      <p className="text-slate-400 text-sm mt-1">{t.recoveryDescription}</p>
+
+      {measurements.length > 1 && (
+        <div className="mt-3 text-slate-300">
+          <p className="text-slate-400">{t.recoveryMeasurements}</p>
+          <ul className="font-mono text-sm pl-4 mt-1 space-y-1">
+            {shotDenominators.map((d, shot) => (
+              <li key={shot}>
+                {t.recoveryShot(shot + 1, measurements[shot].toString(), d === null ? t.recoveryNoDenominator : d.toString())}
+              </li>
+            ))}
+          </ul>
+          {lcm !== undefined && (
+            <p className="mt-2">
+              {t.recoveryLcm} <Katex.InlineMath math={`= ${lcm.toString()}`} />
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className="overflow-x-auto mt-3">
+        <table className="w-full text-left text-sm whitespace-nowrap">
+          <thead className="border-b border-slate-600 text-slate-400">
+            <tr>
+              <th className="p-2 text-center">{t.recoveryHeaderCandidate}</th>
+              <th className="p-2 text-center">{t.recoveryHeaderSource}</th>
+              {measurements.length > 1 && <th className="p-2 text-center">{t.recoveryHeaderShot}</th>}
+              <th className="p-2 text-center"><Katex.InlineMath math="a^r \equiv 1 \pmod{N}" /></th>
+            </tr>
+          </thead>
+          <tbody className="font-mono">
+            {candidates.map((candidate, i) => (
+              <tr
+                key={i}
+                className={`border-b border-slate-700/50 ${candidate.verified ? 'bg-green-800/30 text-green-300' : ''}`}
+              >
+                <td className="p-2 text-center">{candidate.value.toString()}</td>
+                <td className="p-2 text-center font-sans">{t.recoverySources[candidate.source]}</td>
+                {measurements.length > 1 && <td className="p-2 text-center">#{candidate.shot + 1}</td>}
+                <td className={`p-2 text-center font-bold ${candidate.verified ? 'text-green-400' : 'text-red-400'}`}>
+                  {candidate.verified ? t.yes : t.no}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+export default PeriodRecoveryDisplay;
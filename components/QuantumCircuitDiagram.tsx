@@ -1,12 +1,17 @@
 /**
  * @file QuantumCircuitDiagram.tsx
- * This component renders a simplified SVG diagram of the quantum circuit used in
- * Shor's algorithm for period finding. It is a visual aid to help users understand
- * the quantum part of the process.
+ * This component renders the gate-level period-finding circuit of Shor's algorithm
+ * as an SVG diagram: one wire per counting qubit, the work register as a bundle or
+ * as individual wires, the controlled U^(2^j) blocks with their multipliers
+ * a^(2^j) mod N, and the inverse QFT as a single block or gate by gate. Wide
+ * circuits scroll horizontally instead of shrinking. The same circuit can be
+ * downloaded as an OpenQASM 2 or 3 file.
  */
 
-import React from 'react';
-import { ExplanationTopic } from '../types';
+import React, { useState, useMemo } from 'react';
+import { CircuitOperation, CircuitStage, ExplanationTopic, QasmVersion } from '../types';
+import { buildPeriodFindingCircuit } from '../services/circuit';
+import { MAX_QASM_N, circuitToQasm } from '../services/qasm';
 import ExplainButton from './ExplainButton';
 import type { TranslationSet } from '../i18n/locales';
 
@@ -14,10 +19,12 @@ import type { TranslationSet } from '../i18n/locales';
  * Props for the QuantumCircuitDiagram component.
  */
 interface QuantumCircuitDiagramProps {
+  /** The base 'a', co-prime with N. */
+  a: bigint;
+  /** The number being factored. */
+  n: bigint;
   /** The number of qubits in the first register. */
   tQubits: number;
-  /** The number of qubits in the second register, determined by the number to be factored. */
-  nBits: number;
   /** Callback function to trigger the explanation modal. */
   onExplain: (topic: ExplanationTopic) => void;
   /** The translation object for the current language. */
@@ -25,68 +32,286 @@ interface QuantumCircuitDiagramProps {
 }
 
 /**
- * A component that displays a simplified diagram of the quantum circuit for period finding.
+ * A column of the diagram: the gates drawn at the same horizontal position.
+ * A collapsed inverse QFT is a single column without individual gates.
+ */
+interface DiagramColumn {
+  /** The stage the gates belong to. */
+  stage: CircuitStage;
+  /** The gates of the column, or null for the collapsed inverse QFT block. */
+  operations: CircuitOperation[] | null;
+  /** The left edge of the column in pixels. */
+  x: number;
+  /** The width of the column in pixels. */
+  width: number;
+}
+
+/** The vertical distance between two wires. */
+const ROW_HEIGHT = 26;
+/** The width of the wire labels on the left and the right. */
+const LEFT_MARGIN = 72;
+const RIGHT_MARGIN = 40;
+/** The space above the first wire for the stage labels. */
+const TOP_MARGIN = 36;
+/** The size of a single-qubit gate box. */
+const GATE_SIZE = 20;
+
+/** The fill colour of the gates of each stage. */
+const STAGE_COLORS: Record<CircuitStage, string> = {
+  'prepare': '#0ea5e9',
+  'modular-exponentiation': '#8b5cf6',
+  'inverse-qft': '#f59e0b',
+  'measure': '#10b981',
+};
+
+/**
+ * Groups the operations of the circuit into the columns of the diagram.
+ * @param operations The gates of the circuit.
+ * @param qftExpanded True to draw the inverse QFT gate by gate.
+ * @returns The columns, from left to right.
+ */
+function layoutColumns(operations: CircuitOperation[], qftExpanded: boolean): DiagramColumn[] {
+  const columns: Omit<DiagramColumn, 'x'>[] = [];
+  const ofStage = (stage: CircuitStage) => operations.filter(operation => operation.stage === stage);
+
+  // The preparation gates act on different qubits, so they share a column; so do the measurements.
+  columns.push({ stage: 'prepare', operations: ofStage('prepare'), width: 36 });
+  for (const operation of ofStage('modular-exponentiation')) {
+    columns.push({ stage: 'modular-exponentiation', operations: [operation], width: 64 });
+  }
+  if (qftExpanded) {
+    for (const operation of ofStage('inverse-qft')) {
+      columns.push({ stage: 'inverse-qft', operations: [operation], width: 32 });
+    }
+  } else {
+    columns.push({ stage: 'inverse-qft', operations: null, width: 72 });
+  }
+  columns.push({ stage: 'measure', operations: ofStage('measure'), width: 40 });
+
+  // Each column starts where the previous one ends.
+  let x = LEFT_MARGIN;
+  return columns.map(column => {
+    const placed = { ...column, x };
+    x += column.width;
+    return placed;
+  });
+}
+
+/**
+ * A component that displays the gate-level circuit for period finding.
  * @param {QuantumCircuitDiagramProps} props - The props for the component.
  */
-function QuantumCircuitDiagram({ tQubits, nBits, onExplain, t }: QuantumCircuitDiagramProps) {
-  const height = 150;
-  const width = 500;
-  const wireY1 = 50;
-  const wireY2 = 100;
-  const startX = 20;
-  const endX = width - 20;
-  const gateSize = 30;
+function QuantumCircuitDiagram({ a, n, tQubits, onExplain, t }: QuantumCircuitDiagramProps) {
+  // State for whether the work register and the inverse QFT are drawn in full.
+  const [workExpanded, setWorkExpanded] = useState(false);
+  const [qftExpanded, setQftExpanded] = useState(false);
+
+  const circuit = useMemo(() => buildPeriodFindingCircuit(a, n, tQubits), [a, n, tQubits]);
+  const columns = useMemo(() => layoutColumns(circuit.operations, qftExpanded), [circuit, qftExpanded]);
+
+  const workRows = workExpanded ? circuit.workQubits : 1;
+  const countingY = (j: number) => TOP_MARGIN + j * ROW_HEIGHT;
+  // The work register sits below the counting register, separated by half a row.
+  const workY = (j: number) => TOP_MARGIN + (tQubits + 0.5 + (workExpanded ? j : 0)) * ROW_HEIGHT;
+  // The U blocks cover the whole work register, with room for two lines of text.
+  const workTop = workY(0) - 15;
+  const workBottom = workY(workRows - 1) + 15;
+  const height = workY(workRows - 1) + ROW_HEIGHT;
+  const lastColumn = columns[columns.length - 1];
+  const wiresEnd = lastColumn.x + lastColumn.width;
+  const width = wiresEnd + RIGHT_MARGIN;
+
+  /**
+   * Draws a labelled single-qubit gate box.
+   * @param x The centre of the column.
+   * @param y The wire of the gate.
+   * @param label The text inside the box.
+   * @param stage The stage, which sets the colour.
+   * @param title The tooltip of the gate.
+   */
+  const gateBox = (x: number, y: number, label: string, stage: CircuitStage, title: string) => {
+    // Labels such as R12† are wider than a square box.
+    const boxWidth = Math.max(GATE_SIZE, label.length * 7 + 2);
+    return (
+      <g>
+        <rect x={x - boxWidth / 2} y={y - GATE_SIZE / 2} width={boxWidth} height={GATE_SIZE} rx={2} fill={STAGE_COLORS[stage]} stroke="white" strokeWidth={0.5} />
+        <text x={x} y={y + 4} fontSize={11} textAnchor="middle" fontWeight="bold" fill="black">{label}</text>
+        <title>{title}</title>
+      </g>
+    );
+  };
+
+  /**
+   * Draws a single gate in a column.
+   * @param operation The gate.
+   * @param x The centre of the column.
+   */
+  const renderOperation = (operation: CircuitOperation, x: number) => {
+    switch (operation.kind) {
+      case 'h':
+        return gateBox(x, countingY(operation.target), 'H', operation.stage, t.circuitGateTitles.h);
+      case 'x':
+        return gateBox(x, workY(operation.target), 'X', operation.stage, t.circuitGateTitles.x);
+      case 'controlled-multiply': {
+        const exponent = 2n ** BigInt(operation.control);
+        return (
+          <g>
+            <line x1={x} y1={countingY(operation.control)} x2={x} y2={workTop} stroke="white" strokeWidth={1} />
+            <circle cx={x} cy={countingY(operation.control)} r={4} fill={STAGE_COLORS[operation.stage]} />
+            <rect x={x - 28} y={workTop} width={56} height={workBottom - workTop} rx={2} fill={STAGE_COLORS[operation.stage]} stroke="white" strokeWidth={0.5} />
+            <text x={x} y={(workTop + workBottom) / 2 - 2} fontSize={10} textAnchor="middle" fill="black">
+              U<tspan dy={-4} fontSize={8}>{exponent.toString()}</tspan>
+            </text>
+            <text x={x} y={(workTop + workBottom) / 2 + 10} fontSize={11} textAnchor="middle" fontWeight="bold" fill="black">
+              ×{operation.multiplier.toString()}
+            </text>
+            <title>{t.circuitMultiplyTitle(exponent.toString(), operation.multiplier.toString(), circuit.a.toString(), circuit.n.toString())}</title>
+          </g>
+        );
+      }
+      case 'controlled-phase':
+        return (
+          <g>
+            <line x1={x} y1={countingY(operation.control)} x2={x} y2={countingY(operation.target)} stroke="white" strokeWidth={1} />
+            <circle cx={x} cy={countingY(operation.control)} r={3.5} fill={STAGE_COLORS[operation.stage]} />
+            {gateBox(x, countingY(operation.target), `R${operation.k}†`, operation.stage, t.circuitPhaseTitle(operation.k))}
+          </g>
+        );
+      case 'swap':
+        return (
+          <g>
+            <line x1={x} y1={countingY(operation.first)} x2={x} y2={countingY(operation.second)} stroke="white" strokeWidth={1} />
+            {[operation.first, operation.second].map(qubit => (
+              <text key={qubit} x={x} y={countingY(qubit) + 5} fontSize={14} textAnchor="middle" fill="white">×</text>
+            ))}
+            <title>{t.circuitGateTitles.swap}</title>
+          </g>
+        );
+      case 'measure': {
+        const y = countingY(operation.target);
+        return (
+          <g>
+            <rect x={x - GATE_SIZE / 2} y={y - GATE_SIZE / 2} width={GATE_SIZE} height={GATE_SIZE} rx={2} fill={STAGE_COLORS[operation.stage]} stroke="white" strokeWidth={0.5} />
+            <path d={`M ${x - 7} ${y + 5} A 7 7 0 0 1 ${x + 7} ${y + 5}`} stroke="black" fill="none" strokeWidth={1.2} />
+            <line x1={x} y1={y + 5} x2={x + 6} y2={y - 6} stroke="black" strokeWidth={1.2} />
+            <title>{t.circuitGateTitles.measure}</title>
+          </g>
+        );
+      }
+    }
+  };
+
+  /**
+   * Downloads the circuit as an OpenQASM file.
+   * @param version The OpenQASM version to write.
+   */
+  const downloadQasm = (version: QasmVersion) => {
+    const source = circuitToQasm(circuit, version);
+    const blob = new Blob([source], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `shor-a${a}-n${n}-qasm${version}.qasm`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const canExport = n <= MAX_QASM_N;
+  const buttonClass = "bg-slate-700 hover:bg-slate-600 text-slate-100 text-xs font-semibold py-1 px-3 rounded transition-colors disabled:opacity-50";
 
   return (
-    <div className="p-4 bg-slate-950/50 rounded-lg border border-slate-700 flex flex-col items-center">
-       <div className="w-full flex justify-start mb-2">
-            <h5 className="text-md font-semibold text-slate-300 flex items-center">
-                {t.circuitDiagramTitle}
-                 <ExplainButton onClick={() => onExplain(ExplanationTopic.QuantumCircuit)} t={t} />
-            </h5>
+    <div className="p-4 bg-slate-950/50 rounded-lg border border-slate-700">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+        <h5 className="text-md font-semibold text-slate-300 flex items-center">
+          {t.circuitDiagramTitle}
+          <ExplainButton onClick={() => onExplain(ExplanationTopic.QuantumCircuit)} t={t} />
+        </h5>
+        <div className="flex flex-wrap gap-2">
+          <button type="button" onClick={() => setWorkExpanded(!workExpanded)} className={buttonClass} aria-pressed={workExpanded}>
+            {workExpanded ? t.circuitCollapseWork : t.circuitExpandWork}
+          </button>
+          <button type="button" onClick={() => setQftExpanded(!qftExpanded)} className={buttonClass} aria-pressed={qftExpanded}>
+            {qftExpanded ? t.circuitCollapseQft : t.circuitExpandQft}
+          </button>
+          {([2, 3] as QasmVersion[]).map(version => (
+            <button
+              key={version}
+              type="button"
+              onClick={() => downloadQasm(version)}
+              className={buttonClass}
+              disabled={!canExport}
+              title={canExport ? undefined : t.circuitQasmTooLarge(MAX_QASM_N.toString())}
+            >
+              {t.circuitDownloadQasm(version)}
+            </button>
+          ))}
         </div>
-      <svg viewBox={`0 0 ${width} ${height}`} className="w-full max-w-lg">
-        {/* Wires representing the two qubit registers */}
-        <line x1={startX} y1={wireY1} x2={endX} y2={wireY1} stroke="white" strokeWidth="1" />
-        <line x1={startX} y1={wireY2} x2={endX} y2={wireY2} stroke="white" strokeWidth="1" />
-
-        {/* Labels for the registers */}
-        <text x={startX - 15} y={wireY1 + 4} fill="white" fontSize="12" textAnchor="end">|0⟩⊗t</text>
-        <text x={startX - 15} y={wireY2 + 4} fill="white" fontSize="12" textAnchor="end">|0⟩⊗n</text>
-        <text x={endX + 15} y={wireY1 + 4} fill="white" fontSize="12">{t.circuitMeasure}</text>
-
-        {/* Labels indicating the number of qubits in each register */}
-        <text x={(startX + 100) / 2} y={wireY1 - 5} fill="gray" fontSize="10">{t.circuitQubits(tQubits)}</text>
-        <line x1={startX} y1={wireY1-2} x2={startX} y2={wireY1+2} stroke="white" strokeWidth="1" />
-        <line x1={100} y1={wireY1-2} x2={100} y2={wireY1+2} stroke="white" strokeWidth="1" />
-
-        <text x={(startX + 100) / 2} y={wireY2 - 5} fill="gray" fontSize="10">{t.circuitQubits(nBits)}</text>
-        <line x1={startX} y1={wireY2-2} x2={startX} y2={wireY2+2} stroke="white" strokeWidth="1" />
-        <line x1={100} y1={wireY2-2} x2={100} y2={wireY2+2} stroke="white" strokeWidth="1" />
-
-
-        {/* Quantum Gates */}
-        {/* Hadamard Gate: Puts the first register into superposition */}
-        <rect x={100} y={wireY1 - gateSize/2} width={gateSize} height={gateSize} fill="#0ea5e9" stroke="white" strokeWidth="1" />
-        <text x={100 + gateSize/2} y={wireY1 + 5} fill="black" fontSize="12" textAnchor="middle" fontWeight="bold">H</text>
-
-        {/* Controlled-U Gate: Computes the function f(x) = a^x mod N */}
-        <rect x={200} y={wireY2 - gateSize/2} width={gateSize*1.5} height={gateSize} fill="#8b5cf6" stroke="white" strokeWidth="1" />
-        <text x={200 + (gateSize*1.5)/2} y={wireY2 + 5} fill="black" fontSize="12" textAnchor="middle" fontWeight="bold">U_f</text>
-        <line x1={200 + (gateSize*1.5)/2} y1={wireY1} x2={200 + (gateSize*1.5)/2} y2={wireY2 - gateSize/2} stroke="white" strokeWidth="1" />
-        <circle cx={200 + (gateSize*1.5)/2} cy={wireY1} r="4" fill="#8b5cf6" />
-        
-        {/* Inverse Quantum Fourier Transform (QFT): Extracts the period information */}
-        <rect x={320} y={wireY1 - gateSize/2} width={gateSize*2} height={gateSize} fill="#f59e0b" stroke="white" strokeWidth="1" />
-        <text x={320 + gateSize} y={wireY1 + 5} fill="black" fontSize="12" textAnchor="middle" fontWeight="bold">QFT⁻¹</text>
-
-        {/* Measurement Symbol: Represents measuring the first register */}
-        <rect x={endX - gateSize} y={wireY1 - gateSize/2} width={gateSize} height={gateSize} fill="#10b981" stroke="white" strokeWidth="1" />
-        <path d={`M ${endX - gateSize + 5} ${wireY1 + 5} A 10 10 0 0 1 ${endX - 5} ${wireY1 + 5}`} stroke="black" fill="none" strokeWidth="1.5" />
-        <line x1={endX - gateSize/2} y1={wireY1 + 5} x2={endX - 5} y2={wireY1 - 8} stroke="black" strokeWidth="1.5" />
-      </svg>
+      </div>
+      <p className="text-slate-400 text-xs mb-2">
+        {t.circuitSummary(tQubits, circuit.workQubits, circuit.operations.length)}
+      </p>
+      <div className="overflow-x-auto">
+        <svg width={width} height={height} className="block">
+          {/* Wires and their labels */}
+          {Array.from({ length: tQubits }, (_, j) => (
+            <g key={`c${j}`}>
+              <text x={LEFT_MARGIN - 8} y={countingY(j) + 4} fill="white" fontSize={11} textAnchor="end" fontFamily="monospace">q{j} |0⟩</text>
+              <line x1={LEFT_MARGIN} y1={countingY(j)} x2={wiresEnd} y2={countingY(j)} stroke="white" strokeWidth={0.75} />
+              <text x={wiresEnd + 6} y={countingY(j) + 4} fill="gray" fontSize={11} fontFamily="monospace">c{j}</text>
+            </g>
+          ))}
+          {Array.from({ length: workRows }, (_, j) => (
+            <g key={`w${j}`}>
+              <text x={LEFT_MARGIN - 8} y={workY(j) + 4} fill="white" fontSize={11} textAnchor="end" fontFamily="monospace">
+                {workExpanded ? `w${j} |0⟩` : `w |0⟩^${circuit.workQubits}`}
+              </text>
+              <line x1={LEFT_MARGIN} y1={workY(j)} x2={wiresEnd} y2={workY(j)} stroke="white" strokeWidth={workExpanded ? 0.75 : 2} />
+              {!workExpanded && (
+                <g>
+                  <line x1={LEFT_MARGIN + 6} y1={workY(j) + 6} x2={LEFT_MARGIN + 14} y2={workY(j) - 6} stroke="white" strokeWidth={1} />
+                  <text x={LEFT_MARGIN + 16} y={workY(j) - 6} fill="gray" fontSize={9}>{circuit.workQubits}</text>
+                </g>
+              )}
+            </g>
+          ))}
+
+          {/* Gates, column by column */}
+          {columns.map((column, index) => {
+            const x = column.x + column.width / 2;
+            // A label and, after the first stage, a separator mark where each stage begins.
+            const startsStage = index === 0 || columns[index - 1].stage !== column.stage;
+            return (
+              <g key={index}>
+                {startsStage && index > 0 && (
+                  <line x1={column.x} y1={18} x2={column.x} y2={height - 6} stroke="#334155" strokeDasharray="3 3" />
+                )}
+                {startsStage && (
+                  <text x={column.x + 2} y={12} fill={STAGE_COLORS[column.stage]} fontSize={11}>{t.circuitStages[column.stage]}</text>
+                )}
+                {column.operations === null ? (
+                  <g>
+                    <rect
+                      x={x - column.width / 2 + 6}
+                      y={countingY(0) - GATE_SIZE / 2}
+                      width={column.width - 12}
+                      height={countingY(tQubits - 1) - countingY(0) + GATE_SIZE}
+                      rx={3}
+                      fill={STAGE_COLORS['inverse-qft']}
+                      stroke="white"
+                      strokeWidth={0.5}
+                    />
+                    <text x={x} y={(countingY(0) + countingY(tQubits - 1)) / 2 + 4} fontSize={12} textAnchor="middle" fontWeight="bold" fill="black">QFT⁻¹</text>
+                  </g>
+                ) : (
+                  column.operations.map((operation, i) => <g key={i}>{renderOperation(operation, x)}</g>)
+                )}
+              </g>
+            );
+          })}
+        </svg>
+      </div>
     </div>
   );
 }
 
-export default QuantumCircuitDiagram;
\ No newline at end of file
+export default QuantumCircuitDiagram;
@@ -0,0 +1,252 @@
+/**
+ * @file RegisterInspector.tsx
+ * A collapsible panel next to the circuit diagram that shows the joint state of
+ * both registers after each stage of the period-finding circuit: every basis
+ * state |x⟩|y⟩ with its amplitude, phase and probability, grouped by the value of
+ * the second register, and a phase wheel for each. It is offered for registers
+ * small enough to simulate in full.
+ */
+
+import React, { useState, useMemo } from 'react';
+import Katex from 'react-katex';
+import { ExplanationTopic, RegisterAmplitude, RegisterSnapshotStage } from '../types';
+import { canInspect, inspectRegisters, MAX_INSPECTED_QUBITS } from '../services/stateVector';
+import ExplainButton from './ExplainButton';
+import type { TranslationSet } from '../i18n/locales';
+
+/**
+ * Props for the RegisterInspector component.
+ */
+interface RegisterInspectorProps {
+  /** The base 'a', co-prime with N. */
+  a: bigint;
+  /** The number being factored. */
+  n: bigint;
+  /** The number of qubits in the first register. */
+  tQubits: number;
+  /** Callback function to trigger the explanation modal. */
+  onExplain: (topic: ExplanationTopic) => void;
+  /** The translation object for the current language. */
+  t: TranslationSet;
+}
+
+/** The most basis states listed at once; beyond this, only the most likely are shown. */
+const MAX_ROWS = 128;
+/** The radius of a phase wheel. */
+const WHEEL_RADIUS = 11;
+
+/** The colour of each point of the circuit, matching the stages of the circuit diagram. */
+const STAGE_COLORS: Record<RegisterSnapshotStage, string> = {
+  'initial': '#94a3b8',
+  'prepare': '#0ea5e9',
+  'modular-exponentiation': '#8b5cf6',
+  'inverse-qft': '#f59e0b',
+  'measure': '#10b981',
+};
+
+/**
+ * Computes the squared magnitude of an amplitude.
+ * @param amplitude The amplitude.
+ * @returns The probability of its basis state.
+ */
+const probabilityOf = ({ re, im }: RegisterAmplitude) => re * re + im * im;
+
+/**
+ * Formats a probability as a percentage.
+ * @param probability The probability, between 0 and 1.
+ * @returns The percentage with two decimals.
+ */
+const formatPercent = (probability: number) => `${(probability * 100).toFixed(2)} %`;
+
+/**
+ * Formats a complex amplitude.
+ * @param amplitude The amplitude.
+ * @returns The amplitude as `re ± im·i` with four decimals.
+ */
+const formatAmplitude = ({ re, im }: RegisterAmplitude) =>
+  `${re.toFixed(4)} ${im < 0 ? '−' : '+'} ${Math.abs(im).toFixed(4)}i`;
+
+/**
+ * Draws the phase wheel of an amplitude: the filled disc grows with the magnitude and
+ * the hand points in the direction of the phase, counter-clockwise from the right.
+ * @param props The amplitude, the largest magnitude of the snapshot and the colour.
+ */
+function PhaseWheel({ amplitude, maxMagnitude, color }: { amplitude: RegisterAmplitude; maxMagnitude: number; color: string }) {
+  const magnitude = Math.sqrt(probabilityOf(amplitude));
+  const radius = WHEEL_RADIUS * (magnitude / maxMagnitude);
+  const phase = Math.atan2(amplitude.im, amplitude.re);
+  const size = 2 * WHEEL_RADIUS + 4;
+  const centre = size / 2;
+  return (
+    <svg width={size} height={size} className="block">
+      <circle cx={centre} cy={centre} r={WHEEL_RADIUS} fill="none" stroke="#475569" strokeWidth={1} />
+      <circle cx={centre} cy={centre} r={radius} fill={color} fillOpacity={0.5} />
+      <line
+        x1={centre}
+        y1={centre}
+        x2={centre + WHEEL_RADIUS * Math.cos(phase)}
+        y2={centre - WHEEL_RADIUS * Math.sin(phase)}
+        stroke="white"
+        strokeWidth={1.5}
+      />
+    </svg>
+  );
+}
+
+/**
+ * Displays the state of both registers after a chosen stage of the circuit.
+ * @param {RegisterInspectorProps} props - The props for the component.
+ */
+function RegisterInspector({ a, n, tQubits, onExplain, t }: RegisterInspectorProps) {
+  // State for whether the panel is expanded, the stage shown and the measured second register.
+  const [isOpen, setIsOpen] = useState(false);
+  const [stage, setStage] = useState<RegisterSnapshotStage>('initial');
+  // f(0) = 1, so the second register can always be measured in 1.
+  const [measured, setMeasured] = useState(1);
+
+  // The state is only simulated once the panel is opened.
+  const inspection = useMemo(
+    () => (isOpen && canInspect(n, tQubits) ? inspectRegisters(a, n, tQubits, measured) : null),
+    [isOpen, a, n, tQubits, measured],
+  );
+  const snapshot = inspection?.snapshots.find(s => s.stage === stage);
+
+  // The rows to list: all of them, or the most likely ones back in the order of y and x.
+  const rows = useMemo(() => {
+    if (!snapshot) return [];
+    if (snapshot.amplitudes.length <= MAX_ROWS) return snapshot.amplitudes;
+    return [...snapshot.amplitudes]
+      .sort((left, right) => probabilityOf(right) - probabilityOf(left))
+      .slice(0, MAX_ROWS)
+      .sort((left, right) => left.y - right.y || left.x - right.x);
+  }, [snapshot]);
+  const maxMagnitude = Math.sqrt(Math.max(...rows.map(probabilityOf)));
+  // The probability of each value of the second register, over all rows rather than the listed ones.
+  const branchProbabilities = useMemo(() => {
+    const totals = new Map<number, number>();
+    snapshot?.amplitudes.forEach(amplitude => totals.set(amplitude.y, (totals.get(amplitude.y) ?? 0) + probabilityOf(amplitude)));
+    return totals;
+  }, [snapshot]);
+
+  const q = 2 ** tQubits;
+  // The state after each stage as a formula; the measured stage uses the chosen y.
+  const formulas: Record<RegisterSnapshotStage, string> = {
+    'initial': `|0\\rangle^{\\otimes ${tQubits}} \\, |0\\rangle`,
+    'prepare': `\\frac{1}{\\sqrt{${q}}} \\sum_{x=0}^{${q - 1}} |x\\rangle \\, |1\\rangle`,
+    'modular-exponentiation': `\\frac{1}{\\sqrt{${q}}} \\sum_{x=0}^{${q - 1}} |x\\rangle \\, |${a.toString()}^x \\bmod ${n.toString()}\\rangle`,
+    'inverse-qft': `\\frac{1}{${q}} \\sum_{x=0}^{${q - 1}} \\sum_{c=0}^{${q - 1}} e^{-2\\pi i x c / ${q}} \\, |c\\rangle \\, |${a.toString()}^x \\bmod ${n.toString()}\\rangle`,
+    'measure': `\\sum_{c} \\alpha_c \\, |c\\rangle \\, |${measured}\\rangle`,
+  };
+
+  return (
+    <div className="mt-4 p-4 bg-slate-950/50 rounded-lg border border-slate-700">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="text-slate-300 hover:text-sky-400 transition-colors font-semibold flex items-center"
+        aria-expanded={isOpen}
+      >
+        <span className={`inline-block mr-2 transition-transform ${isOpen ? 'rotate-90' : ''}`}>▶</span>
+        {t.inspectorTitle}
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 space-y-4">
+          <p className="text-slate-400 text-sm flex items-center">
+            {t.inspectorDescription}
+            <ExplainButton onClick={() => onExplain(ExplanationTopic.QuantumPeriodFinding)} t={t} />
+          </p>
+
+          {!inspection || !snapshot ? (
+            <p className="text-red-400 text-sm">{t.inspectorTooLarge(MAX_INSPECTED_QUBITS)}</p>
+          ) : (
+            <>
+              <div className="flex flex-wrap gap-2" role="tablist">
+                {inspection.snapshots.map(({ stage: option }, index) => (
+                  <button
+                    key={option}
+                    type="button"
+                    role="tab"
+                    aria-selected={stage === option}
+                    onClick={() => setStage(option)}
+                    className={`text-xs font-semibold py-1 px-3 rounded border transition-colors ${
+                      stage === option ? 'text-slate-900' : 'text-slate-300 bg-slate-800 hover:bg-slate-700'
+                    }`}
+                    style={{ borderColor: STAGE_COLORS[option], backgroundColor: stage === option ? STAGE_COLORS[option] : undefined }}
+                  >
+                    {index + 1}. {t.inspectorStages[option]}
+                  </button>
+                ))}
+              </div>
+
+              <p className="text-slate-400 text-sm">{t.inspectorStageDescriptions[stage]}</p>
+              <div className="overflow-x-auto text-slate-300">
+                <Katex.BlockMath math={formulas[stage]} />
+              </div>
+
+              {stage === 'measure' && (
+                <label className="flex items-center gap-2 text-sm text-slate-400">
+                  {t.inspectorMeasured}
+                  <select
+                    value={measured}
+                    onChange={(e) => setMeasured(Number(e.target.value))}
+                    className="bg-slate-900 border border-slate-600 rounded-md px-2 py-1 font-mono text-slate-200"
+                  >
+                    {inspection.outcomes.map(({ y, probability }) => (
+                      <option key={y} value={y}>{t.inspectorOutcome(y, formatPercent(probability))}</option>
+                    ))}
+                  </select>
+                </label>
+              )}
+
+              {rows.length < snapshot.amplitudes.length && (
+                <p className="text-slate-500 text-xs">{t.inspectorTruncated(rows.length, snapshot.amplitudes.length)}</p>
+              )}
+              <div className="overflow-x-auto max-h-96 overflow-y-auto">
+                <table className="w-full text-sm text-slate-300 whitespace-nowrap">
+                  <thead className="text-slate-400 text-left sticky top-0 bg-slate-900">
+                    <tr>
+                      <th className="py-1 pr-4 font-semibold">{t.inspectorTableState}</th>
+                      <th className="py-1 pr-4 font-semibold">{t.inspectorTableAmplitude}</th>
+                      <th className="py-1 pr-4 font-semibold">{t.inspectorTablePhase}</th>
+                      <th className="py-1 pr-4 font-semibold">{t.inspectorTableProbability}</th>
+                      <th className="py-1 font-semibold">{t.inspectorTableWheel}</th>
+                    </tr>
+                  </thead>
+                  <tbody className="font-mono">
+                    {rows.map((amplitude, index) => {
+                      const startsBranch = index === 0 || rows[index - 1].y !== amplitude.y;
+                      const phase = (Math.atan2(amplitude.im, amplitude.re) * 180) / Math.PI;
+                      return (
+                        <React.Fragment key={`${amplitude.y}-${amplitude.x}`}>
+                          {startsBranch && (
+                            <tr className="border-t border-slate-700">
+                              <td colSpan={5} className="py-1 font-sans text-xs text-slate-400">
+                                {t.inspectorBranch(amplitude.y, formatPercent(branchProbabilities.get(amplitude.y) ?? 0))}
+                              </td>
+                            </tr>
+                          )}
+                          <tr>
+                            <td className="py-0.5 pr-4" title={amplitude.x.toString(2).padStart(tQubits, '0')}>|{amplitude.x}⟩|{amplitude.y}⟩</td>
+                            <td className="py-0.5 pr-4">{formatAmplitude(amplitude)}</td>
+                            <td className="py-0.5 pr-4">{phase.toFixed(1)}°</td>
+                            <td className="py-0.5 pr-4">{formatPercent(probabilityOf(amplitude))}</td>
+                            <td className="py-0.5">
+                              <PhaseWheel amplitude={amplitude} maxMagnitude={maxMagnitude} color={STAGE_COLORS[stage]} />
+                            </td>
+                          </tr>
+                        </React.Fragment>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default RegisterInspector;
@@ -0,0 +1,181 @@
+/**
+ * @file ResourceEstimator.tsx
+ * A collapsible panel next to the circuit diagram that estimates what factoring
+ * N, or a number of any chosen size, would take on a fault-tolerant quantum
+ * computer: logical qubits, Toffoli count and depth for several constructions of
+ * the modular exponentiation, and physical qubits and runtime under a
+ * configurable surface-code error rate and cycle time.
+ */
+
+import React, { useState, useMemo } from 'react';
+import { estimateResources, DEFAULT_SURFACE_CODE } from '../services/resourceEstimate';
+import { bitLength } from '../services/shor';
+import { fieldClass } from './formStyles';
+import type { TranslationSet } from '../i18n/locales';
+
+/**
+ * Props for the ResourceEstimator component.
+ */
+interface ResourceEstimatorProps {
+  /** The number being factored. */
+  n: bigint;
+  /** The translation object for the current language. */
+  t: TranslationSet;
+}
+
+/** The largest bit length accepted for a custom estimate. */
+const MAX_BITS = 16384;
+/** The bit length of the RSA modulus offered as a preset. */
+const RSA_BITS = 2048;
+
+/** The units used to display a runtime, from the largest, with their length in seconds. */
+const DURATION_UNITS: [keyof TranslationSet['resourceUnits'], number][] = [
+  ['years', 365.25 * 86400],
+  ['days', 86400],
+  ['hours', 3600],
+  ['minutes', 60],
+  ['seconds', 1],
+  ['milliseconds', 1e-3],
+  ['microseconds', 1e-6],
+];
+
+/** Superscript digits for the exponents of large counts. */
+const SUPERSCRIPTS = '⁰¹²³⁴⁵⁶⁷⁸⁹';
+
+/**
+ * Formats a count, switching to scientific notation above a million.
+ * @param value The count.
+ * @returns The count, such as `12,345` or `2.62 × 10⁹`.
+ */
+function formatCount(value: number): string {
+  if (value < 1e6) return Math.round(value).toLocaleString('en-US');
+  const [mantissa, exponent] = value.toExponential(2).split('e+');
+  return `${mantissa} × 10${[...exponent].map(digit => SUPERSCRIPTS[Number(digit)]).join('')}`;
+}
+
+/**
+ * Displays resource estimates for the current N or a chosen bit length.
+ * @param {ResourceEstimatorProps} props - The props for the component.
+ */
+function ResourceEstimator({ n, t }: ResourceEstimatorProps) {
+  // State for whether the panel is expanded, and for the fields typed by the user.
+  const [isOpen, setIsOpen] = useState(false);
+  const [bitsValue, setBitsValue] = useState('');
+  const [errorRateValue, setErrorRateValue] = useState(String(DEFAULT_SURFACE_CODE.physicalErrorRate));
+  const [cycleTimeValue, setCycleTimeValue] = useState(String(DEFAULT_SURFACE_CODE.cycleTimeUs));
+
+  const currentBits = bitLength(n);
+  // An empty bit length field estimates the current N.
+  const bits = bitsValue.trim() === '' ? currentBits : Number(bitsValue.trim());
+  const physicalErrorRate = Number(errorRateValue.trim());
+  const cycleTimeUs = Number(cycleTimeValue.trim());
+  const isValid = Number.isInteger(bits) && bits >= 2 && bits <= MAX_BITS
+    && errorRateValue.trim() !== '' && physicalErrorRate > 0 && physicalErrorRate < 1
+    && cycleTimeValue.trim() !== '' && cycleTimeUs > 0;
+
+  const estimates = useMemo(
+    () => (isValid ? estimateResources(bits, { physicalErrorRate, cycleTimeUs }) : []),
+    [isValid, bits, physicalErrorRate, cycleTimeUs],
+  );
+
+  /**
+   * Formats a runtime in the largest unit that keeps the value at least 1.
+   * @param seconds The runtime in seconds.
+   * @returns The runtime with three significant digits and its unit.
+   */
+  const formatDuration = (seconds: number) => {
+    const [unit, length] = DURATION_UNITS.find(([, size]) => seconds >= size) ?? DURATION_UNITS[DURATION_UNITS.length - 1];
+    return `${(seconds / length).toPrecision(3)} ${t.resourceUnits[unit]}`;
+  };
+
+  const presetClass = "bg-slate-700 hover:bg-slate-600 text-slate-100 text-xs font-semibold py-1 px-3 rounded transition-colors";
+
+  return (
+    <div className="mt-4 p-4 bg-slate-950/50 rounded-lg border border-slate-700">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="text-slate-300 hover:text-sky-400 transition-colors font-semibold flex items-center"
+        aria-expanded={isOpen}
+      >
+        <span className={`inline-block mr-2 transition-transform ${isOpen ? 'rotate-90' : ''}`}>▶</span>
+        {t.resourceTitle}
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 space-y-4">
+          <p className="text-slate-400 text-sm">{t.resourceDescription}</p>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 text-sm">
+            <label className="flex flex-col gap-1 text-slate-400">
+              {t.resourceBits}
+              <input
+                type="text"
+                inputMode="numeric"
+                value={bitsValue}
+                onChange={(e) => setBitsValue(e.target.value)}
+                placeholder={currentBits.toString()}
+                className={fieldClass}
+              />
+              <span className="flex gap-2">
+                <button type="button" onClick={() => setBitsValue('')} className={presetClass}>{t.resourceCurrentN(n.toString())}</button>
+                <button type="button" onClick={() => setBitsValue(RSA_BITS.toString())} className={presetClass}>RSA-{RSA_BITS}</button>
+              </span>
+            </label>
+            <label className="flex flex-col gap-1 text-slate-400">
+              {t.resourceErrorRate}
+              <input type="text" inputMode="decimal" value={errorRateValue} onChange={(e) => setErrorRateValue(e.target.value)} className={fieldClass} />
+            </label>
+            <label className="flex flex-col gap-1 text-slate-400">
+              {t.resourceCycleTime}
+              <input type="text" inputMode="decimal" value={cycleTimeValue} onChange={(e) => setCycleTimeValue(e.target.value)} className={fieldClass} />
+            </label>
+          </div>
+
+          {!isValid ? (
+            <p className="text-red-400 text-sm">{t.resourceInvalid(MAX_BITS)}</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm text-slate-300 whitespace-nowrap">
+                <thead>
+                  <tr className="text-slate-400 border-b border-slate-700">
+                    <th className="text-left py-1 pr-4">{t.resourceTableConstruction}</th>
+                    <th className="text-right py-1 pr-4">{t.resourceTableLogicalQubits}</th>
+                    <th className="text-right py-1 pr-4">{t.resourceTableToffoli}</th>
+                    <th className="text-right py-1 pr-4">{t.resourceTableDepth}</th>
+                    <th className="text-right py-1 pr-4">{t.resourceTableDistance}</th>
+                    <th className="text-right py-1 pr-4">{t.resourceTablePhysicalQubits}</th>
+                    <th className="text-right py-1">{t.resourceTableRuntime}</th>
+                  </tr>
+                </thead>
+                <tbody className="font-mono">
+                  {estimates.map(estimate => (
+                    <tr key={estimate.construction} className="border-b border-slate-800">
+                      <td className="py-1 pr-4 font-sans">{t.resourceConstructionNames[estimate.construction]}</td>
+                      <td className="text-right py-1 pr-4">{formatCount(estimate.logicalQubits)}</td>
+                      <td className="text-right py-1 pr-4">{formatCount(estimate.toffoliCount)}</td>
+                      <td className="text-right py-1 pr-4">{formatCount(estimate.depth)}</td>
+                      {estimate.physical ? (
+                        <>
+                          <td className="text-right py-1 pr-4">{estimate.physical.codeDistance}</td>
+                          <td className="text-right py-1 pr-4" title={t.resourceFactories(estimate.physical.factories)}>
+                            {formatCount(estimate.physical.physicalQubits)}
+                          </td>
+                          <td className="text-right py-1">{formatDuration(estimate.physical.runtimeSeconds)}</td>
+                        </>
+                      ) : (
+                        <td colSpan={3} className="text-right py-1 text-yellow-300 font-sans">{t.resourceNoDistance}</td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="text-slate-500 text-xs mt-2">{t.resourceAssumptions(bits)}</p>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ResourceEstimator;
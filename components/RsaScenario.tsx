@@ -0,0 +1,339 @@
+/**
+ * @file RsaScenario.tsx
+ * The RSA mode: it generates a toy RSA key pair and encrypts a short message, then
+ * breaks the key the way Shor's algorithm threatens real RSA. The public modulus is
+ * factored with `runShor`, the private exponent is derived from the factors with a
+ * modular inverse, and the ciphertext is decrypted. Every stage has its own card.
+ */
+
+import React, { useState, useRef, useEffect, FormEvent, ReactNode } from 'react';
+import Katex from 'react-katex';
+import { ExplanationTopic, Language, RsaEncryption, RsaKeyPair, ShorAttempt } from '../types';
+import { generateRsaKeyPair, modularInverse, rsaDecrypt, rsaEncrypt, MAX_RSA_MESSAGE_LENGTH, MAX_RSA_PRIME_BITS, MIN_RSA_PRIME_BITS, RSA_BREAK_OPTIONS } from '../services/rsa';
+import { runShorInWorker } from '../services/shorWorkerClient';
+import { createSeededRandom, generateSeed } from '../services/random';
+import AttemptCard from './AttemptCard';
+import ExplainButton from './ExplainButton';
+import { fieldClass } from './formStyles';
+import type { TranslationSet } from '../i18n/locales';
+
+/**
+ * Props for the RsaScenario component.
+ */
+interface RsaScenarioProps {
+  /** The current language, for the error messages of the worker. */
+  language: Language;
+  /** Callback function to trigger the explanation modal for a specific topic. */
+  onExplain: (topic: ExplanationTopic) => void;
+  /** Callback function to open a measured fraction c/q in the continued fraction workbench. */
+  onOpenWorkbench: (c: bigint, q: bigint) => void;
+  /** The translation object for the current language. */
+  t: TranslationSet;
+}
+
+/**
+ * Props for the StageCard component.
+ */
+interface StageCardProps {
+  /** The number of the stage. */
+  number: number;
+  /** The title of the stage. */
+  title: string;
+  /** The state of the stage, using the colours of the attempt cards. */
+  status: ShorAttempt['status'] | 'pending';
+  /** The explanation topic behind the stage. */
+  topic: ExplanationTopic;
+  /** Callback function to trigger the explanation modal for a specific topic. */
+  onExplain: (topic: ExplanationTopic) => void;
+  /** The translation object for the current language. */
+  t: TranslationSet;
+  /** The content of the stage. */
+  children: ReactNode;
+}
+
+/**
+ * Props for the BlockTable component.
+ */
+interface BlockTableProps {
+  /** The heading and the values of each column, all with one value per block. */
+  columns: [string, bigint[]][];
+}
+
+/** The bit length of each prime offered by default; it gives a 16-bit modulus. */
+const DEFAULT_PRIME_BITS = 8;
+
+/**
+ * A card for one stage of the scenario, styled like an attempt card.
+ * @param {StageCardProps} props - The props for the component.
+ */
+function StageCard({ number, title, status, topic, onExplain, t, children }: StageCardProps) {
+  const colorClasses =
+    status === 'success' ? 'border-green-500 bg-green-900/30' :
+    status === 'failed' ? 'border-red-500 bg-red-900/30' :
+    status === 'running' ? 'border-sky-500 bg-sky-900/30' :
+    'border-slate-600 bg-slate-800/30';
+  const badgeClasses =
+    status === 'success' ? 'bg-green-500/20 text-green-300' :
+    status === 'failed' ? 'bg-red-500/20 text-red-300' :
+    status === 'running' ? 'bg-sky-500/20 text-sky-300' :
+    'bg-slate-500/20 text-slate-300';
+
+  return (
+    <div className={`border-2 rounded-lg shadow-xl overflow-hidden transition-all duration-500 animate-step-in ${colorClasses}`}>
+      <header className="px-4 py-3 sm:px-6 sm:py-4 bg-slate-800/50 flex justify-between items-center">
+        <h3 className="text-xl font-bold text-slate-200 flex items-center">
+          {number}. {title}
+          <ExplainButton onClick={() => onExplain(topic)} t={t} />
+        </h3>
+        <span className={`px-3 py-1 text-sm font-semibold rounded-full capitalize ${badgeClasses}`}>
+          {status === 'pending' ? t.rsaPending : t.status[status]}
+        </span>
+      </header>
+      <div className="p-4 sm:p-6 space-y-3 text-slate-400">{children}</div>
+    </div>
+  );
+}
+
+/**
+ * Lists numbered blocks side by side, such as the plaintext and ciphertext blocks.
+ * @param {BlockTableProps} props - The props for the component.
+ */
+function BlockTable({ columns }: BlockTableProps) {
+  return (
+    <div className="overflow-x-auto max-h-64">
+      <table className="text-sm font-mono text-slate-300">
+        <thead>
+          <tr className="text-slate-400 border-b border-slate-700">
+            <th className="text-left py-1 pr-6">#</th>
+            {columns.map(([heading]) => <th key={heading} className="text-right py-1 pr-6 font-sans">{heading}</th>)}
+          </tr>
+        </thead>
+        <tbody>
+          {columns[0][1].map((_, i) => (
+            <tr key={i} className="border-b border-slate-800">
+              <td className="py-1 pr-6">{i + 1}</td>
+              {columns.map(([heading, values]) => <td key={heading} className="text-right py-1 pr-6">{values[i].toString()}</td>)}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+/**
+ * Walks through generating, encrypting with and breaking a toy RSA key.
+ * @param {RsaScenarioProps} props - The props for the component.
+ */
+function RsaScenario({ language, onExplain, onOpenWorkbench, t }: RsaScenarioProps) {
+  // State for the form fields.
+  const [bitsValue, setBitsValue] = useState(String(DEFAULT_PRIME_BITS));
+  const [message, setMessage] = useState('Hello, Shor!');
+  const [formError, setFormError] = useState('');
+  // State for the key and the ciphertext created from the form.
+  const [keyPair, setKeyPair] = useState<RsaKeyPair | null>(null);
+  const [encryption, setEncryption] = useState<RsaEncryption | null>(null);
+  // State for the attack: the attempts of Shor's algorithm, their outcome and errors.
+  const [attempts, setAttempts] = useState<ShorAttempt[]>([]);
+  const [isBreaking, setIsBreaking] = useState(false);
+  const [factors, setFactors] = useState<[bigint, bigint] | null>(null);
+  const [breakError, setBreakError] = useState('');
+  // The controller of the running attack, aborted when a new key is made or the mode goes away.
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  /**
+   * Validates the form, generates a new key pair and encrypts the message.
+   * @param e The form event.
+   */
+  const handleGenerate = (e: FormEvent) => {
+    e.preventDefault();
+    const bits = /^\d+$/.test(bitsValue.trim()) ? Number(bitsValue.trim()) : 0;
+    if (bits < MIN_RSA_PRIME_BITS || bits > MAX_RSA_PRIME_BITS) {
+      setFormError(t.rsaErrorBits(MIN_RSA_PRIME_BITS, MAX_RSA_PRIME_BITS));
+      return;
+    }
+    if (message.length === 0 || message.length > MAX_RSA_MESSAGE_LENGTH) {
+      setFormError(t.rsaErrorMessage(MAX_RSA_MESSAGE_LENGTH));
+      return;
+    }
+
+    controllerRef.current?.abort();
+    const key = generateRsaKeyPair(bits, createSeededRandom(generateSeed()));
+    setFormError('');
+    setKeyPair(key);
+    setEncryption(rsaEncrypt(message, key.n, key.e));
+    setAttempts([]);
+    setFactors(null);
+    setBreakError('');
+  };
+
+  /**
+   * Factors the public modulus with Shor's algorithm in a Web Worker, showing every attempt.
+   */
+  const handleBreak = async () => {
+    if (!keyPair) return;
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsBreaking(true);
+    setAttempts([]);
+    setBreakError('');
+
+    try {
+      let found: bigint[] | null = null;
+      for await (const attempt of runShorInWorker(keyPair.n, generateSeed(), language, RSA_BREAK_OPTIONS, controller.signal)) {
+        setAttempts(prev => {
+          const index = prev.findIndex(a => a.id === attempt.id);
+          return index > -1 ? prev.map((a, i) => (i === index ? attempt : a)) : [...prev, attempt];
+        });
+        if (attempt.status === 'success' && attempt.factors) found = attempt.factors;
+      }
+      if (found) {
+        const [p, q] = found[0] < found[1] ? found : [found[1], found[0]];
+        setFactors([p, q]);
+      } else {
+        setBreakError(t.rsaBreakFailed);
+      }
+    } catch (err: any) {
+      if (!controller.signal.aborted) setBreakError(err.message);
+    } finally {
+      if (controllerRef.current === controller) {
+        setIsBreaking(false);
+        controllerRef.current = null;
+      }
+    }
+  };
+
+  // The attacker's view of the private key, derived only from the public key and the factors.
+  const derivedPhi = factors ? (factors[0] - 1n) * (factors[1] - 1n) : null;
+  const derivedD = keyPair && derivedPhi !== null ? modularInverse(keyPair.e, derivedPhi) : null;
+  const decryption = keyPair && encryption && derivedD !== null ? rsaDecrypt(encryption.ciphertext, keyPair.n, derivedD) : null;
+
+  return (
+    <div>
+      <div className="bg-slate-800/50 p-6 rounded-lg shadow-lg border border-slate-700 mb-8">
+        <h2 className="text-xl font-semibold text-slate-200 flex items-center">
+          {t.rsaTitle}
+          <ExplainButton onClick={() => onExplain(ExplanationTopic.ShorIntro)} t={t} />
+        </h2>
+        <p className="text-slate-400 text-sm mt-1">{t.rsaDescription}</p>
+        <form onSubmit={handleGenerate} className="grid grid-cols-1 sm:grid-cols-4 gap-4 mt-4 text-sm">
+          <label className="flex flex-col gap-1 text-slate-400">
+            {t.rsaPrimeBits}
+            <input type="text" inputMode="numeric" value={bitsValue} onChange={(e) => setBitsValue(e.target.value)} className={fieldClass} disabled={isBreaking} />
+          </label>
+          <label className="sm:col-span-2 flex flex-col gap-1 text-slate-400">
+            {t.rsaMessage}
+            <input type="text" value={message} onChange={(e) => setMessage(e.target.value)} maxLength={MAX_RSA_MESSAGE_LENGTH} className={fieldClass} disabled={isBreaking} />
+          </label>
+          <div className="flex items-end">
+            <button
+              type="submit"
+              disabled={isBreaking}
+              className="w-full bg-sky-600 hover:bg-sky-500 disabled:bg-slate-600 disabled:cursor-not-allowed text-white font-bold py-2 px-6 rounded-lg transition-colors"
+            >
+              {t.rsaGenerate}
+            </button>
+          </div>
+        </form>
+        {formError && <p className="text-red-400 mt-3">{formError}</p>}
+      </div>
+
+      {keyPair && encryption && (
+        <div className="space-y-6">
+          {/* Stage 1: Key generation */}
+          <StageCard number={1} title={t.rsaKeyTitle} status="success" topic={ExplanationTopic.ShorIntro} onExplain={onExplain} t={t}>
+            <p>{t.rsaKeyDescription}</p>
+            <p className="text-slate-300">
+              {t.rsaPublicKey} <Katex.InlineMath math={`(N, e) = (${keyPair.n.toString()}, ${keyPair.e.toString()})`} />
+            </p>
+            <p>
+              {t.rsaPrivateKey}{' '}
+              {factors ? (
+                <Katex.InlineMath math={`p = ${keyPair.p.toString()},\\ q = ${keyPair.q.toString()},\\ d = ${keyPair.d.toString()}`} />
+              ) : (
+                <span className="italic">{t.rsaSecret}</span>
+              )}
+            </p>
+          </StageCard>
+
+          {/* Stage 2: Encryption */}
+          <StageCard number={2} title={t.rsaEncryptTitle} status="success" topic={ExplanationTopic.ShorIntro} onExplain={onExplain} t={t}>
+            <p>{t.rsaEncryptDescription(encryption.blockBytes)}</p>
+            <Katex.BlockMath math={`c = m^{${keyPair.e.toString()}} \\bmod ${keyPair.n.toString()}`} />
+            <BlockTable columns={[[t.rsaPlaintextBlock, encryption.plaintext], [t.rsaCiphertextBlock, encryption.ciphertext]]} />
+          </StageCard>
+
+          {/* Stage 3: Factoring the modulus */}
+          <StageCard
+            number={3}
+            title={t.rsaFactorTitle}
+            status={factors ? 'success' : breakError ? 'failed' : isBreaking ? 'running' : 'pending'}
+            topic={ExplanationTopic.QuantumPeriodFinding}
+            onExplain={onExplain}
+            t={t}
+          >
+            <p>{t.rsaFactorDescription(keyPair.n.toString())}</p>
+            {!factors && (
+              <button
+                type="button"
+                onClick={handleBreak}
+                disabled={isBreaking}
+                className="bg-red-600 hover:bg-red-500 disabled:bg-slate-600 disabled:cursor-not-allowed text-white font-semibold py-2 px-4 rounded transition-colors"
+              >
+                {isBreaking ? t.buttonRunning : t.rsaBreak}
+              </button>
+            )}
+            {factors && (
+              <p className="text-green-300">
+                <Katex.InlineMath math={`N = ${keyPair.n.toString()} = ${factors[0].toString()} \\times ${factors[1].toString()}`} />
+              </p>
+            )}
+            {breakError && <p className="text-red-400">{breakError}</p>}
+            {attempts.length > 0 && (
+              <div className="space-y-6 pt-2">
+                {attempts.map(attempt => (
+                  <AttemptCard key={attempt.id} attempt={attempt} onExplain={onExplain} onOpenWorkbench={onOpenWorkbench} t={t} />
+                ))}
+              </div>
+            )}
+          </StageCard>
+
+          {/* Stage 4: The private exponent */}
+          {factors && derivedPhi !== null && derivedD !== null && (
+            <StageCard number={4} title={t.rsaPrivateTitle} status="success" topic={ExplanationTopic.FinalFactorCalculation} onExplain={onExplain} t={t}>
+              <p>{t.rsaPrivateDescription}</p>
+              <div className="bg-slate-950/50 p-4 rounded-lg space-y-2 text-slate-300 border border-slate-700">
+                <p><Katex.InlineMath math={`\\varphi(N) = (p - 1)(q - 1) = ${(factors[0] - 1n).toString()} \\times ${(factors[1] - 1n).toString()} = ${derivedPhi.toString()}`} /></p>
+                <p><Katex.InlineMath math={`d = e^{-1} \\bmod \\varphi(N) = ${keyPair.e.toString()}^{-1} \\bmod ${derivedPhi.toString()} = ${derivedD.toString()}`} /></p>
+                <p><Katex.InlineMath math={`e \\cdot d \\bmod \\varphi(N) = ${((keyPair.e * derivedD) % derivedPhi).toString()}`} /></p>
+              </div>
+            </StageCard>
+          )}
+
+          {/* Stage 5: Decryption */}
+          {decryption && derivedD !== null && (
+            <StageCard
+              number={5}
+              title={t.rsaDecryptTitle}
+              status={decryption.text === encryption.text ? 'success' : 'failed'}
+              topic={ExplanationTopic.ShorIntro}
+              onExplain={onExplain}
+              t={t}
+            >
+              <Katex.BlockMath math={`m = c^{${derivedD.toString()}} \\bmod ${keyPair.n.toString()}`} />
+              <BlockTable columns={[[t.rsaCiphertextBlock, encryption.ciphertext], [t.rsaPlaintextBlock, decryption.plaintext]]} />
+              <div className="mt-4 p-4 bg-green-900/40 border border-green-700 rounded-lg">
+                <h5 className="font-bold text-green-300">{t.rsaDecrypted}</h5>
+                <p className="text-lg text-green-200 mt-1 font-mono break-all">{decryption.text}</p>
+              </div>
+            </StageCard>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default RsaScenario;
@@ -0,0 +1,76 @@
+/**
+ * @file RunControls.tsx
+ * This component renders the Stop, Pause/Resume and Step buttons of a running
+ * factorization, together with an indicator of the current run mode.
+ */
+
+import React from 'react';
+import { RunMode } from '../types';
+import type { TranslationSet } from '../i18n/locales';
+
+/**
+ * Props for the RunControls component.
+ */
+interface RunControlsProps {
+  /** The current mode of the run. */
+  mode: RunMode;
+  /** Function to call when the user pauses the run. */
+  onPause: () => void;
+  /** Function to call when the user resumes the run. */
+  onResume: () => void;
+  /** Function to call when the user advances the paused run by one step. */
+  onStep: () => void;
+  /** Function to call when the user stops the run. */
+  onStop: () => void;
+  /** The translation object for the current language. */
+  t: TranslationSet;
+}
+
+/** Tailwind classes shared by the control buttons. */
+const buttonClass = "bg-slate-700 hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed text-slate-100 font-semibold py-1 px-4 rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-sky-500";
+
+/**
+ * Displays the run mode and the buttons that control a running factorization.
+ * @param {RunControlsProps} props - The props for the component.
+ */
+function RunControls({ mode, onPause, onResume, onStep, onStop, t }: RunControlsProps) {
+  const isPaused = mode === 'paused';
+  const isBusy = mode === 'running' || mode === 'stepping';
+
+  return (
+    <div className="flex flex-col sm:flex-row justify-center items-center gap-4 my-8">
+      <div className="flex items-center">
+        {isBusy ? (
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-sky-400"></div>
+        ) : (
+          <div className="flex items-center justify-center h-12 w-12 rounded-full border-2 border-amber-400 text-amber-400 text-xl">
+            ❚❚
+          </div>
+        )}
+        <p className="ml-4 text-slate-400">{t.runModeMessages[mode]}</p>
+      </div>
+      <div className="flex gap-2">
+        {isPaused ? (
+          <button type="button" onClick={onResume} className={buttonClass}>{t.runResume}</button>
+        ) : (
+          <button type="button" onClick={onPause} className={buttonClass} disabled={mode !== 'running'}>
+            {t.runPause}
+          </button>
+        )}
+        <button type="button" onClick={onStep} className={buttonClass} disabled={!isPaused}>
+          {t.runStep}
+        </button>
+        <button
+          type="button"
+          onClick={onStop}
+          className="bg-red-800 hover:bg-red-700 text-slate-100 font-semibold py-1 px-4 rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-red-500"
+          disabled={mode === 'stopped'}
+        >
+          {t.runStop}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default RunControls;
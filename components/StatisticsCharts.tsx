@@ -0,0 +1,153 @@
+/**
+ * @file StatisticsCharts.tsx
+ * This component draws the results of the statistics mode as SVG charts: how
+ * often the attempts ended in each outcome, and the average number of attempts
+ * needed to find a factor for each N.
+ */
+
+import React from 'react';
+import { AttemptOutcome, StatisticsCounts, StatisticsRow } from '../types';
+import { ATTEMPT_OUTCOMES, averageAttemptsToSuccess } from '../services/statistics';
+import type { TranslationSet } from '../i18n/locales';
+
+/**
+ * Props for the StatisticsCharts component.
+ */
+interface StatisticsChartsProps {
+  /** The statistics of each N. */
+  rows: StatisticsRow[];
+  /** The statistics summed over all N. */
+  total: StatisticsCounts;
+  /** The translation object for the current language. */
+  t: TranslationSet;
+}
+
+/** The bar colour of each outcome: successes in green, failures in warm colours. */
+const OUTCOME_COLORS: Record<AttemptOutcome, string> = {
+  'lucky-gcd': '#38bdf8',
+  'continued-fraction': '#f97316',
+  'period-unverified': '#fb923c',
+  'odd-period': '#facc15',
+  'trivial-root': '#f43f5e',
+  'trivial-factors': '#a855f7',
+  'success': '#4ade80',
+};
+
+/** The width of the SVG coordinate system of both charts. */
+const CHART_WIDTH = 600;
+
+/**
+ * A horizontal bar chart of the share of attempts that ended in each outcome.
+ * @param props The summed statistics and the translations.
+ */
+function OutcomeChart({ total, t }: { total: StatisticsCounts; t: TranslationSet }) {
+  const rowHeight = 28;
+  const labelWidth = 200;
+  const barWidth = CHART_WIDTH - labelWidth - 70;
+  const height = ATTEMPT_OUTCOMES.length * rowHeight;
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${height}`} className="w-full" role="img" aria-label={t.statsOutcomeChartTitle}>
+      {ATTEMPT_OUTCOMES.map((outcome, index) => {
+        const count = total.outcomes[outcome];
+        const share = total.attempts > 0 ? count / total.attempts : 0;
+        const y = index * rowHeight;
+        return (
+          <g key={outcome}>
+            <text x={labelWidth - 8} y={y + rowHeight / 2 + 4} textAnchor="end" className="fill-slate-300 text-[12px]">
+              {t.outcomeNames[outcome]}
+            </text>
+            <rect x={labelWidth} y={y + 4} width={barWidth} height={rowHeight - 8} className="fill-slate-800" />
+            <rect x={labelWidth} y={y + 4} width={share * barWidth} height={rowHeight - 8} fill={OUTCOME_COLORS[outcome]} />
+            <text x={labelWidth + barWidth + 6} y={y + rowHeight / 2 + 4} className="fill-slate-400 text-[12px] font-mono">
+              {(share * 100).toFixed(1)}%
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+/**
+ * A vertical bar chart of the average number of attempts to success for each N.
+ * @param props The statistics of each N and the translations.
+ */
+function AverageAttemptsChart({ rows, t }: { rows: StatisticsRow[]; t: TranslationSet }) {
+  const height = 220;
+  const margin = { top: 16, right: 8, bottom: 40, left: 36 };
+  const plotWidth = CHART_WIDTH - margin.left - margin.right;
+  const plotHeight = height - margin.top - margin.bottom;
+  const averages = rows.map(row => averageAttemptsToSuccess(row));
+  const maxAverage = Math.max(1, ...averages.map(average => average ?? 0));
+  const slot = plotWidth / rows.length;
+  // Label only as many bars as fit along the axis.
+  const labelEvery = Math.ceil(rows.length / 20);
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${height}`} className="w-full" role="img" aria-label={t.statsAverageChartTitle}>
+      <line x1={margin.left} y1={margin.top + plotHeight} x2={CHART_WIDTH - margin.right} y2={margin.top + plotHeight} className="stroke-slate-600" />
+      <line x1={margin.left} y1={margin.top} x2={margin.left} y2={margin.top + plotHeight} className="stroke-slate-600" />
+      <text x={margin.left - 6} y={margin.top + 4} textAnchor="end" className="fill-slate-400 text-[11px] font-mono">
+        {maxAverage.toFixed(1)}
+      </text>
+      <text x={margin.left - 6} y={margin.top + plotHeight} textAnchor="end" className="fill-slate-400 text-[11px] font-mono">
+        0
+      </text>
+      {rows.map((row, index) => {
+        const average = averages[index];
+        const barHeight = average === null ? 0 : (average / maxAverage) * plotHeight;
+        const x = margin.left + index * slot;
+        return (
+          <g key={row.n.toString()}>
+            <rect
+              x={x + slot * 0.15}
+              y={margin.top + plotHeight - barHeight}
+              width={slot * 0.7}
+              height={barHeight}
+              className="fill-sky-500"
+            >
+              <title>{`N = ${row.n}: ${average === null ? '—' : average.toFixed(2)}`}</title>
+            </rect>
+            {index % labelEvery === 0 && (
+              <text
+                x={x + slot / 2}
+                y={margin.top + plotHeight + 14}
+                textAnchor="middle"
+                className="fill-slate-400 text-[10px] font-mono"
+              >
+                {row.n.toString()}
+              </text>
+            )}
+          </g>
+        );
+      })}
+      <text x={margin.left + plotWidth / 2} y={height - 6} textAnchor="middle" className="fill-slate-400 text-[11px]">
+        N
+      </text>
+    </svg>
+  );
+}
+
+/**
+ * Displays the outcome and average-attempt charts of the statistics mode.
+ * @param {StatisticsChartsProps} props - The props for the component.
+ */
+function StatisticsCharts({ rows, total, t }: StatisticsChartsProps) {
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold text-slate-200 mb-2">{t.statsOutcomeChartTitle}</h3>
+        <OutcomeChart total={total} t={t} />
+      </div>
+      {rows.length > 1 && (
+        <div>
+          <h3 className="text-lg font-semibold text-slate-200 mb-2">{t.statsAverageChartTitle}</h3>
+          <AverageAttemptsChart rows={rows} t={t} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default StatisticsCharts;
@@ -0,0 +1,294 @@
+/**
+ * @file StatisticsPanel.tsx
+ * The statistics mode: it runs Shor's algorithm many times per N, or across a
+ * range of N, without animation, and reports how often the attempts end in each
+ * outcome together with the average number of attempts needed to find a factor.
+ */
+
+import React, { useState, useRef, FormEvent } from 'react';
+import { Language, PeriodFinderSelection, StatisticsProgress, StatisticsRow } from '../types';
+import { collectStatisticsInWorker } from '../services/shorWorkerClient';
+import { statisticsCandidates, totalStatistics, averageAttemptsToSuccess, statisticsToCsv } from '../services/statistics';
+import { DEFAULT_SHOR_OPTIONS } from '../services/shor';
+import { PERIOD_FINDER_OPTIONS } from '../services/periodFinders';
+import { generateSeed, MAX_SEED } from '../services/random';
+import StatisticsCharts from './StatisticsCharts';
+import { fieldClass } from './formStyles';
+import type { TranslationSet } from '../i18n/locales';
+
+/** The largest N accepted by the statistics mode. */
+const MAX_STATISTICS_N = 100000n;
+/** The largest total number of runs in one batch. */
+const MAX_STATISTICS_TRIALS = 50000;
+
+/**
+ * Props for the StatisticsPanel component.
+ */
+interface StatisticsPanelProps {
+  /** The current language, passed to the worker for its messages. */
+  language: Language;
+  /** The translation object for the current language. */
+  t: TranslationSet;
+}
+
+/**
+ * Offers the statistics form, runs the batch in a worker and displays its results.
+ * @param {StatisticsPanelProps} props - The props for the component.
+ */
+function StatisticsPanel({ language, t }: StatisticsPanelProps) {
+  // State for the form fields.
+  const [fromValue, setFromValue] = useState('15');
+  const [toValue, setToValue] = useState('');
+  const [trialsValue, setTrialsValue] = useState('100');
+  const [maxAttemptsValue, setMaxAttemptsValue] = useState(String(DEFAULT_SHOR_OPTIONS.maxAttempts));
+  const [seedValue, setSeedValue] = useState('');
+  const [periodFinder, setPeriodFinder] = useState<PeriodFinderSelection>('auto');
+  // State for the batch: whether it is running, its progress, results, seed and errors.
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState<StatisticsProgress | null>(null);
+  const [rows, setRows] = useState<StatisticsRow[]>([]);
+  const [batchSeed, setBatchSeed] = useState<number | null>(null);
+  const [wasStopped, setWasStopped] = useState(false);
+  const [error, setError] = useState('');
+  // Ref to the controller that stops the running batch.
+  const controllerRef = useRef<AbortController | null>(null);
+
+  /**
+   * Validates the form and runs the batch, collecting the statistics of each N as it completes.
+   * @param e The form event.
+   */
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    const fromText = fromValue.trim();
+    const toText = toValue.trim() === '' ? fromText : toValue.trim();
+    if (!/^\d+$/.test(fromText) || !/^\d+$/.test(toText)) {
+      setError(t.statsErrorRange(MAX_STATISTICS_N.toString()));
+      return;
+    }
+    const from = BigInt(fromText);
+    const to = BigInt(toText);
+    if (from < 4n || to < from || to > MAX_STATISTICS_N) {
+      setError(t.statsErrorRange(MAX_STATISTICS_N.toString()));
+      return;
+    }
+    const trialsPerN = /^\d+$/.test(trialsValue.trim()) ? Number(trialsValue.trim()) : 0;
+    const maxAttempts = /^\d+$/.test(maxAttemptsValue.trim()) ? Number(maxAttemptsValue.trim()) : 0;
+    if (trialsPerN < 1 || maxAttempts < 1) {
+      setError(t.statsErrorCounts);
+      return;
+    }
+    const seedText = seedValue.trim();
+    const seed = seedText === '' ? generateSeed() : Number(seedText);
+    if (!/^\d*$/.test(seedText) || seed > MAX_SEED) {
+      setError(t.errorSeedInvalid);
+      return;
+    }
+
+    const ns = statisticsCandidates(from, to);
+    if (ns.length === 0) {
+      setError(t.statsErrorNoCandidates);
+      return;
+    }
+    if (ns.length * trialsPerN > MAX_STATISTICS_TRIALS) {
+      setError(t.statsErrorTooManyTrials(MAX_STATISTICS_TRIALS));
+      return;
+    }
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setError('');
+    setRows([]);
+    setProgress(null);
+    setWasStopped(false);
+    setBatchSeed(seed);
+    setIsRunning(true);
+
+    try {
+      const batch = collectStatisticsInWorker(ns, trialsPerN, seed, language, { maxAttempts, periodFinder }, controller.signal);
+      let step = await batch.next();
+      while (step.done !== true) {
+        const current = step.value;
+        setProgress(current);
+        // Completed rows are shown right away, so a stopped batch keeps its results.
+        if (current.row) {
+          const row = current.row;
+          setRows(prev => [...prev, row]);
+        }
+        step = await batch.next();
+      }
+      setRows(step.value);
+    } catch (err: any) {
+      if (controller.signal.aborted) {
+        setWasStopped(true);
+      } else {
+        setError(err.message);
+      }
+    } finally {
+      setIsRunning(false);
+      controllerRef.current = null;
+    }
+  };
+
+  /**
+   * Downloads the statistics of every completed N as a CSV file.
+   */
+  const downloadCsv = () => {
+    const blob = new Blob([statisticsToCsv(rows)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `shor-statistics-${batchSeed ?? 'results'}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const total = totalStatistics(rows);
+  const totalAverage = averageAttemptsToSuccess(total);
+
+  return (
+    <div>
+      <div className="bg-slate-800/50 p-6 rounded-lg shadow-lg border border-slate-700 mb-8">
+        <h2 className="text-xl font-semibold text-slate-200">{t.statsTitle}</h2>
+        <p className="text-slate-400 text-sm mt-1">{t.statsDescription}</p>
+        <form onSubmit={handleSubmit} className="grid grid-cols-2 sm:grid-cols-3 gap-4 mt-4 text-sm">
+          <label className="flex flex-col gap-1 text-slate-400">
+            {t.statsFrom}
+            <input type="text" inputMode="numeric" value={fromValue} onChange={(e) => setFromValue(e.target.value)} className={fieldClass} disabled={isRunning} />
+          </label>
+          <label className="flex flex-col gap-1 text-slate-400">
+            {t.statsTo}
+            <input
+              type="text"
+              inputMode="numeric"
+              value={toValue}
+              onChange={(e) => setToValue(e.target.value)}
+              className={fieldClass}
+              placeholder={t.statsToPlaceholder}
+              disabled={isRunning}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-slate-400">
+            {t.statsTrials}
+            <input type="text" inputMode="numeric" value={trialsValue} onChange={(e) => setTrialsValue(e.target.value)} className={fieldClass} disabled={isRunning} />
+          </label>
+          <label className="flex flex-col gap-1 text-slate-400">
+            {t.advancedMaxAttempts}
+            <input type="text" inputMode="numeric" value={maxAttemptsValue} onChange={(e) => setMaxAttemptsValue(e.target.value)} className={fieldClass} disabled={isRunning} />
+          </label>
+          <label className="flex flex-col gap-1 text-slate-400">
+            {t.formSeedLabel}
+            <input
+              type="text"
+              inputMode="numeric"
+              value={seedValue}
+              onChange={(e) => setSeedValue(e.target.value)}
+              className={fieldClass}
+              placeholder={t.formSeedPlaceholder}
+              disabled={isRunning}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-slate-400">
+            {t.formBackendLabel}
+            <select
+              value={periodFinder}
+              onChange={(e) => setPeriodFinder(e.target.value as PeriodFinderSelection)}
+              className={fieldClass}
+              disabled={isRunning}
+            >
+              {PERIOD_FINDER_OPTIONS.map(option => (
+                <option key={option} value={option}>{t.periodFinderNames[option]}</option>
+              ))}
+            </select>
+          </label>
+          <div className="col-span-2 sm:col-span-3 flex flex-col sm:flex-row items-center gap-4">
+            {isRunning ? (
+              <button
+                type="button"
+                onClick={() => controllerRef.current?.abort()}
+                className="w-full sm:w-auto bg-red-800 hover:bg-red-700 text-white font-bold py-2 px-6 rounded-lg transition-colors"
+              >
+                {t.runStop}
+              </button>
+            ) : (
+              <button
+                type="submit"
+                className="w-full sm:w-auto bg-sky-600 hover:bg-sky-500 text-white font-bold py-2 px-6 rounded-lg transition-transform duration-150 ease-in-out transform hover:scale-105"
+              >
+                {t.statsStart}
+              </button>
+            )}
+            {progress && (
+              <div className="flex-grow w-full">
+                <div className="h-2 bg-slate-700 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-sky-500 transition-all"
+                    style={{ width: `${(progress.completedTrials / progress.totalTrials) * 100}%` }}
+                  />
+                </div>
+                <p className="text-slate-400 mt-1 font-mono text-xs">
+                  {t.statsProgress(progress.completedTrials, progress.totalTrials, progress.n.toString())}
+                </p>
+              </div>
+            )}
+          </div>
+        </form>
+        {error && <p className="text-red-400 mt-3">{error}</p>}
+      </div>
+
+      {rows.length > 0 && (
+        <div className="bg-slate-800/50 p-6 rounded-lg shadow-lg border border-slate-700 space-y-6">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+            <p className="text-slate-300">
+              {t.statsSummary(
+                total.trials,
+                total.trials > 0 ? ((total.successfulTrials / total.trials) * 100).toFixed(1) : '0',
+                totalAverage === null ? '—' : totalAverage.toFixed(2),
+              )}
+              {batchSeed !== null && <span className="text-slate-500 font-mono ml-2">{t.headerSeed(batchSeed.toString())}</span>}
+            </p>
+            <button
+              type="button"
+              onClick={downloadCsv}
+              className="bg-slate-700 hover:bg-slate-600 text-slate-100 font-semibold py-1 px-4 rounded-lg transition-colors"
+            >
+              {t.statsDownloadCsv}
+            </button>
+          </div>
+          {wasStopped && <p className="text-yellow-300 text-sm">{t.statsStopped}</p>}
+
+          <StatisticsCharts rows={rows} total={total} t={t} />
+
+          <div className="overflow-x-auto max-h-96">
+            <table className="w-full text-sm font-mono text-slate-300">
+              <thead>
+                <tr className="text-slate-400 border-b border-slate-700">
+                  <th className="text-left py-1 pr-4">N</th>
+                  <th className="text-right py-1 pr-4">{t.statsTableTrials}</th>
+                  <th className="text-right py-1 pr-4">{t.statsTableSuccessRate}</th>
+                  <th className="text-right py-1 pr-4">{t.statsTableAttempts}</th>
+                  <th className="text-right py-1">{t.statsTableAverage}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => {
+                  const average = averageAttemptsToSuccess(row);
+                  return (
+                    <tr key={row.n.toString()} className="border-b border-slate-800">
+                      <td className="py-1 pr-4">{row.n.toString()}</td>
+                      <td className="text-right py-1 pr-4">{row.trials}</td>
+                      <td className="text-right py-1 pr-4">{((row.successfulTrials / row.trials) * 100).toFixed(1)}%</td>
+                      <td className="text-right py-1 pr-4">{row.attempts}</td>
+                      <td className="text-right py-1">{average === null ? '—' : average.toFixed(2)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default StatisticsPanel;
@@ -0,0 +1,8 @@
+/**
+ * @file formStyles.ts
+ * Tailwind class strings shared by the forms and panels of the application,
+ * so that every input field looks the same.
+ */
+
+/** Tailwind classes for a text, number or select field; disabled fields are dimmed. */
+export const fieldClass = "w-full bg-slate-900 border border-slate-600 rounded-md px-3 py-1 font-mono focus:ring-2 focus:ring-sky-500 focus:border-sky-500 outline-none transition disabled:opacity-50";
@@ -9,30 +9,202 @@ const en = {
   // App Header
   title: "Shor's Algorithm Explorer",
   subtitle: "An interactive simulation of quantum factorization.",
+  headerSeed: (seed: string) => `Seed: ${seed}`,
 
   // Input Form
   formLabel: "Factorize N =",
   formPlaceholder: "e.g., 91",
   buttonRunning: "Running...",
   buttonStart: "Start Factorization",
-  formHint: "Try composite odd numbers like 15, 35, 91, 143, or 323.",
+  formHint: "Try composite odd numbers like 15, 35, 91, 143, or 323. Numbers up to 2^64, such as the 48-bit 140936445401839, run with the classical backend.",
+  formBackendLabel: "Period-finding backend:",
+  formSeedLabel: "Seed:",
+  formSeedPlaceholder: "random",
+  formPinnedBaseLabel: "Base a:",
+  formPinnedMeasurementLabel: "Measured c:",
+  formPinnedHint: "Pin the base a, and optionally the measurement c, to set up a specific example such as a = 7 for N = 15. With both pinned, the run makes a single attempt; with only a pinned, each attempt reuses a with a new measurement.",
+  errorPinnedBase: (n: string) => `The base a must be a whole number in [2, ${n} - 1].`,
+  errorPinnedMeasurement: (q: string) => `The measured value c must be a whole number in [0, ${q}).`,
+  errorPinnedMeasurementWithoutBase: "The measured value c can only be pinned together with the base a.",
+  pinnedBadge: "chosen by you",
+  advancedTitle: "Advanced settings",
+  advancedMaxAttempts: "Maximum attempts",
+  advancedStepDelay: "Delay between steps (ms)",
+  advancedInstant: "Instant",
+  advancedQubitCount: "First register qubits",
+  advancedQubitCountPlaceholder: "Default: bit length of N²",
+  advancedCfIterations: "Continued fraction terms",
+  advancedCfIterationsPlaceholder: "Default: the whole expansion",
+  advancedShotsPerBase: "Measurements per base",
+  advancedBaseStrategy: "Base selection",
+  baseStrategyNames: {
+    random: "Random",
+    sequential: "Sequential (2, 3, 4, …)",
+    list: "From a list",
+  },
+  advancedBaseList: "Bases to try",
+  advancedBaseListPlaceholder: "e.g. 2, 7, 11",
   
   // App Status Messages
   errorLabel: "Error",
   runningFactorization: (n: string) => `Running factorization for N = ${n}...`,
-  simulatingQuantum: "Simulating quantum process...",
+  workbenchTitle: "Continued fraction workbench",
+  workbenchDescription: "Expand any fraction c/q one Euclidean division at a time and watch the convergents p_k/q_k appear. In Shor's algorithm, the convergent within 1/(2q) of c/q is the one whose denominator carries the period.",
+  workbenchC: "Numerator c",
+  workbenchQ: "Denominator q",
+  workbenchLoad: "Load fraction",
+  workbenchError: "Enter whole numbers with c ≥ 0 and q ≥ 1.",
+  workbenchStep: "Next division",
+  workbenchShowAll: "Show all",
+  workbenchRestart: "Restart",
+  workbenchStart: "Press \"Next division\" to perform the first Euclidean division.",
+  workbenchDivision: (k: number) => `Division ${k}`,
+  workbenchRemainder: "Remainder",
+  workbenchRecurrence: "The quotient extends the convergent through the recurrence:",
+  workbenchNested: "The continued fraction so far:",
+  workbenchComplete: "The remainder is 0, so the expansion of c/q is complete.",
+  workbenchBounds: "A good measurement satisfies |c/q − s/r| < 1/(2q). Since q ≥ N² > r², this is below 1/(2r²), and by Legendre's theorem s/r is then guaranteed to be one of the convergents. Rows within 1/(2q) are highlighted.",
+  workbenchOpen: "Open in the continued fraction workbench",
+  importTitle: "Import measurement counts",
+  importDescription: "Analyse the results of the period-finding circuit run on real hardware or an external simulator, for example from the OpenQASM export. Every distinct outcome goes through the classical half of Shor's algorithm: continued fractions, verification of the period and extraction of the factors.",
+  importBase: "Base a",
+  importQubits: "Counting qubits t",
+  importCounts: "Counts (JSON)",
+  importCountsHint: "An object from outcomes to shot counts, such as {\"01000000\": 262}. The leftmost bit is the most significant bit of c; spaces are ignored and 0x… keys are read as hexadecimal.",
+  importFile: "Or load a .json file",
+  importStart: "Analyse counts",
+  importErrorNumber: (max: string) => `Please enter an odd integer N greater than 3 and at most ${max}.`,
+  importErrorQubits: (max: number) => `The number of counting qubits must be an integer between 1 and ${max}.`,
+  importErrorJson: "The counts are not valid JSON.",
+  importErrorFormat: "The counts must be a JSON object from outcomes to shot counts.",
+  importErrorBitstring: (key: string, t: number) => `"${key}" is not an outcome of ${t} bits.`,
+  importErrorCount: (key: string) => `The count of "${key}" must be a non-negative integer.`,
+  importErrorEmpty: "The counts contain no shots.",
+  importSummary: (outcomes: number, shots: number, successful: number, percent: string) =>
+    `${outcomes} distinct outcomes from ${shots} shots; ${successful} shots (${percent}%) led to factors.`,
+  importFactors: (pairs: string) => `Factors found: ${pairs}.`,
+  importNoFactors: "No outcome led to factors.",
+  importTableBitstring: "Outcome",
+  importTableCount: "Shots",
+  importTableOutcome: "Result",
+  importTableFactors: "Factors",
+  importCardsShown: (shown: number, total: number) => `The ${shown} most frequent of the ${total} outcomes are shown as attempt cards below.`,
+  histogramTitle: "Measurement Probability Distribution",
+  histogramDescription: (r: string) => `The theoretical probability P(c) of every measurement c in 0 … q-1. It peaks near the multiples of q/r, here with r = ${r}. Click a bar to zoom into the nearest peak; once single values are shown, click one to re-run the continued fractions for it.`,
+  histogramBin: (from: string, to: string, p: string) => `c in [${from}, ${to}): P = ${p}`,
+  histogramValue: (c: string, p: string) => `c = ${c}: P = ${p}`,
+  histogramRange: (from: string, to: string) => `c = ${from} … ${to}`,
+  histogramZoomSampled: "Zoom to measured c",
+  histogramZoomOut: "Zoom out",
+  histogramReset: "Full range",
+  histogramSampled: "Measured c",
+  histogramRecovers: "Recovers r",
+  histogramMisses: "Does not recover r",
+  histogramSelected: (c: string, q: string, p: string) => `Continued fractions for c/q = ${c}/${q} (P = ${p}):`,
+  histogramRecovered: (r: string) => `This measurement recovers the true period r = ${r}.`,
+  histogramMultiple: (period: string, r: string) => `This measurement only yields ${period}, a multiple of the true period r = ${r}.`,
+  histogramNotRecovered: "No candidate from this measurement satisfies a^r ≡ 1 (mod N).",
+  plotTitle: (a: string, n: string) => `f(x) = ${a}^x mod ${n}`,
+  plotPoint: (a: string, x: number, n: string, value: string) => `f(${x}) = ${a}^${x} mod ${n} = ${value}`,
+  plotRepetition: "f(x) = 1: the function starts to repeat",
+  plotTruePeriod: (r: string) => `True period r = ${r}`,
+  plotCandidate: (r: string) => `Candidate r = ${r}`,
+  plotCandidateDiffers: (candidate: string, r: string) => `The continued fractions proposed r = ${candidate}, but the true period is r = ${r}.`,
+  plotPeriodBeyondWindow: (r: string, count: number) => `The period r = ${r} is longer than the ${count} values shown.`,
+  landscapeTitle: (n: string) => `Base landscape for N = ${n}`,
+  landscapeDescription: "Every base a in [2, N - 1], analysed classically: the base Shor's algorithm picks at random is one row of this table. Click a column to sort.",
+  landscapeVerdicts: {
+    'good': "Good base",
+    'shared-factor': "Shares a factor",
+    'trivial-root': "a^(r/2) ≡ -1",
+    'odd-order': "Odd order",
+  },
+  landscapeColumns: {
+    a: "a",
+    gcd: "gcd(a, N)",
+    order: "Order r",
+    verdict: "Result",
+    factor: "Factors",
+  },
+  landscapeEven: "even",
+  landscapeOdd: "odd",
+  landscapeSummary: (good: number, coprime: number, percent: string, k: number, bound: string) =>
+    `${good} of the ${coprime} co-prime bases are good (${percent}%). With k = ${k} distinct prime factors, the theory guarantees at least 1 - 1/2^(k-1) = ${bound}%.`,
+  landscapeLegend: "The highlighted row is the base of the current attempt; shaded rows were tried before.",
+  modeNames: {
+    explorer: "Explorer",
+    statistics: "Statistics",
+    workbench: "Continued Fractions",
+    import: "Import Counts",
+    rsa: "RSA",
+    'discrete-log': "Discrete Log",
+  },
+  statsTitle: "Batch statistics",
+  statsDescription: "Run Shor's algorithm many times on each N without animation and count how often the attempts end in each outcome. Primes and perfect powers in the range are skipped.",
+  statsFrom: "N (or first N of a range)",
+  statsTo: "Last N of the range",
+  statsToPlaceholder: "same as first",
+  statsTrials: "Runs per N",
+  statsStart: "Run batch",
+  statsProgress: (done: number, total: number, n: string) => `${done} / ${total} runs (N = ${n})`,
+  statsStopped: "The batch was stopped; the results cover the numbers that were completed.",
+  statsErrorRange: (max: string) => `Please enter a range of integers from 4 to ${max}.`,
+  statsErrorCounts: "The runs per N and the maximum attempts must be positive integers.",
+  statsErrorNoCandidates: "The range contains no odd composite number that is not a perfect power.",
+  statsErrorTooManyTrials: (max: number) => `A batch is limited to ${max} runs in total. Please shorten the range or reduce the runs per N.`,
+  statsSummary: (trials: number, successRate: string, average: string) => `${trials} runs, ${successRate}% found a factor, ${average} attempts to success on average.`,
+  statsDownloadCsv: "Download CSV",
+  statsOutcomeChartTitle: "Outcome of every attempt",
+  statsAverageChartTitle: "Average attempts to success per N",
+  statsTableTrials: "Runs",
+  statsTableSuccessRate: "Success",
+  statsTableAttempts: "Attempts",
+  statsTableAverage: "Avg. to success",
+  outcomeNames: {
+    'lucky-gcd': "Lucky GCD",
+    'continued-fraction': "Continued fraction failure",
+    'period-unverified': "Period not verified",
+    'odd-period': "Odd period",
+    'trivial-root': "Trivial root (a^(r/2) ≡ -1)",
+    'trivial-factors': "Trivial factors",
+    'success': "Success",
+  },
+  runModeMessages: {
+    running: "Simulating quantum process...",
+    stepping: "Running the next step...",
+    paused: "Paused. Press Step to advance or Resume to continue.",
+    stopped: "Stopping...",
+  },
+  runPause: "Pause",
+  runResume: "Resume",
+  runStep: "Step",
+  runStop: "Stop",
+  runStoppedMessage: (n: string) => `The factorization of N = ${n} was stopped.`,
   factorizationComplete: "Factorization Complete!",
+  factorizationPartial: "Partial Factorization",
+  factorizationPartialMessage: (n: string) => `Some cofactors of N = ${n} could not be split within the attempt limit.`,
+  factorTreeTitle: "Factorization tree",
+  factorMethods: {
+    prime: "prime",
+    'trial-division': "even, split off 2",
+    'perfect-power': "perfect power",
+    shor: "split by Shor's algorithm",
+    unresolved: "could not be split",
+  },
   factorizationFailed: "Factorization Failed",
   factorizationFailedMessage: (n: string) => `The algorithm could not find factors for N = ${n} after several attempts. This can happen if the number is prime or due to the probabilistic nature of the algorithm.`,
   
   // Input Validation Errors
-  errorNumberRange: "Please enter an integer between 4 and 100,000.",
+  errorNumberRange: (max: string) => `Please enter an integer between 4 and ${max}.`,
   errorNumberEven: "Please enter an odd number. A factor is 2.",
   errorNumberTooSmall: "Please enter a number greater than 1.",
   errorNumberIsPrime: "The number is prime and cannot be factored.",
+  errorSeedInvalid: "The seed must be an integer between 0 and 4,294,967,295.",
+  errorAdvancedInvalid: (field: string) => `Invalid value for "${field}" in the advanced settings.`,
   
   // Attempt Card
   attemptTitle: (id: number) => `Attempt #${id}`,
+  attemptTarget: (n: string) => `N = ${n}`,
   status: {
     running: "Running",
     failed: "Failed",
@@ -46,6 +218,7 @@ const en = {
   step2Title: "Quantum Period Finding",
   step2Description: (a: string, n: string) => `Simulate the quantum circuit to find the period 'r' of f(x) = ${a}^x mod ${n}.`,
   step2Measurement: (c: string, t: string, q: string) => `Simulated measurement: c = ${c} on a register of size q = 2^${t} = ${q}.`,
+  step2Backend: "Backend:",
   step3Title: "Continued Fraction Expansion",
   step3Description: `Expand the fraction c/q to find a candidate for the period 'r'.`,
   step4Title: "Verify Period",
@@ -67,17 +240,202 @@ const en = {
   shorErrorPeriodOdd: "The period 'r' is odd. A new base 'a' must be chosen.",
   shorErrorTrivial: `a^(r/2) ≡ -1 (mod N). This gives a trivial factor. A new base 'a' must be chosen.`,
   shorErrorFactorsTrivial: "Calculated factors were trivial (1 or N).",
+  shorErrorPeriodUnverified: "No candidate satisfied a^r ≡ 1 (mod N), so the period could not be recovered from the measurements.",
+  shorErrorBackendUnsupported: (backend: string, n: string, t: number) => `The ${backend} backend cannot handle N = ${n} with a register of ${t} qubits.`,
+  shorErrorBaseOutOfRange: (base: string, n: string) => `The base ${base} is outside the range [2, ${n} - 1].`,
+  shorErrorMeasurementOutOfRange: (c: string, q: string) => `The measured value ${c} is outside the register range [0, ${q}).`,
+
+  // Period-Finding Backends
+  periodFinderNames: {
+    auto: "Automatic",
+    'state-vector': "State-vector simulation",
+    'classical-oracle': "Classical oracle",
+    replay: "Recorded measurements",
+  },
   
   // Quantum Circuit Diagram
-  circuitDiagramTitle: "Simplified Circuit Diagram",
-  circuitQubits: (n: number) => `${n} qubits`,
-  circuitMeasure: "Measure",
+  circuitDiagramTitle: "Period-Finding Circuit",
+  circuitSummary: (t: number, n: number, gates: number) => `${t} counting qubits, ${n} work qubits, ${gates} gates. Hover a gate for details.`,
+  circuitStages: {
+    prepare: "Prepare",
+    'modular-exponentiation': "Modular exponentiation",
+    'inverse-qft': "Inverse QFT",
+    measure: "Measure",
+  },
+  circuitGateTitles: {
+    h: "Hadamard gate",
+    x: "NOT gate: the work register starts in |1⟩",
+    swap: "Swap of two qubits, reversing the bit order",
+    measure: "Measurement of one bit of c",
+  },
+  circuitMultiplyTitle: (exponent: string, multiplier: string, a: string, n: string) => `U^${exponent}: multiplies the work register by ${a}^${exponent} mod ${n} = ${multiplier}`,
+  circuitPhaseTitle: (k: number) => `Controlled rotation R${k}† = diag(1, e^(-2πi/2^${k}))`,
+  circuitExpandWork: "Show work qubits",
+  circuitCollapseWork: "Bundle work qubits",
+  circuitExpandQft: "Expand inverse QFT",
+  circuitCollapseQft: "Collapse inverse QFT",
+  circuitDownloadQasm: (version: number) => `Download .qasm (OpenQASM ${version})`,
+  circuitQasmTooLarge: (max: string) => `The OpenQASM export is available for N ≤ ${max}: its multiplication gates grow with N.`,
+  dlogTitle: "Shor's algorithm for discrete logarithms",
+  dlogDescription: "Shor's paper solves discrete logarithms as well as factoring. Given a prime p, a base g and a power h of g, the algorithm finds x with g^x ≡ h (mod p), which breaks Diffie–Hellman key exchange in the same way factoring breaks RSA.",
+  dlogPrime: "Prime p",
+  dlogBase: "Base g",
+  dlogTarget: "Target h",
+  dlogStart: "Find x",
+  dlogHint: (max: string) => `p must be a prime below ${max}. The order of g is computed classically; orders up to 128 are simulated as a state vector, larger ones with a classical oracle.`,
+  dlogErrorPrime: (max: string) => `Please enter a prime p between 3 and ${max}.`,
+  dlogErrorBase: (p: string) => `The base g must lie in the range [2, ${p} - 1].`,
+  dlogErrorTarget: (p: string) => `The target h must lie in the range [1, ${p} - 1].`,
+  dlogErrorNotInGroup: (h: string, g: string, p: string) => `${h} is not a power of ${g} modulo ${p}, so no x exists. Choose a generator g or a power of g as h.`,
+  dlogErrorZeroMeasurement: "The first register measured c1 ≡ 0 (mod r), which says nothing about x. A new measurement is needed.",
+  dlogErrorAmbiguous: (divisor: string) => `gcd(c1, r) = ${divisor} leaves too many candidates for x. A new measurement is needed.`,
+  dlogErrorUnverified: "No candidate satisfied g^x ≡ h (mod p). A new measurement is needed.",
+  dlogAttemptTarget: (g: string, h: string, p: string) => `(${g}^x ≡ ${h} mod ${p})`,
+  dlogStep1Title: "Order of g",
+  dlogStep1Description: (g: string, p: string) => `Shor's algorithm needs the order r of g, the size of each counting register. For g = ${g} modulo ${p}:`,
+  dlogStep2Title: "Two-Register Period Finding",
+  dlogStep2Description: "The function f(a, b) = g^a·h^(-b) mod p has the period (x, 1): f(a + x, b + 1) = f(a, b). After computing f into the work register, a Fourier transform over Z_r on each counting register concentrates the amplitude on the pairs with c2 ≡ -x·c1 (mod r).",
+  dlogStep2Register: (r: string, qubits: number) => `Each counting register holds the ${r} values of Z_r on ${qubits} qubits.`,
+  dlogStep2Measurement: (c1: string, c2: string, work: string) => `Measured c1 = ${c1} and c2 = ${c2}; the work register held ${work}.`,
+  dlogStep3Title: "Recovering x",
+  dlogStep3Description: "The measurement satisfies c1·x ≡ -c2 (mod r). Dividing by d = gcd(c1, r) determines x modulo r/d:",
+  dlogStep3Candidates: (count: number) => `${count} ${count === 1 ? 'candidate' : 'candidates'} for x in [0, r):`,
+  dlogStep4Title: "Verification",
+  dlogStep4Description: "Each candidate is checked by computing g^x mod p:",
+  dlogSuccess: "Logarithm found!",
+  dlogFound: (g: string, x: string, h: string, p: string) => `${g}^${x} ≡ ${h} (mod ${p})`,
+  dlogCircuitSummary: (qubits: number, work: number, order: string) =>
+    `2 × ${qubits} counting qubits for Z_${order}, ${work} work qubits. F_r prepares an equal superposition over Z_r and F_r† is the inverse Fourier transform over Z_r.`,
+  dlogCircuitMultiplyTitle: (register: string, exponent: string, multiplier: string) => `Controlled by ${register}: multiply the work register by ${multiplier} (the ${exponent}th power)`,
+  dlogFailed: "No attempt found the logarithm.",
+  rsaTitle: "Breaking a toy RSA key",
+  rsaDescription: "RSA keeps a message secret because the private key can only be computed from the factors of the public modulus N. Generate a small key pair, encrypt a message, and then break the key with Shor's algorithm: factor N, derive the private exponent and decrypt.",
+  rsaPrimeBits: "Bits per prime",
+  rsaMessage: "Message",
+  rsaGenerate: "Generate key and encrypt",
+  rsaErrorBits: (min: number, max: number) => `The primes must have between ${min} and ${max} bits.`,
+  rsaErrorMessage: (max: number) => `Please enter a message of 1 to ${max} characters.`,
+  rsaPending: "Waiting",
+  rsaKeyTitle: "Key generation",
+  rsaKeyDescription: "Two random primes p and q are multiplied into the modulus N = p·q. The public exponent e is co-prime with φ(N) = (p - 1)(q - 1), and the private exponent d is its inverse modulo φ(N). Only N and e are published.",
+  rsaPublicKey: "Public key:",
+  rsaPrivateKey: "Private key:",
+  rsaSecret: "secret",
+  rsaEncryptTitle: "Encryption",
+  rsaEncryptDescription: (bytes: number) =>
+    `The UTF-8 bytes of the message are cut into blocks of ${bytes} ${bytes === 1 ? 'byte' : 'bytes'}, so every block m is a number below N, and each block is encrypted with the public key.`,
+  rsaPlaintextBlock: "Plaintext m",
+  rsaCiphertextBlock: "Ciphertext c",
+  rsaFactorTitle: "Factoring the modulus",
+  rsaFactorDescription: (n: string) => `An attacker who sees only the public key runs Shor's algorithm on N = ${n}.`,
+  rsaBreak: "Break the key with Shor's algorithm",
+  rsaBreakFailed: "No attempt split N. Try again; every run draws new bases.",
+  rsaPrivateTitle: "Deriving the private key",
+  rsaPrivateDescription: "With p and q known, φ(N) follows at once, and the extended Euclidean algorithm inverts e modulo φ(N). The result is the private exponent d.",
+  rsaDecryptTitle: "Decryption",
+  rsaDecrypted: "Recovered message",
+  classicalTitle: "Classical baselines",
+  classicalDescription: "Run classical factoring algorithms on the same N and compare their effort with Shor's algorithm. Each algorithm counts its basic operations: divisions, modular multiplications, gcds, sieve updates and row additions.",
+  classicalRun: (n: string) => `Run classical algorithms on ${n}`,
+  classicalRunning: "Running...",
+  classicalAlgorithmNames: {
+    'trial-division': "Trial division",
+    'pollard-rho': "Pollard's rho",
+    'pollard-p-minus-1': "Pollard's p − 1",
+    'quadratic-sieve': "Quadratic sieve",
+  },
+  classicalTableAlgorithm: "Algorithm",
+  classicalTableFactor: "Factor found",
+  classicalTableOperations: "Operations",
+  classicalTableTime: "Time",
+  classicalNoFactor: "No factor",
+  classicalBudgetExhausted: "Budget exhausted",
+  classicalShorRow: "Shor's algorithm",
+  classicalShorSummary: (attempts: number, qubits: number, toffoli: string) =>
+    `${attempts} ${attempts === 1 ? 'attempt' : 'attempts'} · about ${qubits} logical qubits and ${toffoli} Toffoli gates per attempt (Gidney–Ekerå)`,
+  classicalFootnote: (budget: string) =>
+    `Each algorithm stops after ${budget} operations. Pollard's p − 1 only succeeds when p − 1 is smooth for some prime factor p, and the times are measured in this browser on the main thread.`,
+  inspectorTitle: "Register amplitude inspector",
+  inspectorDescription: "The joint state of both registers after each stage of the circuit above, simulated as a state vector. Each row is a basis state |x⟩|y⟩, with the first register on the left and the second on the right. In each phase wheel, the disc grows with the magnitude of the amplitude and the hand shows its phase.",
+  inspectorTooLarge: (max: number) => `The inspector lists the state for a first register of at most ${max} qubits.`,
+  inspectorStages: {
+    initial: "Initialisation",
+    prepare: "After the Hadamards",
+    'modular-exponentiation': "After modular exponentiation",
+    'inverse-qft': "After the inverse QFT",
+    measure: "After measuring the second register",
+  },
+  inspectorStageDescriptions: {
+    initial: "Every qubit starts in |0⟩, so the state is the single basis state |0⟩|0⟩.",
+    prepare: "The Hadamards put the first register in an equal superposition of all q values, and the X gate sets the second register to 1. Every amplitude is 1/√q with phase 0.",
+    'modular-exponentiation': "The controlled multiplications write a^x mod N into the second register. The amplitudes do not change, but the registers are now entangled: the rows fall into one group per value of the second register, and the values of x within a group are spaced by the period r.",
+    'inverse-qft': "The inverse QFT acts on the first register within each group. Interference cancels most values of c and concentrates the amplitude near multiples of q/r; the groups differ only in their phases.",
+    measure: "Measuring the second register keeps a single group and renormalises it. The first register is left with its peaks near multiples of q/r, which the final measurement of the circuit samples. Choose the measured value below.",
+  },
+  inspectorMeasured: "Second register measured in:",
+  inspectorOutcome: (y: number, probability: string) => `y = ${y} (${probability})`,
+  inspectorBranch: (y: number, probability: string) => `Second register y = ${y}, total probability ${probability}`,
+  inspectorTruncated: (shown: number, total: number) => `Showing the ${shown} most likely of ${total} basis states.`,
+  inspectorTableState: "Basis state",
+  inspectorTableAmplitude: "Amplitude",
+  inspectorTablePhase: "Phase",
+  inspectorTableProbability: "Probability",
+  inspectorTableWheel: "Phase wheel",
+  resourceTitle: "Resource estimate on a fault-tolerant quantum computer",
+  resourceDescription: "What running Shor's algorithm for real would take, for several published constructions of the modular exponentiation. Logical counts are leading-order formulas in the bit length n; the physical figures assume a surface code.",
+  resourceBits: "Bit length n",
+  resourceCurrentN: (n: string) => `N = ${n}`,
+  resourceErrorRate: "Physical error rate",
+  resourceCycleTime: "Surface-code cycle time (μs)",
+  resourceInvalid: (max: number) => `Please enter a bit length between 2 and ${max}, an error rate between 0 and 1, and a positive cycle time.`,
+  resourceConstructionNames: {
+    'beauregard': "Beauregard 2003 (2n+3 qubits)",
+    'vedral': "Vedral–Barenco–Ekert 1996",
+    'haner': "Häner–Roetteler–Svore 2017 (2n+2 qubits)",
+    'gidney-ekera': "Gidney–Ekerå 2019 (windowed)",
+  },
+  resourceTableConstruction: "Construction",
+  resourceTableLogicalQubits: "Logical qubits",
+  resourceTableToffoli: "Toffoli gates",
+  resourceTableDepth: "Depth",
+  resourceTableDistance: "Code distance",
+  resourceTablePhysicalQubits: "Physical qubits",
+  resourceTableRuntime: "Runtime",
+  resourceFactories: (factories: number) => `Including ${factories} magic-state factories`,
+  resourceNoDistance: "Error rate too high for the surface code",
+  resourceUnits: {
+    years: "years",
+    days: "days",
+    hours: "h",
+    minutes: "min",
+    seconds: "s",
+    milliseconds: "ms",
+    microseconds: "μs",
+  },
+  resourceAssumptions: (bits: number) =>
+    `For n = ${bits} bits. The exponent register is recycled by a semiclassical QFT, T gates count as half a Toffoli, and the depth counts sequential layers of non-Clifford gates. Each layer takes d code cycles; d is the smallest distance with a total failure probability below 1% at a logical error rate of 0.1·(p/0.01)^((d+1)/2) per qubit and cycle. Each logical qubit uses 2(d+1)² physical qubits, and CCZ factories supply one magic state per Toffoli. Formulas after Gidney and Ekerå (2019).`,
   
   // Continued Fraction Table
   tableHeaderConvergent: "Convergent",
   tableHeaderDenominator: "Denominator",
   tableHintCandidate: "This denominator is the best candidate for the period 'r'",
   tableBestCandidate: "Best candidate for period",
+
+  // Period Recovery
+  recoveryTitle: "Period Recovery",
+  recoveryDescription: "Each candidate is checked against the function itself: a true period satisfies a^r ≡ 1 (mod N).",
+  recoveryMeasurements: "Measurements for this base:",
+  recoveryShot: (shot: number, c: string, d: string) => `#${shot}: c = ${c}, denominator = ${d}`,
+  recoveryNoDenominator: "none",
+  recoveryLcm: "Least common multiple of the denominators",
+  recoveryHeaderCandidate: "Candidate r",
+  recoveryHeaderSource: "Source",
+  recoveryHeaderShot: "Measurement",
+  recoverySources: {
+    convergent: "Convergent denominator",
+    multiple: "Multiple of denominator",
+    lcm: "LCM of measurements",
+  },
   
   // Common UI Elements
   explainButtonLabel: "Get explanation",
@@ -88,30 +446,202 @@ const zh: typeof en = {
   // App Header
   title: "SHOR算法演示器",
   subtitle: "一个交互式的量子因式分解模拟器。",
+  headerSeed: (seed: string) => `随机种子：${seed}`,
 
   // Input Form
   formLabel: "分解 N =",
   formPlaceholder: "例如 91",
   buttonRunning: "运行中...",
   buttonStart: "开始分解",
-  formHint: "请尝试不超过100000的奇数合数，如 15, 35, 91, 143, 或 323。",
+  formHint: "请尝试奇数合数，如 15, 35, 91, 143, 或 323。不超过 2^64 的数字（例如 48 位的 140936445401839）将使用经典后端运行。",
+  formBackendLabel: "周期查找后端：",
+  formSeedLabel: "随机种子：",
+  formSeedPlaceholder: "随机",
+  formPinnedBaseLabel: "基数 a：",
+  formPinnedMeasurementLabel: "测量值 c：",
+  formPinnedHint: "指定基数 a（以及可选的测量值 c），即可构造特定的例子，例如 N = 15 时取 a = 7。两者都指定时只进行一次尝试；只指定 a 时，每次尝试都使用 a 并重新测量。",
+  errorPinnedBase: (n: string) => `基数 a 必须是 [2, ${n} - 1] 范围内的整数。`,
+  errorPinnedMeasurement: (q: string) => `测量值 c 必须是 [0, ${q}) 范围内的整数。`,
+  errorPinnedMeasurementWithoutBase: "只有在指定基数 a 的同时才能指定测量值 c。",
+  pinnedBadge: "手动指定",
+  advancedTitle: "高级设置",
+  advancedMaxAttempts: "最大尝试次数",
+  advancedStepDelay: "步骤间隔（毫秒）",
+  advancedInstant: "立即完成",
+  advancedQubitCount: "第一寄存器量子比特数",
+  advancedQubitCountPlaceholder: "默认：N² 的位数",
+  advancedCfIterations: "连分数项数",
+  advancedCfIterationsPlaceholder: "默认：完整展开",
+  advancedShotsPerBase: "每个基数的测量次数",
+  advancedBaseStrategy: "基数选择方式",
+  baseStrategyNames: {
+    random: "随机",
+    sequential: "依次（2, 3, 4, …）",
+    list: "从列表中选取",
+  },
+  advancedBaseList: "要尝试的基数",
+  advancedBaseListPlaceholder: "例如 2, 7, 11",
 
   // App Status Messages
   errorLabel: "错误",
   runningFactorization: (n: string) => `正在为 N = ${n} 运行因式分解...`,
-  simulatingQuantum: "正在模拟量子过程...",
+  workbenchTitle: "连分数工作台",
+  workbenchDescription: "对任意分数 c/q 逐次进行欧几里得除法，观察渐近分数 p_k/q_k 的产生过程。在 Shor 算法中，与 c/q 相差小于 1/(2q) 的渐近分数，其分母包含周期信息。",
+  workbenchC: "分子 c",
+  workbenchQ: "分母 q",
+  workbenchLoad: "载入分数",
+  workbenchError: "请输入整数，且 c ≥ 0、q ≥ 1。",
+  workbenchStep: "下一次除法",
+  workbenchShowAll: "全部显示",
+  workbenchRestart: "重新开始",
+  workbenchStart: "点击“下一次除法”执行第一次欧几里得除法。",
+  workbenchDivision: (k: number) => `第 ${k} 次除法`,
+  workbenchRemainder: "余数",
+  workbenchRecurrence: "商通过以下递推关系扩展渐近分数：",
+  workbenchNested: "目前得到的连分数：",
+  workbenchComplete: "余数为 0，c/q 的展开已完成。",
+  workbenchBounds: "良好的测量满足 |c/q − s/r| < 1/(2q)。由于 q ≥ N² > r²，该值小于 1/(2r²)，根据勒让德定理，s/r 必定是某个渐近分数。与 c/q 相差小于 1/(2q) 的行已高亮显示。",
+  workbenchOpen: "在连分数工作台中打开",
+  importTitle: "导入测量计数",
+  importDescription: "分析在真实硬件或外部模拟器上运行周期查找电路（例如通过 OpenQASM 导出）得到的结果。每个不同的测量结果都会经过 Shor 算法的经典部分：连分数、周期验证和因子提取。",
+  importBase: "基数 a",
+  importQubits: "计数量子比特数 t",
+  importCounts: "计数（JSON）",
+  importCountsHint: "从测量结果到测量次数的对象，例如 {\"01000000\": 262}。最左边的位是 c 的最高有效位；空格会被忽略，0x… 形式的键按十六进制读取。",
+  importFile: "或加载一个 .json 文件",
+  importStart: "分析计数",
+  importErrorNumber: (max: string) => `请输入一个大于 3 且不超过 ${max} 的奇数 N。`,
+  importErrorQubits: (max: number) => `计数量子比特数必须是 1 到 ${max} 之间的整数。`,
+  importErrorJson: "计数不是有效的 JSON。",
+  importErrorFormat: "计数必须是从测量结果到测量次数的 JSON 对象。",
+  importErrorBitstring: (key: string, t: number) => `“${key}”不是 ${t} 位的测量结果。`,
+  importErrorCount: (key: string) => `“${key}”的计数必须是非负整数。`,
+  importErrorEmpty: "计数中没有任何测量。",
+  importSummary: (outcomes: number, shots: number, successful: number, percent: string) =>
+    `${shots} 次测量中共有 ${outcomes} 个不同的结果；其中 ${successful} 次（${percent}%）得到了因子。`,
+  importFactors: (pairs: string) => `找到的因子：${pairs}。`,
+  importNoFactors: "没有任何测量结果得到因子。",
+  importTableBitstring: "测量结果",
+  importTableCount: "次数",
+  importTableOutcome: "结果",
+  importTableFactors: "因子",
+  importCardsShown: (shown: number, total: number) => `下方以尝试卡片显示 ${total} 个结果中出现次数最多的 ${shown} 个。`,
+  histogramTitle: "测量概率分布",
+  histogramDescription: (r: string) => `每个测量值 c（0 … q-1）的理论概率 P(c)。峰值位于 q/r 的倍数附近，此处 r = ${r}。点击柱形可放大到最近的峰值；显示单个值后，点击某个值即可对其重新运行连分数算法。`,
+  histogramBin: (from: string, to: string, p: string) => `c 属于 [${from}, ${to})：P = ${p}`,
+  histogramValue: (c: string, p: string) => `c = ${c}：P = ${p}`,
+  histogramRange: (from: string, to: string) => `c = ${from} … ${to}`,
+  histogramZoomSampled: "放大到测得的 c",
+  histogramZoomOut: "缩小",
+  histogramReset: "完整范围",
+  histogramSampled: "测得的 c",
+  histogramRecovers: "可恢复 r",
+  histogramMisses: "无法恢复 r",
+  histogramSelected: (c: string, q: string, p: string) => `c/q = ${c}/${q} 的连分数（P = ${p}）：`,
+  histogramRecovered: (r: string) => `该测量值可恢复真实周期 r = ${r}。`,
+  histogramMultiple: (period: string, r: string) => `该测量值只得到 ${period}，它是真实周期 r = ${r} 的倍数。`,
+  histogramNotRecovered: "该测量值得到的候选值均不满足 a^r ≡ 1 (mod N)。",
+  plotTitle: (a: string, n: string) => `f(x) = ${a}^x mod ${n}`,
+  plotPoint: (a: string, x: number, n: string, value: string) => `f(${x}) = ${a}^${x} mod ${n} = ${value}`,
+  plotRepetition: "f(x) = 1：函数从此开始重复",
+  plotTruePeriod: (r: string) => `真实周期 r = ${r}`,
+  plotCandidate: (r: string) => `候选值 r = ${r}`,
+  plotCandidateDiffers: (candidate: string, r: string) => `连分数给出的候选值为 r = ${candidate}，但真实周期为 r = ${r}。`,
+  plotPeriodBeyondWindow: (r: string, count: number) => `周期 r = ${r} 超过了所显示的 ${count} 个值。`,
+  landscapeTitle: (n: string) => `N = ${n} 的基数全景`,
+  landscapeDescription: "对 [2, N - 1] 中的每个基数 a 进行经典分析：Shor 算法随机选取的基数就是此表中的一行。点击列标题可排序。",
+  landscapeVerdicts: {
+    'good': "好基数",
+    'shared-factor': "有公因子",
+    'trivial-root': "a^(r/2) ≡ -1",
+    'odd-order': "奇数阶",
+  },
+  landscapeColumns: {
+    a: "a",
+    gcd: "gcd(a, N)",
+    order: "阶 r",
+    verdict: "结果",
+    factor: "因子",
+  },
+  landscapeEven: "偶",
+  landscapeOdd: "奇",
+  landscapeSummary: (good: number, coprime: number, percent: string, k: number, bound: string) =>
+    `${coprime} 个互质基数中有 ${good} 个是好基数（${percent}%）。N 有 k = ${k} 个不同的素因子，理论保证至少为 1 - 1/2^(k-1) = ${bound}%。`,
+  landscapeLegend: "高亮的行是当前尝试的基数；带底色的行是之前尝试过的基数。",
+  modeNames: {
+    explorer: "探索",
+    statistics: "统计",
+    workbench: "连分数",
+    import: "导入计数",
+    rsa: "RSA",
+    'discrete-log': "离散对数",
+  },
+  statsTitle: "批量统计",
+  statsDescription: "在不显示动画的情况下对每个 N 多次运行 Shor 算法，并统计各次尝试以何种结果结束。范围内的素数和完全幂将被跳过。",
+  statsFrom: "N（或范围的起始 N）",
+  statsTo: "范围的最后一个 N",
+  statsToPlaceholder: "与起始值相同",
+  statsTrials: "每个 N 的运行次数",
+  statsStart: "开始批量运行",
+  statsProgress: (done: number, total: number, n: string) => `${done} / ${total} 次运行（N = ${n}）`,
+  statsStopped: "批量运行已停止；结果仅包含已完成的数字。",
+  statsErrorRange: (max: string) => `请输入 4 到 ${max} 之间的整数范围。`,
+  statsErrorCounts: "每个 N 的运行次数和最大尝试次数必须是正整数。",
+  statsErrorNoCandidates: "该范围内没有不是完全幂的奇合数。",
+  statsErrorTooManyTrials: (max: number) => `一次批量运行最多 ${max} 次。请缩小范围或减少每个 N 的运行次数。`,
+  statsSummary: (trials: number, successRate: string, average: string) => `共 ${trials} 次运行，${successRate}% 找到了因子，平均需要 ${average} 次尝试。`,
+  statsDownloadCsv: "下载 CSV",
+  statsOutcomeChartTitle: "每次尝试的结果",
+  statsAverageChartTitle: "每个 N 成功所需的平均尝试次数",
+  statsTableTrials: "运行次数",
+  statsTableSuccessRate: "成功率",
+  statsTableAttempts: "尝试次数",
+  statsTableAverage: "平均尝试次数",
+  outcomeNames: {
+    'lucky-gcd': "幸运的 GCD",
+    'continued-fraction': "连分数失败",
+    'period-unverified': "周期未通过验证",
+    'odd-period': "奇数周期",
+    'trivial-root': "平凡根（a^(r/2) ≡ -1）",
+    'trivial-factors': "平凡因子",
+    'success': "成功",
+  },
+  runModeMessages: {
+    running: "正在模拟量子过程...",
+    stepping: "正在执行下一步...",
+    paused: "已暂停。点击“单步”前进一步，或点击“继续”恢复运行。",
+    stopped: "正在停止...",
+  },
+  runPause: "暂停",
+  runResume: "继续",
+  runStep: "单步",
+  runStop: "停止",
+  runStoppedMessage: (n: string) => `N = ${n} 的因式分解已停止。`,
   factorizationComplete: "分解完成！",
+  factorizationPartial: "部分分解",
+  factorizationPartialMessage: (n: string) => `N = ${n} 的部分余因子未能在尝试次数限制内被分解。`,
+  factorTreeTitle: "因式分解树",
+  factorMethods: {
+    prime: "素数",
+    'trial-division': "偶数，分出因子 2",
+    'perfect-power': "完全幂",
+    shor: "由Shor算法分解",
+    unresolved: "未能分解",
+  },
   factorizationFailed: "分解失败",
   factorizationFailedMessage: (n: string) => `多次尝试后，算法未能找到 N = ${n} 的因子。如果该数字是素数或由于算法的概率性，可能会发生这种情况。`,
   
   // Input Validation Errors
-  errorNumberRange: "请输入一个 4 到 100,000 之间的整数。",
+  errorNumberRange: (max: string) => `请输入一个 4 到 ${max} 之间的整数。`,
   errorNumberEven: "请输入一个奇数。因子之一是 2。",
   errorNumberTooSmall: "请输入一个大于 1 的数字。",
   errorNumberIsPrime: "该数字是素数，无法进行因式分解。",
+  errorSeedInvalid: "随机种子必须是 0 到 4,294,967,295 之间的整数。",
+  errorAdvancedInvalid: (field: string) => `高级设置中“${field}”的值无效。`,
   
   // Attempt Card
   attemptTitle: (id: number) => `尝试 #${id}`,
+  attemptTarget: (n: string) => `N = ${n}`,
   status: {
     running: "运行中",
     failed: "失败",
@@ -125,6 +655,7 @@ const zh: typeof en = {
   step2Title: "量子周期查找",
   step2Description: (a: string, n: string) => `模拟量子电路以找到函数 f(x) = ${a}^x mod ${n} 的周期 'r'。`,
   step2Measurement: (c: string, t: string, q: string) => `模拟测量结果：c = ${c}，寄存器大小为 q = 2^${t} = ${q}。`,
+  step2Backend: "后端：",
   step3Title: "连分数展开",
   step3Description: `展开分数 c/q 以找到周期 'r' 的候选值。`,
   step4Title: "验证周期",
@@ -146,11 +677,180 @@ const zh: typeof en = {
   shorErrorPeriodOdd: "周期 'r' 是奇数。必须选择一个新的基数 'a'。",
   shorErrorTrivial: `a^(r/2) ≡ -1 (mod N)。这导致了平凡解。必须选择一个新的基数 'a'。`,
   shorErrorFactorsTrivial: "计算出的因子是平凡的 (1 或 N)。",
+  shorErrorPeriodUnverified: "没有候选值满足 a^r ≡ 1 (mod N)，因此无法从测量结果中恢复周期。",
+  shorErrorBackendUnsupported: (backend: string, n: string, t: number) => `${backend}后端无法处理 N = ${n} 与 ${t} 个量子比特的寄存器。`,
+  shorErrorBaseOutOfRange: (base: string, n: string) => `基数 ${base} 不在范围 [2, ${n} - 1] 内。`,
+  shorErrorMeasurementOutOfRange: (c: string, q: string) => `测量值 ${c} 不在寄存器范围 [0, ${q}) 内。`,
+
+  // Period-Finding Backends
+  periodFinderNames: {
+    auto: "自动",
+    'state-vector': "态矢量模拟",
+    'classical-oracle': "经典预言机",
+    replay: "回放测量记录",
+  },
 
   // Quantum Circuit Diagram
-  circuitDiagramTitle: "简化电路图",
-  circuitQubits: (n: number) => `${n} 量子比特`,
-  circuitMeasure: "测量",
+  circuitDiagramTitle: "周期查找电路",
+  circuitSummary: (t: number, n: number, gates: number) => `${t} 个计数量子比特，${n} 个工作量子比特，共 ${gates} 个门。将鼠标悬停在门上可查看详情。`,
+  circuitStages: {
+    prepare: "准备",
+    'modular-exponentiation': "模幂运算",
+    'inverse-qft': "逆 QFT",
+    measure: "测量",
+  },
+  circuitGateTitles: {
+    h: "阿达马门",
+    x: "非门：工作寄存器从 |1⟩ 开始",
+    swap: "交换两个量子比特，反转比特顺序",
+    measure: "测量 c 的一个比特",
+  },
+  circuitMultiplyTitle: (exponent: string, multiplier: string, a: string, n: string) => `U^${exponent}：将工作寄存器乘以 ${a}^${exponent} mod ${n} = ${multiplier}`,
+  circuitPhaseTitle: (k: number) => `受控旋转 R${k}† = diag(1, e^(-2πi/2^${k}))`,
+  circuitExpandWork: "显示工作量子比特",
+  circuitCollapseWork: "合并工作量子比特",
+  circuitExpandQft: "展开逆 QFT",
+  circuitCollapseQft: "折叠逆 QFT",
+  circuitDownloadQasm: (version: number) => `下载 .qasm（OpenQASM ${version}）`,
+  circuitQasmTooLarge: (max: string) => `OpenQASM 导出仅适用于 N ≤ ${max}：其乘法门的规模随 N 增长。`,
+  dlogTitle: "用 Shor 算法求离散对数",
+  dlogDescription: "Shor 的论文除了因数分解，还解决了离散对数问题。给定素数 p、底数 g 和 g 的某个幂 h，该算法求出满足 g^x ≡ h (mod p) 的 x。这会攻破 Diffie–Hellman 密钥交换，正如因数分解会攻破 RSA。",
+  dlogPrime: "素数 p",
+  dlogBase: "底数 g",
+  dlogTarget: "目标 h",
+  dlogStart: "求 x",
+  dlogHint: (max: string) => `p 必须是小于 ${max} 的素数。g 的阶通过经典方法计算；阶不超过 128 时用态矢量模拟，更大时使用经典预言机。`,
+  dlogErrorPrime: (max: string) => `请输入 3 到 ${max} 之间的素数 p。`,
+  dlogErrorBase: (p: string) => `底数 g 必须在 [2, ${p} - 1] 范围内。`,
+  dlogErrorTarget: (p: string) => `目标 h 必须在 [1, ${p} - 1] 范围内。`,
+  dlogErrorNotInGroup: (h: string, g: string, p: string) => `在模 ${p} 下，${h} 不是 ${g} 的幂，因此不存在 x。请选择一个生成元 g，或以 g 的幂作为 h。`,
+  dlogErrorZeroMeasurement: "第一个寄存器测得 c1 ≡ 0 (mod r)，不含关于 x 的任何信息。需要重新测量。",
+  dlogErrorAmbiguous: (divisor: string) => `gcd(c1, r) = ${divisor}，x 的候选值过多。需要重新测量。`,
+  dlogErrorUnverified: "没有候选值满足 g^x ≡ h (mod p)。需要重新测量。",
+  dlogAttemptTarget: (g: string, h: string, p: string) => `(${g}^x ≡ ${h} mod ${p})`,
+  dlogStep1Title: "g 的阶",
+  dlogStep1Description: (g: string, p: string) => `Shor 算法需要知道 g 的阶 r，即每个计数寄存器的大小。对于模 ${p} 下的 g = ${g}：`,
+  dlogStep2Title: "双寄存器周期查找",
+  dlogStep2Description: "函数 f(a, b) = g^a·h^(-b) mod p 具有周期 (x, 1)：f(a + x, b + 1) = f(a, b)。将 f 计算到工作寄存器后，对每个计数寄存器做 Z_r 上的傅里叶变换，振幅会集中在满足 c2 ≡ -x·c1 (mod r) 的数对上。",
+  dlogStep2Register: (r: string, qubits: number) => `每个计数寄存器用 ${qubits} 个量子比特存放 Z_r 的 ${r} 个值。`,
+  dlogStep2Measurement: (c1: string, c2: string, work: string) => `测得 c1 = ${c1}，c2 = ${c2}；工作寄存器的值为 ${work}。`,
+  dlogStep3Title: "恢复 x",
+  dlogStep3Description: "测量结果满足 c1·x ≡ -c2 (mod r)。两边除以 d = gcd(c1, r) 后，可以确定 x 模 r/d 的值：",
+  dlogStep3Candidates: (count: number) => `x 在 [0, r) 中有 ${count} 个候选值：`,
+  dlogStep4Title: "验证",
+  dlogStep4Description: "通过计算 g^x mod p 检验每个候选值：",
+  dlogSuccess: "找到离散对数！",
+  dlogFound: (g: string, x: string, h: string, p: string) => `${g}^${x} ≡ ${h} (mod ${p})`,
+  dlogCircuitSummary: (qubits: number, work: number, order: string) =>
+    `2 × ${qubits} 个计数量子比特表示 Z_${order}，${work} 个工作量子比特。F_r 制备 Z_r 上的均匀叠加态，F_r† 是 Z_r 上的逆傅里叶变换。`,
+  dlogCircuitMultiplyTitle: (register: string, exponent: string, multiplier: string) => `由 ${register} 控制：将工作寄存器乘以 ${multiplier}（${exponent} 次幂）`,
+  dlogFailed: "没有任何尝试找到离散对数。",
+  rsaTitle: "破解玩具 RSA 密钥",
+  rsaDescription: "RSA 之所以能保密，是因为只有知道公开模数 N 的因子才能算出私钥。生成一对小密钥并加密一条消息，然后用 Shor 算法破解密钥：分解 N、推导私钥指数并解密。",
+  rsaPrimeBits: "每个素数的位数",
+  rsaMessage: "消息",
+  rsaGenerate: "生成密钥并加密",
+  rsaErrorBits: (min: number, max: number) => `素数的位数必须在 ${min} 到 ${max} 之间。`,
+  rsaErrorMessage: (max: number) => `请输入 1 到 ${max} 个字符的消息。`,
+  rsaPending: "等待中",
+  rsaKeyTitle: "密钥生成",
+  rsaKeyDescription: "两个随机素数 p 和 q 相乘得到模数 N = p·q。公开指数 e 与 φ(N) = (p - 1)(q - 1) 互素，私钥指数 d 是它模 φ(N) 的逆元。只有 N 和 e 是公开的。",
+  rsaPublicKey: "公钥：",
+  rsaPrivateKey: "私钥：",
+  rsaSecret: "保密",
+  rsaEncryptTitle: "加密",
+  rsaEncryptDescription: (bytes: number) =>
+    `消息的 UTF-8 字节被切分为每块 ${bytes} 个字节，使每个块 m 都是小于 N 的数，然后用公钥分别加密每个块。`,
+  rsaPlaintextBlock: "明文 m",
+  rsaCiphertextBlock: "密文 c",
+  rsaFactorTitle: "分解模数",
+  rsaFactorDescription: (n: string) => `只看到公钥的攻击者对 N = ${n} 运行 Shor 算法。`,
+  rsaBreak: "用 Shor 算法破解密钥",
+  rsaBreakFailed: "没有任何尝试分解出 N。请重试；每次运行都会选取新的基数。",
+  rsaPrivateTitle: "推导私钥",
+  rsaPrivateDescription: "知道 p 和 q 后，立即可以得到 φ(N)，再用扩展欧几里得算法求出 e 模 φ(N) 的逆元，即私钥指数 d。",
+  rsaDecryptTitle: "解密",
+  rsaDecrypted: "恢复的消息",
+  classicalTitle: "经典算法对照",
+  classicalDescription: "在同一个 N 上运行经典分解算法，并将其工作量与 Shor 算法比较。每个算法都会统计基本运算次数：除法、模乘、最大公约数、筛法更新和行加法。",
+  classicalRun: (n: string) => `对 ${n} 运行经典算法`,
+  classicalRunning: "运行中...",
+  classicalAlgorithmNames: {
+    'trial-division': "试除法",
+    'pollard-rho': "Pollard rho 算法",
+    'pollard-p-minus-1': "Pollard p − 1 算法",
+    'quadratic-sieve': "二次筛法",
+  },
+  classicalTableAlgorithm: "算法",
+  classicalTableFactor: "找到的因子",
+  classicalTableOperations: "运算次数",
+  classicalTableTime: "用时",
+  classicalNoFactor: "未找到因子",
+  classicalBudgetExhausted: "运算预算已用完",
+  classicalShorRow: "Shor 算法",
+  classicalShorSummary: (attempts: number, qubits: number, toffoli: string) =>
+    `${attempts} 次尝试 · 每次约需 ${qubits} 个逻辑量子比特和 ${toffoli} 个 Toffoli 门（Gidney–Ekerå）`,
+  classicalFootnote: (budget: string) =>
+    `每个算法在 ${budget} 次运算后停止。只有当 N 的某个素因子 p 使 p − 1 足够光滑时，Pollard p − 1 算法才会成功；用时是在本浏览器主线程上测得的。`,
+  inspectorTitle: "寄存器振幅检查器",
+  inspectorDescription: "上方电路每个阶段之后两个寄存器的联合态，以态矢量方式模拟。每一行是一个基态 |x⟩|y⟩，左边是第一寄存器，右边是第二寄存器。在每个相位轮中，圆盘随振幅大小增长，指针表示其相位。",
+  inspectorTooLarge: (max: number) => `检查器仅列出第一寄存器不超过 ${max} 个量子比特时的量子态。`,
+  inspectorStages: {
+    initial: "初始化",
+    prepare: "Hadamard 门之后",
+    'modular-exponentiation': "模幂运算之后",
+    'inverse-qft': "逆 QFT 之后",
+    measure: "测量第二寄存器之后",
+  },
+  inspectorStageDescriptions: {
+    initial: "每个量子比特都从 |0⟩ 开始，因此量子态是单一基态 |0⟩|0⟩。",
+    prepare: "Hadamard 门使第一寄存器处于全部 q 个值的等权叠加，X 门将第二寄存器置为 1。每个振幅都是 1/√q，相位为 0。",
+    'modular-exponentiation': "受控乘法将 a^x mod N 写入第二寄存器。振幅没有改变，但两个寄存器已经纠缠：各行按第二寄存器的值分组，同一组内 x 的间隔正是周期 r。",
+    'inverse-qft': "逆 QFT 在每一组内作用于第一寄存器。干涉抵消了大多数 c 值，并把振幅集中在 q/r 的倍数附近；各组之间只有相位不同。",
+    measure: "测量第二寄存器只保留一组并重新归一化。第一寄存器的峰值位于 q/r 的倍数附近，电路最后的测量就是从中采样。请在下方选择测得的值。",
+  },
+  inspectorMeasured: "第二寄存器的测量结果：",
+  inspectorOutcome: (y: number, probability: string) => `y = ${y}（${probability}）`,
+  inspectorBranch: (y: number, probability: string) => `第二寄存器 y = ${y}，总概率 ${probability}`,
+  inspectorTruncated: (shown: number, total: number) => `显示 ${total} 个基态中概率最大的 ${shown} 个。`,
+  inspectorTableState: "基态",
+  inspectorTableAmplitude: "振幅",
+  inspectorTablePhase: "相位",
+  inspectorTableProbability: "概率",
+  inspectorTableWheel: "相位轮",
+  resourceTitle: "容错量子计算机上的资源估算",
+  resourceDescription: "针对几种已发表的模幂构造，估算真正运行 Shor 算法所需的资源。逻辑资源是关于位长 n 的主阶公式；物理资源假设使用表面码。",
+  resourceBits: "位长 n",
+  resourceCurrentN: (n: string) => `N = ${n}`,
+  resourceErrorRate: "物理错误率",
+  resourceCycleTime: "表面码周期时间（μs）",
+  resourceInvalid: (max: number) => `请输入 2 到 ${max} 之间的位长、0 到 1 之间的错误率以及正的周期时间。`,
+  resourceConstructionNames: {
+    'beauregard': "Beauregard 2003（2n+3 个量子比特）",
+    'vedral': "Vedral–Barenco–Ekert 1996",
+    'haner': "Häner–Roetteler–Svore 2017（2n+2 个量子比特）",
+    'gidney-ekera': "Gidney–Ekerå 2019（窗口化算术）",
+  },
+  resourceTableConstruction: "构造",
+  resourceTableLogicalQubits: "逻辑量子比特",
+  resourceTableToffoli: "Toffoli 门",
+  resourceTableDepth: "深度",
+  resourceTableDistance: "码距",
+  resourceTablePhysicalQubits: "物理量子比特",
+  resourceTableRuntime: "运行时间",
+  resourceFactories: (factories: number) => `包括 ${factories} 个魔态工厂`,
+  resourceNoDistance: "错误率过高，表面码无法纠正",
+  resourceUnits: {
+    years: "年",
+    days: "天",
+    hours: "小时",
+    minutes: "分钟",
+    seconds: "秒",
+    milliseconds: "毫秒",
+    microseconds: "微秒",
+  },
+  resourceAssumptions: (bits: number) =>
+    `n = ${bits} 位。指数寄存器通过半经典 QFT 复用，T 门按半个 Toffoli 计算，深度为非 Clifford 门的顺序层数。每层需要 d 个码周期；d 是在每个量子比特每个周期的逻辑错误率为 0.1·(p/0.01)^((d+1)/2) 时，使总失败概率低于 1% 的最小码距。每个逻辑量子比特使用 2(d+1)² 个物理量子比特，CCZ 工厂为每个 Toffoli 门提供一个魔态。公式参考 Gidney 和 Ekerå（2019）。`,
 
   // Continued Fraction Table
   tableHeaderConvergent: "收敛项",
@@ -158,6 +858,22 @@ const zh: typeof en = {
   tableHintCandidate: "此分母是周期 'r' 的最佳候选值",
   tableBestCandidate: "最佳周期候选值",
 
+  // Period Recovery
+  recoveryTitle: "周期恢复",
+  recoveryDescription: "每个候选值都会用函数本身进行检验：真正的周期满足 a^r ≡ 1 (mod N)。",
+  recoveryMeasurements: "该基数的测量结果：",
+  recoveryShot: (shot: number, c: string, d: string) => `#${shot}：c = ${c}，分母 = ${d}`,
+  recoveryNoDenominator: "无",
+  recoveryLcm: "各分母的最小公倍数",
+  recoveryHeaderCandidate: "候选 r",
+  recoveryHeaderSource: "来源",
+  recoveryHeaderShot: "测量",
+  recoverySources: {
+    convergent: "收敛项分母",
+    multiple: "分母的倍数",
+    lcm: "多次测量的最小公倍数",
+  },
+
   // Common UI Elements
   explainButtonLabel: "获取解释",
   modalClose: "关闭",
@@ -173,8 +889,12 @@ export const explanationTitles: Record<'en' | 'zh', Record<ExplanationTopic, str
     [ExplanationTopic.QuantumPeriodFinding]: "Quantum Period Finding",
     [ExplanationTopic.QuantumCircuit]: "The Quantum Circuit",
     [ExplanationTopic.ContinuedFractions]: "Continued Fractions",
+    [ExplanationTopic.PeriodRecovery]: "Period Recovery",
     [ExplanationTopic.PeriodVerification]: "Period Verification",
     [ExplanationTopic.FinalFactorCalculation]: "Final Factor Calculation",
+    [ExplanationTopic.DiscreteLogIntro]: "Shor's Discrete Logarithm Algorithm",
+    [ExplanationTopic.DiscreteLogCircuit]: "The Discrete Logarithm Circuit",
+    [ExplanationTopic.DiscreteLogRecovery]: "Recovering the Logarithm",
   },
   zh: {
     [ExplanationTopic.ShorIntro]: "Shor算法简介",
@@ -182,29 +902,41 @@ export const explanationTitles: Record<'en' | 'zh', Record<ExplanationTopic, str
     [ExplanationTopic.QuantumPeriodFinding]: "量子周期查找",
     [ExplanationTopic.QuantumCircuit]: "量子电路",
     [ExplanationTopic.ContinuedFractions]: "连分数",
+    [ExplanationTopic.PeriodRecovery]: "周期恢复",
     [ExplanationTopic.PeriodVerification]: "周期验证",
     [ExplanationTopic.FinalFactorCalculation]: "最终因子计算",
+    [ExplanationTopic.DiscreteLogIntro]: "Shor 离散对数算法",
+    [ExplanationTopic.DiscreteLogCircuit]: "离散对数电路",
+    [ExplanationTopic.DiscreteLogRecovery]: "恢复对数",
   }
 };
 
 
 export const explanationContent: Record<'en' | 'zh', Record<ExplanationTopic, string>> = {
   en: {
-    [ExplanationTopic.ShorIntro]: "Shor's algorithm is a quantum algorithm for integer factorization. Developed by Peter Shor in 1994, it's significant because it can factor large numbers exponentially faster than the best-known classical algorithms. This ability poses a threat to modern cryptography, which relies on the difficulty of factoring.\n\nThe algorithm cleverly combines classical steps with a quantum core. The main steps are:\n1. Choose a random number 'a'.\n2. Use a quantum computer to find the period 'r' of the function $f(x) = a^x \\pmod{N}$.\n3. Use the period 'r' in a classical calculation to find the factors of N.",
+    [ExplanationTopic.ShorIntro]: "Shor's algorithm is a quantum algorithm for integer factorization. Developed by Peter Shor in 1994, it's significant because it can factor large numbers exponentially faster than the best-known classical algorithms. This ability poses a threat to modern cryptography, which relies on the difficulty of factoring.\n\nThe algorithm cleverly combines classical steps with a quantum core. The main steps are:\n1. Choose a random number 'a'.\n2. Use a quantum computer to find the period 'r' of the function $f(x) = a^x \\pmod{N}$.\n3. Use the period 'r' in a classical calculation to find the factors of N.\n\nThe RSA mode shows the threat on a toy key: once the public modulus is factored, the private key follows from a modular inverse and the message can be decrypted.",
     [ExplanationTopic.CoprimeSelection]: "The first classical step is to pick a random integer 'a' such that $1 < a < N$. We then compute the greatest common divisor (GCD) of 'a' and 'N', written as $gcd(a, N)$.\n\nIf $gcd(a, N) > 1$, we have luckily found a non-trivial factor of N, and the algorithm terminates. If $gcd(a, N) = 1$, 'a' and 'N' are co-prime, and we proceed to the quantum part of the algorithm. This check is necessary because the subsequent steps rely on 'a' being co-prime with N to form a valid periodic function.",
-    [ExplanationTopic.QuantumPeriodFinding]: "This is the heart of Shor's algorithm. We need to find the period 'r' of the function $$f(x) = a^x \\pmod{N}$$ The period 'r' is the smallest positive integer such that $a^r \\equiv 1 \\pmod{N}$.\n\nWhile finding 'r' is extremely hard for classical computers, a quantum computer can do it efficiently using the Quantum Fourier Transform (QFT). The quantum circuit prepares a superposition of states, computes $f(x)$ for all of them simultaneously, and then uses the QFT to transform the state, making the period 'r' likely to be revealed upon measurement.",
-    [ExplanationTopic.QuantumCircuit]: "The simplified circuit consists of two registers of qubits. The first register (t-qubits) is initialized to a superposition of all possible input values using Hadamard (H) gates. The second register (n-qubits) is for storing the output of the function.\n\nA controlled-Uf gate then computes $f(x) = a^x \\pmod{N}$, entangling the two registers. Finally, an inverse Quantum Fourier Transform (QFT⁻¹) is applied to the first register. This transformation concentrates the probability amplitude on states related to the period 'r'. Measuring this first register gives a value from which 'r' can be deduced.",
+    [ExplanationTopic.QuantumPeriodFinding]: "This is the heart of Shor's algorithm. We need to find the period 'r' of the function $$f(x) = a^x \\pmod{N}$$ The period 'r' is the smallest positive integer such that $a^r \\equiv 1 \\pmod{N}$.\n\nWhile finding 'r' is extremely hard for classical computers, a quantum computer can do it efficiently using the Quantum Fourier Transform (QFT). The quantum circuit prepares a superposition of states, computes $f(x)$ for all of them simultaneously, and then uses the QFT to transform the state, making the period 'r' likely to be revealed upon measurement.\n\nFor small N, the register amplitude inspector below the circuit diagram shows this state after every stage, from the uniform superposition to the peaks near multiples of $q/r$.",
+    [ExplanationTopic.QuantumCircuit]: "The circuit consists of two registers of qubits. The first register (t counting qubits) is initialized to a superposition of all possible input values using Hadamard (H) gates. The second register (the work qubits) starts in the state |1⟩ and stores the output of the function.\n\nCounting qubit j controls the block $U^{2^j}$, which multiplies the work register by $a^{2^j} \\pmod{N}$. Together these blocks compute $f(x) = a^x \\pmod{N}$, entangling the two registers. Finally, an inverse Quantum Fourier Transform (QFT⁻¹), made of Hadamards, controlled phase rotations and swaps, is applied to the first register. This transformation concentrates the probability amplitude on states related to the period 'r'. Measuring this first register gives a value from which 'r' can be deduced.",
     [ExplanationTopic.ContinuedFractions]: "The quantum measurement doesn't directly give us the period 'r'. Instead, it gives an integer 'c' which is a good approximation of a random multiple of $q/r$, where 'q' is the size of the first quantum register ($q = 2^t$). So, we have the approximation $$\\frac{c}{q} \\approx \\frac{s}{r}$$ for some unknown integer 's'.\n\nThe Continued Fractions algorithm is a classical method to find the best rational approximations for a given value. By applying it to $c/q$, we can efficiently recover the fraction $s/r$ and extract the denominator, which is our candidate for the period 'r'.",
+    [ExplanationTopic.PeriodRecovery]: "The continued fraction expansion of $c/q$ recovers a fraction $s/r$ in lowest terms. If the unknown integer 's' shares a factor with 'r', the denominator is only a divisor of the period, so the last convergent is not always 'r'.\n\nFor this reason every candidate is checked against the function itself: a true period satisfies $$a^r \\equiv 1 \\pmod{N}$$ If no convergent denominator passes, small multiples of the last denominator are tried, since $r = k \\cdot r'$ for a small factor $k = gcd(s, r)$.\n\nReal implementations also repeat the measurement. Each measurement yields a divisor of 'r', and the least common multiple of these denominators quickly reaches the period itself.",
     [ExplanationTopic.PeriodVerification]: "After the continued fractions step gives us a candidate period 'r', we must perform two classical checks.\n\nFirst, we check if 'r' is odd. If it is, the method fails for this 'a', and we must restart with a new one.\n\nSecond, if 'r' is even, we compute $a^{r/2} \\pmod{N}$. If this result is congruent to $-1 \\pmod{N}$ (or $N-1$), it leads to trivial factors (1 and N). This is also a failure case, requiring a restart. If 'r' is even and the second check passes, we have found a valid period and can proceed to the final step.",
     [ExplanationTopic.FinalFactorCalculation]: "Once a valid period 'r' is found (it's even and doesn't produce a trivial result), we know that $a^r \\equiv 1 \\pmod{N}$. This can be rewritten as $(a^{r/2} - 1)(a^{r/2} + 1) \\equiv 0 \\pmod{N}$.\n\nThis means that N must share a factor with either $(a^{r/2} - 1)$ or $(a^{r/2} + 1)$. We can find these factors by computing the greatest common divisor (GCD) with N:\n\n$$p = gcd(a^{r/2} - 1, N)$$\n$$q = gcd(a^{r/2} + 1, N)$$\n\nThese values, p and q, are the non-trivial factors of N.",
+    [ExplanationTopic.DiscreteLogIntro]: "Besides factoring, Shor's 1994 paper solves the discrete logarithm problem: given a prime p, a base g and an element $h = g^x \\bmod p$, find the exponent x. The security of Diffie–Hellman key exchange, DSA and, in its elliptic-curve form, most of today's public-key cryptography rests on this problem being hard.\n\nThe algorithm follows the same pattern as factoring. The order r of g is assumed to be known (for a generator it is p - 1). The function $$f(a, b) = g^a h^{-b} \\bmod p$$ is periodic in two dimensions: since $h = g^x$, $f(a + x, b + 1) = f(a, b)$. A quantum computer evaluates f on a superposition of all pairs (a, b), and a Fourier transform reveals a random pair $(c_1, c_2)$ orthogonal to the period, from which x is computed classically.",
+    [ExplanationTopic.DiscreteLogCircuit]: "The circuit has two counting registers, each large enough to hold the values $0, \\ldots, r - 1$, and a work register initialised to $|1\\rangle$. The gate $F_r$ puts each counting register into an equal superposition of $\\mathbb{Z}_r$.\n\nQubit j of the first register controls a multiplication of the work register by $g^{2^j} \\bmod p$, and qubit j of the second register a multiplication by $h^{-2^j} \\bmod p$. Together they compute $$|a\\rangle|b\\rangle|1\\rangle \\mapsto |a\\rangle|b\\rangle|g^a h^{-b} \\bmod p\\rangle$$\n\nMeasuring the work register leaves the r pairs $(a, b)$ with $a - xb \\equiv k \\pmod{r}$ for some k. The inverse Fourier transform $F_r^\\dagger$ on each counting register turns this line into the outcomes $(c_1, c_2)$ with $c_2 \\equiv -x c_1 \\pmod{r}$, each with probability 1/r.",
+    [ExplanationTopic.DiscreteLogRecovery]: "The measured pair satisfies $$c_1 x \\equiv -c_2 \\pmod{r}$$ If $\\gcd(c_1, r) = 1$, $c_1$ has an inverse modulo r and $x = -c_2 c_1^{-1} \\bmod r$ directly.\n\nOtherwise, with $d = \\gcd(c_1, r)$, the congruence only determines x modulo $r/d$: dividing by d gives $x \\equiv (-c_2/d)(c_1/d)^{-1} \\pmod{r/d}$, and the d numbers $x_0, x_0 + r/d, \\ldots$ below r are all candidates. Each one is verified by computing $g^x \\bmod p$ and comparing it with h. If $c_1 = 0$ the measurement carries no information, and a new one is taken. Since $c_1$ is uniform, the probability that it is co-prime with r is $\\varphi(r)/r$, so few attempts are needed.",
   },
   zh: {
-    [ExplanationTopic.ShorIntro]: "Shor算法是一种用于整数因式分解的量子算法。它由彼得·秀尔于1994年提出，其重要性在于它能以指数级速度比最知名的经典算法更快地分解大数。这种能力对依赖于因式分解难度的现代密码学构成了威胁。\n\n该算法巧妙地将经典步骤与量子核心相结合。主要步骤如下：\n1. 选择一个随机数 'a'。\n2. 使用量子计算机找到函数 $f(x) = a^x \\pmod{N}$ 的周期 'r'。\n3. 使用周期 'r' 进行经典计算，找出 N 的因子。",
+    [ExplanationTopic.ShorIntro]: "Shor算法是一种用于整数因式分解的量子算法。它由彼得·秀尔于1994年提出，其重要性在于它能以指数级速度比最知名的经典算法更快地分解大数。这种能力对依赖于因式分解难度的现代密码学构成了威胁。\n\n该算法巧妙地将经典步骤与量子核心相结合。主要步骤如下：\n1. 选择一个随机数 'a'。\n2. 使用量子计算机找到函数 $f(x) = a^x \\pmod{N}$ 的周期 'r'。\n3. 使用周期 'r' 进行经典计算，找出 N 的因子。\n\nRSA 模式在一个玩具密钥上演示了这种威胁：一旦分解了公开模数，就可以通过模逆元求出私钥并解密消息。",
     [ExplanationTopic.CoprimeSelection]: "第一个经典步骤是选择一个随机整数 'a'，使得 $1 < a < N$。然后我们计算 'a' 和 'N' 的最大公约数 (GCD)，记为 $gcd(a, N)$。\n\n如果 $gcd(a, N) > 1$，我们就幸运地找到了 N 的一个非平凡因子，算法终止。如果 $gcd(a, N) = 1$，'a' 和 'N' 是互质的，我们继续进行算法的量子部分。这个检查是必要的，因为后续步骤依赖于 'a' 与 N 互质来形成一个有效的周期函数。",
-    [ExplanationTopic.QuantumPeriodFinding]: "这是Shor算法的核心。我们需要找到函数 $$f(x) = a^x \\pmod{N}$$ 的周期 'r'。周期 'r' 是满足 $a^r \\equiv 1 \\pmod{N}$ 的最小正整数。\n\n对于经典计算机来说，找到 'r' 是极其困难的，但量子计算机可以使用量子傅里叶变换 (QFT) 高效地完成。量子电路准备一个状态的叠加态，同时为所有状态计算 $f(x)$，然后使用 QFT 变换该状态，使得周期 'r' 在测量时很可能被揭示出来。",
-    [ExplanationTopic.QuantumCircuit]: "简化的电路由两个量子比特寄存器组成。第一个寄存器 (t-qubits) 使用哈达玛 (H) 门初始化为所有可能输入值的叠加态。第二个寄存器 (n-qubits) 用于存储函数的输出。\n\n一个受控 Uf 门然后计算 $f(x) = a^x \\pmod{N}$，使两个寄存器纠缠在一起。最后，对第一个寄存器应用逆量子傅里叶变换 (QFT⁻¹)。这种变换将概率幅度集中在与周期 'r' 相关的状态上。测量第一个寄存器会得到一个值，从中可以推断出 'r'。",
+    [ExplanationTopic.QuantumPeriodFinding]: "这是Shor算法的核心。我们需要找到函数 $$f(x) = a^x \\pmod{N}$$ 的周期 'r'。周期 'r' 是满足 $a^r \\equiv 1 \\pmod{N}$ 的最小正整数。\n\n对于经典计算机来说，找到 'r' 是极其困难的，但量子计算机可以使用量子傅里叶变换 (QFT) 高效地完成。量子电路准备一个状态的叠加态，同时为所有状态计算 $f(x)$，然后使用 QFT 变换该状态，使得周期 'r' 在测量时很可能被揭示出来。\n\n对于较小的 N，电路图下方的寄存器振幅检查器会展示每个阶段之后的量子态，从等权叠加一直到 $q/r$ 倍数附近的峰值。",
+    [ExplanationTopic.QuantumCircuit]: "该电路由两个量子比特寄存器组成。第一个寄存器（t 个计数量子比特）使用哈达玛 (H) 门初始化为所有可能输入值的叠加态。第二个寄存器（工作量子比特）从 |1⟩ 态开始，用于存储函数的输出。\n\n第 j 个计数量子比特控制 $U^{2^j}$ 模块，它将工作寄存器乘以 $a^{2^j} \\pmod{N}$。这些模块共同计算 $f(x) = a^x \\pmod{N}$，使两个寄存器纠缠在一起。最后，对第一个寄存器应用由哈达玛门、受控相位旋转和交换门组成的逆量子傅里叶变换 (QFT⁻¹)。这种变换将概率幅度集中在与周期 'r' 相关的状态上。测量第一个寄存器会得到一个值，从中可以推断出 'r'。",
     [ExplanationTopic.ContinuedFractions]: "量子测量并不能直接给出周期 'r'。相反，它给出一个整数 'c'，这个 'c' 是 $q/r$ 的某个随机倍数的良好近似值，其中 'q' 是第一个量子寄存器的大小 ($q = 2^t$)。因此，我们有近似关系 $$\\frac{c}{q} \\approx \\frac{s}{r}$$ 对于某个未知的整数 's'。\n\n连分数算法是一种经典的数学方法，用于寻找给定值的最佳有理数近似。通过将其应用于 $c/q$，我们可以高效地恢复分数 $s/r$ 并提取分母，分母就是我们周期 'r' 的候选值。",
+    [ExplanationTopic.PeriodRecovery]: "对 $c/q$ 进行连分数展开，可以得到最简分数 $s/r$。如果未知整数 's' 与 'r' 有公因子，得到的分母只是周期的一个因子，因此最后一个收敛项的分母并不总是 'r'。\n\n因此，每个候选值都会用函数本身进行检验：真正的周期满足 $$a^r \\equiv 1 \\pmod{N}$$ 如果没有收敛项分母通过检验，就尝试最后一个分母的小倍数，因为 $r = k \\cdot r'$，其中 $k = gcd(s, r)$ 通常很小。\n\n实际的实现还会重复测量。每次测量都给出 'r' 的一个因子，这些分母的最小公倍数很快就会达到周期本身。",
     [ExplanationTopic.PeriodVerification]: "在连分数步骤为我们提供了一个候选周期 'r' 之后，我们必须执行两次经典检查。\n\n首先，我们检查 'r' 是否为奇数。如果是，则该方法对当前的 'a' 失败，我们必须用一个新的 'a' 重新开始。\n\n其次，如果 'r' 是偶数，我们计算 $a^{r/2} \\pmod{N}$。如果结果与 $-1 \\pmod{N}$ (或 $N-1$) 同余，它会导致平凡因子 (1 和 N)。这也是一个失败情况，需要重新开始。如果 'r' 是偶数且第二次检查通过，我们就找到了一个有效的周期，可以进入最后一步。",
     [ExplanationTopic.FinalFactorCalculation]: "一旦找到一个有效的周期 'r' (它是偶数且不会产生平凡结果)，我们就知道 $a^r \\equiv 1 \\pmod{N}$。这可以改写为 $(a^{r/2} - 1)(a^{r/2} + 1) \\equiv 0 \\pmod{N}$。\n\n这意味着 N 必须与 $(a^{r/2} - 1)$ 或 $(a^{r/2} + 1)$ 共享一个因子。我们可以通过计算与 N 的最大公约数 (GCD) 来找到这些因子：\n\n$$p = gcd(a^{r/2} - 1, N)$$\n$$q = gcd(a^{r/2} + 1, N)$$\n\n这些值 p 和 q 就是 N 的非平凡因子。",
+    [ExplanationTopic.DiscreteLogIntro]: "除了因数分解，Shor 1994 年的论文还解决了离散对数问题：给定素数 p、底数 g 和元素 $h = g^x \\bmod p$，求指数 x。Diffie–Hellman 密钥交换、DSA 以及（以椭圆曲线形式）当今大多数公钥密码的安全性都依赖于这个问题的困难性。\n\n该算法与因数分解的模式相同。假设 g 的阶 r 已知（对于生成元，r = p - 1）。函数 $$f(a, b) = g^a h^{-b} \\bmod p$$ 在二维上是周期的：由于 $h = g^x$，有 $f(a + x, b + 1) = f(a, b)$。量子计算机在所有数对 (a, b) 的叠加态上计算 f，再通过傅里叶变换得到一个与周期正交的随机数对 $(c_1, c_2)$，然后用经典方法由它算出 x。",
+    [ExplanationTopic.DiscreteLogCircuit]: "电路有两个计数寄存器，每个都足以存放 $0, \\ldots, r - 1$，还有一个初始化为 $|1\\rangle$ 的工作寄存器。门 $F_r$ 将每个计数寄存器制备为 $\\mathbb{Z}_r$ 上的均匀叠加态。\n\n第一个寄存器的第 j 个量子比特控制工作寄存器乘以 $g^{2^j} \\bmod p$，第二个寄存器的第 j 个量子比特控制乘以 $h^{-2^j} \\bmod p$。它们共同计算 $$|a\\rangle|b\\rangle|1\\rangle \\mapsto |a\\rangle|b\\rangle|g^a h^{-b} \\bmod p\\rangle$$\n\n测量工作寄存器后，剩下满足 $a - xb \\equiv k \\pmod{r}$ 的 r 个数对 $(a, b)$。对每个计数寄存器做逆傅里叶变换 $F_r^\\dagger$，会把这条直线变成满足 $c_2 \\equiv -x c_1 \\pmod{r}$ 的测量结果 $(c_1, c_2)$，每个的概率为 1/r。",
+    [ExplanationTopic.DiscreteLogRecovery]: "测得的数对满足 $$c_1 x \\equiv -c_2 \\pmod{r}$$ 如果 $\\gcd(c_1, r) = 1$，则 $c_1$ 模 r 可逆，直接得到 $x = -c_2 c_1^{-1} \\bmod r$。\n\n否则，设 $d = \\gcd(c_1, r)$，同余式只能确定 x 模 $r/d$ 的值：两边除以 d 得 $x \\equiv (-c_2/d)(c_1/d)^{-1} \\pmod{r/d}$，小于 r 的 d 个数 $x_0, x_0 + r/d, \\ldots$ 都是候选值。通过计算 $g^x \\bmod p$ 并与 h 比较来验证每个候选值。如果 $c_1 = 0$，测量不含任何信息，需要重新测量。由于 $c_1$ 是均匀分布的，它与 r 互素的概率为 $\\varphi(r)/r$，因此只需少量尝试。",
   }
 };
\ No newline at end of file
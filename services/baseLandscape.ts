@@ -0,0 +1,91 @@
+/**
+ * @file baseLandscape.ts
+ * This file contains the exhaustive analysis of every base 'a' for a small N:
+ * which bases share a factor with N, which have an odd order or a trivial square
+ * root, and which are good bases that split N. It shows classically what the
+ * random choice of 'a' in step 1 of Shor's algorithm is drawing from.
+ */
+
+import { BaseAnalysis, BaseLandscapeSummary, BaseVerdict } from '../types';
+import { gcd, power } from './shor';
+import { multiplicativeOrder } from './order';
+
+/** The largest N whose bases are analysed; every base needs an order computation. */
+export const MAX_LANDSCAPE_N = 2048n;
+
+/**
+ * Analyses a single base.
+ * @param a The base, in [2, N-1].
+ * @param N The number being factored.
+ * @returns The analysis of the base.
+ */
+function analyzeBase(a: bigint, N: bigint): BaseAnalysis {
+  const divisor = gcd(a, N);
+  if (divisor > 1n) {
+    return { a, gcd: divisor, order: null, verdict: 'shared-factor', factor: divisor };
+  }
+
+  const order = multiplicativeOrder(a, N);
+  if (order % 2n !== 0n) {
+    return { a, gcd: divisor, order, verdict: 'odd-order', factor: null };
+  }
+  const term = power(a, order / 2n, N);
+  if (term === N - 1n) {
+    return { a, gcd: divisor, order, verdict: 'trivial-root', factor: null };
+  }
+  // a^(r/2) is a non-trivial square root of 1, so both gcds are proper factors.
+  return { a, gcd: divisor, order, verdict: 'good', factor: gcd(term - 1n, N) };
+}
+
+/**
+ * Analyses every base 'a' in [2, N-1].
+ * @param N The number being factored, at most `MAX_LANDSCAPE_N`.
+ * @returns The analysis of each base, in ascending order of 'a'.
+ */
+export function analyzeBases(N: bigint): BaseAnalysis[] {
+  if (N > MAX_LANDSCAPE_N) {
+    throw new Error(`The base landscape is limited to N <= ${MAX_LANDSCAPE_N}.`);
+  }
+  const analyses: BaseAnalysis[] = [];
+  for (let a = 2n; a < N; a++) {
+    analyses.push(analyzeBase(a, N));
+  }
+  return analyses;
+}
+
+/**
+ * Counts the distinct prime factors of a small number by trial division.
+ * @param n The number.
+ * @returns The number of distinct primes dividing n.
+ */
+function countDistinctPrimes(n: bigint): number {
+  let count = 0;
+  for (let p = 2n; p * p <= n; p++) {
+    if (n % p === 0n) {
+      count++;
+      while (n % p === 0n) n /= p;
+    }
+  }
+  return n > 1n ? count + 1 : count;
+}
+
+/**
+ * Summarises the analysis of every base and compares the share of good bases
+ * with the theoretical lower bound 1 - 1/2^(k-1) for a random co-prime base.
+ * @param N The number being factored.
+ * @param analyses The analysis of every base, from `analyzeBases`.
+ * @returns The summary.
+ */
+export function summarizeBases(N: bigint, analyses: BaseAnalysis[]): BaseLandscapeSummary {
+  const counts: Record<BaseVerdict, number> = { 'shared-factor': 0, 'odd-order': 0, 'trivial-root': 0, good: 0 };
+  for (const analysis of analyses) counts[analysis.verdict]++;
+  const coprime = analyses.length - counts['shared-factor'];
+  const distinctPrimes = countDistinctPrimes(N);
+  return {
+    counts,
+    coprime,
+    goodFraction: coprime > 0 ? counts.good / coprime : 0,
+    distinctPrimes,
+    theoreticalBound: distinctPrimes > 1 ? 1 - 1 / 2 ** (distinctPrimes - 1) : 0,
+  };
+}
@@ -0,0 +1,158 @@
+/**
+ * @file circuit.ts
+ * This file builds the gate-level period-finding circuit of Shor's algorithm:
+ * Hadamards on the counting register, the controlled multiplications U^(2^j)
+ * with their actual multipliers a^(2^j) mod N, an inverse Quantum Fourier
+ * Transform made of Hadamards, controlled phase rotations and swaps, and the
+ * final measurement. The diagram is drawn from this description, and each
+ * controlled multiplication can be decomposed into NOT gates for export. It also
+ * builds the block-level circuit of the discrete-logarithm variant.
+ */
+
+import { CircuitOperation, DiscreteLogCircuit, DiscreteLogMultiplication, OracleGate, PeriodFindingCircuit } from '../types';
+import { bitLength, power } from './shor';
+
+/**
+ * Builds the inverse Quantum Fourier Transform on a register of t qubits.
+ * It reverses the textbook QFT gate by gate: the swaps come first, then each qubit
+ * from the least significant upwards receives the inverse rotations controlled by
+ * the qubits below it, followed by a Hadamard.
+ * @param t The number of qubits in the register.
+ * @returns The gates of the inverse QFT, in the order they are applied.
+ */
+export function inverseQftOperations(t: number): CircuitOperation[] {
+  const operations: CircuitOperation[] = [];
+  for (let i = 0; i < Math.floor(t / 2); i++) {
+    operations.push({ kind: 'swap', first: i, second: t - 1 - i, stage: 'inverse-qft' });
+  }
+  for (let target = 0; target < t; target++) {
+    for (let control = 0; control < target; control++) {
+      operations.push({ kind: 'controlled-phase', control, target, k: target - control + 1, stage: 'inverse-qft' });
+    }
+    operations.push({ kind: 'h', target, stage: 'inverse-qft' });
+  }
+  return operations;
+}
+
+/**
+ * Builds the period-finding circuit for a base and a number.
+ * @param a The base, co-prime with N.
+ * @param N The number being factored.
+ * @param t The number of qubits in the counting register.
+ * @returns The circuit, with its gates in the order they are applied.
+ */
+export function buildPeriodFindingCircuit(a: bigint, N: bigint, t: number): PeriodFindingCircuit {
+  const operations: CircuitOperation[] = [];
+
+  // Put the counting register in an equal superposition and the work register in |1⟩.
+  for (let j = 0; j < t; j++) {
+    operations.push({ kind: 'h', target: j, stage: 'prepare' });
+  }
+  operations.push({ kind: 'x', target: 0, stage: 'prepare' });
+
+  // Counting qubit j contributes 2^j to x, so it controls a multiplication by a^(2^j).
+  let multiplier = a % N;
+  for (let j = 0; j < t; j++) {
+    operations.push({ kind: 'controlled-multiply', control: j, multiplier, stage: 'modular-exponentiation' });
+    multiplier = power(multiplier, 2n, N);
+  }
+
+  operations.push(...inverseQftOperations(t));
+
+  for (let j = 0; j < t; j++) {
+    operations.push({ kind: 'measure', target: j, stage: 'measure' });
+  }
+
+  return { a, n: N, countingQubits: t, workQubits: bitLength(N - 1n), operations };
+}
+
+/**
+ * Builds the circuit of Shor's discrete-logarithm algorithm. Qubit j of the first
+ * counting register controls a multiplication by g^(2^j) and qubit j of the second
+ * one a multiplication by h^(-2^j), so the work register, started in |1⟩, ends in
+ * g^a·h^(-b) mod p.
+ * @param p The prime modulus.
+ * @param g The base.
+ * @param h The target, co-prime with p.
+ * @param r The order of g, the size of each counting register.
+ * @returns The circuit, with its multiplications in the order they are applied.
+ */
+export function buildDiscreteLogCircuit(p: bigint, g: bigint, h: bigint, r: bigint): DiscreteLogCircuit {
+  const registerQubits = bitLength(r - 1n);
+  // h^(-1) = h^(r-1), since h is a power of g and so has an order dividing r.
+  const bases: bigint[] = [g % p, power(h, r - 1n, p)];
+  const multiplications: DiscreteLogMultiplication[] = [];
+  for (const register of [0, 1] as const) {
+    let multiplier = bases[register];
+    for (let control = 0; control < registerQubits; control++) {
+      multiplications.push({ register, control, multiplier });
+      multiplier = power(multiplier, 2n, p);
+    }
+  }
+  return { p, g, h, order: r, registerQubits, workQubits: bitLength(p - 1n), multiplications };
+}
+
+/**
+ * Splits the permutation x ↦ m·x mod N of the work register into transpositions.
+ * Values x >= N are left unchanged. A cycle (x0 x1 ... x_{L-1}) is the product of
+ * the transpositions (x0 x1), (x0 x2), ..., (x0 x_{L-1}), applied in that order.
+ * @param multiplier The multiplier m, co-prime with N.
+ * @param N The modulus.
+ * @returns The pairs of basis states to exchange, in the order they are applied.
+ */
+function multiplicationTranspositions(multiplier: bigint, N: bigint): [bigint, bigint][] {
+  const transpositions: [bigint, bigint][] = [];
+  const visited = new Set<bigint>();
+  for (let start = 1n; start < N; start++) {
+    if (visited.has(start)) continue;
+    visited.add(start);
+    let x = (start * multiplier) % N;
+    while (x !== start) {
+      visited.add(x);
+      transpositions.push([start, x]);
+      x = (x * multiplier) % N;
+    }
+  }
+  return transpositions;
+}
+
+/**
+ * Decomposes a controlled multiplication of the work register by m mod N into
+ * elementary gates. Each transposition |u⟩ ↔ |v⟩ picks a bit b where u and v differ,
+ * uses CNOTs from b so that the two states only differ in b, flips b with a
+ * multi-controlled NOT that recognises them, and undoes the CNOTs. NOT gates turn
+ * the controls on 0-bits into controls on 1-bits. The gate count grows with N, so
+ * this oracle is only meant for the small numbers the explorer handles.
+ * @param multiplier The multiplier m, co-prime with N.
+ * @param N The modulus.
+ * @param workQubits The number of qubits of the work register.
+ * @returns The gates of the oracle, in the order they are applied.
+ */
+export function multiplicationOracle(multiplier: bigint, N: bigint, workQubits: number): OracleGate[] {
+  const gates: OracleGate[] = [];
+  const bit = (value: bigint, i: number) => (value >> BigInt(i)) & 1n;
+
+  for (const [u, v] of multiplicationTranspositions(multiplier, N)) {
+    let pivot = 0;
+    while (bit(u, pivot) === bit(v, pivot)) pivot++;
+
+    const conjugation: OracleGate[] = [];
+    for (let i = 0; i < workQubits; i++) {
+      if (i !== pivot && bit(u, i) !== bit(v, i)) {
+        conjugation.push({ kind: 'cx', control: pivot, target: i });
+      }
+    }
+    // The CNOTs only change the state whose bit b is 1, giving it the other bits of the
+    // state whose bit b is 0, so that state's bits are the ones to recognise.
+    const pattern = bit(u, pivot) === 0n ? u : v;
+    const controls: number[] = [];
+    for (let i = 0; i < workQubits; i++) {
+      if (i === pivot) continue;
+      controls.push(i);
+      if (bit(pattern, i) === 0n) conjugation.push({ kind: 'x', target: i });
+    }
+
+    gates.push(...conjugation, { kind: 'mcx', controls, target: pivot }, ...[...conjugation].reverse());
+  }
+  return gates;
+}
@@ -0,0 +1,25 @@
+/**
+ * @file classicalFactoring.test.ts
+ * Tests for the classical baselines: every algorithm must split small semiprimes,
+ * including those where Pollard's p - 1 reaches N with its first base and has to
+ * back off or move on to another base. Run with `npm test`.
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CLASSICAL_ALGORITHMS, runClassicalFactoring } from './classicalFactoring';
+
+/** Small semiprimes; with base 2, p - 1 reaches N on 15, which backing off splits, and on 91, which needs another base. */
+const SEMIPRIMES = [15n, 21n, 35n, 91n, 341n, 703n, 8051n, 1000003n * 1000033n];
+
+describe('runClassicalFactoring', () => {
+  for (const algorithm of CLASSICAL_ALGORITHMS) {
+    it(`splits every semiprime with ${algorithm}`, () => {
+      for (const N of SEMIPRIMES) {
+        const { factor, budgetExhausted } = runClassicalFactoring(algorithm, N);
+        assert.equal(budgetExhausted, false, `${algorithm} ran out of budget on ${N}`);
+        assert.ok(factor !== null && factor > 1n && factor < N && N % factor === 0n, `${algorithm} found ${factor} for ${N}`);
+      }
+    });
+  }
+});
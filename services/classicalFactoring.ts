@@ -0,0 +1,403 @@
+/**
+ * @file classicalFactoring.ts
+ * This file contains the classical factoring algorithms that Shor's algorithm is
+ * compared with: trial division, Pollard's rho method, Pollard's p − 1 method and a
+ * small quadratic sieve. They work on BigInt and count their basic operations, so
+ * the growth of the classical effort can be shown next to the number of Shor attempts
+ * and the estimated quantum resources. Each run stops after a fixed operation budget.
+ */
+
+import { ClassicalAlgorithm, ClassicalFactoringResult } from '../types';
+import { bitLength, gcd } from './shor';
+import { integerRoot } from './factorize';
+
+/** The algorithms offered, in display order. */
+export const CLASSICAL_ALGORITHMS: ClassicalAlgorithm[] = ['trial-division', 'pollard-rho', 'pollard-p-minus-1', 'quadratic-sieve'];
+
+/** The most basic operations a run may perform before it gives up. */
+export const MAX_CLASSICAL_OPERATIONS = 20_000_000;
+
+/** The smoothness bound of Pollard's p − 1 method. */
+const P_MINUS_1_BOUND = 1_000_000;
+
+/** The bases tried in turn by Pollard's p - 1 method. */
+const P_MINUS_1_BASES = [2n, 3n, 5n, 7n, 11n, 13n];
+
+/** The number of values of x sieved at once by the quadratic sieve. */
+const SIEVE_BLOCK = 1 << 15;
+
+/** The number of relations collected beyond the size of the factor base. */
+const EXTRA_RELATIONS = 8;
+
+/**
+ * The operation count of a run. An algorithm adds to it as it works and checks
+ * `exhausted` in its loops.
+ */
+interface OperationCounter {
+  operations: number;
+}
+
+/**
+ * Checks whether a run has spent its operation budget.
+ * @param counter The operation count of the run.
+ * @returns True once the count exceeds `MAX_CLASSICAL_OPERATIONS`.
+ */
+const exhausted = (counter: OperationCounter) => counter.operations > MAX_CLASSICAL_OPERATIONS;
+
+/**
+ * Lists the primes up to a bound with the sieve of Eratosthenes.
+ * @param bound The largest number considered.
+ * @returns The primes in increasing order.
+ */
+function primesUpTo(bound: number): number[] {
+  const composite = new Uint8Array(bound + 1);
+  const primes: number[] = [];
+  for (let i = 2; i <= bound; i++) {
+    if (composite[i]) continue;
+    primes.push(i);
+    for (let j = i * i; j <= bound; j += i) composite[j] = 1;
+  }
+  return primes;
+}
+
+/**
+ * Raises a number to a power modulo m, counting each modular multiplication.
+ * @param base The base.
+ * @param exp The exponent.
+ * @param mod The modulus.
+ * @param counter The operation count of the run.
+ * @returns base^exp mod m.
+ */
+function countedPower(base: bigint, exp: bigint, mod: bigint, counter: OperationCounter): bigint {
+  let result = 1n;
+  base %= mod;
+  while (exp > 0n) {
+    if (exp & 1n) {
+      result = (result * base) % mod;
+      counter.operations++;
+    }
+    base = (base * base) % mod;
+    counter.operations++;
+    exp >>= 1n;
+  }
+  return result;
+}
+
+/**
+ * Divides N by 2 and by every odd number up to √N. One operation is one division.
+ * @param N The number to factor.
+ * @param counter The operation count of the run.
+ * @returns The smallest prime factor, or null if N is prime or the budget ran out.
+ */
+function trialDivision(N: bigint, counter: OperationCounter): bigint | null {
+  counter.operations++;
+  if (N % 2n === 0n) return 2n;
+  for (let d = 3n; d * d <= N; d += 2n) {
+    if (exhausted(counter)) return null;
+    counter.operations++;
+    if (N % d === 0n) return d;
+  }
+  return null;
+}
+
+/**
+ * Iterates x ↦ x² + c mod N and detects the cycle mod an unknown factor p with
+ * Floyd's tortoise and hare: gcd(x - y, N) reveals p once x ≡ y (mod p), after about
+ * √p steps. One operation is one modular multiplication or gcd.
+ * @param N The odd composite number to factor.
+ * @param counter The operation count of the run.
+ * @returns A non-trivial factor, or null if the budget ran out.
+ */
+function pollardRho(N: bigint, counter: OperationCounter): bigint | null {
+  for (let c = 1n; c < N; c++) {
+    const f = (x: bigint) => (x * x + c) % N;
+    let x = 2n;
+    let y = 2n;
+    let divisor = 1n;
+    while (divisor === 1n) {
+      if (exhausted(counter)) return null;
+      x = f(x);
+      y = f(f(y));
+      divisor = gcd(x > y ? x - y : y - x, N);
+      counter.operations += 4;
+    }
+    // Both sequences met mod every factor at once; start again with another polynomial.
+    if (divisor !== N) return divisor;
+  }
+  return null;
+}
+
+/**
+ * Computes a^E mod N, where E is the product of all prime powers up to `P_MINUS_1_BOUND`.
+ * If p - 1 divides E for a prime factor p, then a^E ≡ 1 (mod p) and gcd(a^E - 1, N)
+ * reveals p. When the gcd jumps to N, the last stretch is repeated one prime factor of
+ * E at a time. One operation is one modular multiplication or gcd.
+ * @param N The odd composite number to factor.
+ * @param base The base a, co-prime with N.
+ * @param primes The primes up to `P_MINUS_1_BOUND`.
+ * @param counter The operation count of the run.
+ * @returns A non-trivial factor, N if every prime factor appeared within the same factor
+ *          of E, or null if no p - 1 is smooth enough or the budget ran out.
+ */
+function pMinus1WithBase(N: bigint, base: bigint, primes: number[], counter: OperationCounter): bigint | null {
+  const primePower = (p: number) => {
+    let power = p;
+    while (power * p <= P_MINUS_1_BOUND) power *= p;
+    return BigInt(power);
+  };
+  let a = base;
+  let checkpoint = { a, index: 0 };
+  for (let i = 0; i < primes.length; i++) {
+    if (exhausted(counter)) return null;
+    a = countedPower(a, primePower(primes[i]), N, counter);
+
+    // The gcd is taken periodically, since it is needed only once a factor has appeared.
+    if (i % 64 === 63 || i === primes.length - 1) {
+      counter.operations++;
+      const divisor = gcd(a - 1n, N);
+      if (divisor > 1n && divisor < N) return divisor;
+      if (divisor === 1n) {
+        checkpoint = { a, index: i + 1 };
+        continue;
+      }
+      // Every p - 1 became smooth within the same stretch; repeat it one prime factor of E at a time.
+      a = checkpoint.a;
+      for (let j = checkpoint.index; j <= i; j++) {
+        for (let power = primes[j]; power <= P_MINUS_1_BOUND; power *= primes[j]) {
+          a = countedPower(a, BigInt(primes[j]), N, counter);
+          counter.operations++;
+          const single = gcd(a - 1n, N);
+          if (single > 1n) return single;
+        }
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Runs Pollard's p - 1 method with the bases of `P_MINUS_1_BASES` in turn. Another base
+ * is only needed when the orders of the base modulo every prime factor of N divide the
+ * same prime factor of E, as for 2 and N = 91 = 7 · 13, where 2 has orders 3 and 12.
+ * @param N The odd composite number to factor.
+ * @param counter The operation count of the run.
+ * @returns A non-trivial factor, or null if no p - 1 is smooth enough or the budget ran out.
+ */
+function pollardPMinus1(N: bigint, counter: OperationCounter): bigint | null {
+  const primes = primesUpTo(P_MINUS_1_BOUND);
+  for (const base of P_MINUS_1_BASES) {
+    counter.operations++;
+    const common = gcd(base, N);
+    if (common > 1n) {
+      if (common < N) return common;
+      continue;
+    }
+    const divisor = pMinus1WithBase(N, base, primes, counter);
+    if (divisor !== N) return divisor;
+  }
+  return null;
+}
+
+/**
+ * Finds a square root of n modulo an odd prime p with the Tonelli–Shanks algorithm.
+ * @param n A quadratic residue mod p.
+ * @param p An odd prime small enough for exact products of two residues.
+ * @returns A root x with x² ≡ n (mod p).
+ */
+function sqrtModPrime(n: number, p: number): number {
+  const powMod = (base: number, exp: number) => {
+    let result = 1;
+    base %= p;
+    for (; exp > 0; exp = Math.floor(exp / 2)) {
+      if (exp % 2 === 1) result = (result * base) % p;
+      base = (base * base) % p;
+    }
+    return result;
+  };
+  let q = p - 1;
+  let s = 0;
+  while (q % 2 === 0) {
+    q /= 2;
+    s++;
+  }
+  let z = 2;
+  while (powMod(z, (p - 1) / 2) !== p - 1) z++;
+  let m = s;
+  let c = powMod(z, q);
+  let t = powMod(n, q);
+  let root = powMod(n, (q + 1) / 2);
+  while (t !== 1) {
+    let i = 0;
+    for (let square = t; square !== 1; square = (square * square) % p) i++;
+    let b = c;
+    for (let j = 0; j < m - i - 1; j++) b = (b * b) % p;
+    m = i;
+    c = (b * b) % p;
+    t = (t * c) % p;
+    root = (root * b) % p;
+  }
+  return root;
+}
+
+/**
+ * A smooth value of Q(x) = x² - N found by the quadratic sieve.
+ */
+interface Relation {
+  /** The value x. */
+  x: bigint;
+  /** The exponent of each prime of the factor base in Q(x). */
+  exponents: number[];
+}
+
+/**
+ * Factors N with a small quadratic sieve. Values x just above √N make Q(x) = x² - N
+ * small; the sieve finds those whose Q(x) splits over a base of small primes. Once
+ * there are more such relations than primes, Gaussian elimination mod 2 combines
+ * some of them into x₁²·x₂²··· ≡ Q(x₁)·Q(x₂)··· (mod N), a congruence of squares
+ * X² ≡ Y², and gcd(X - Y, N) is a factor. One operation is one sieve update,
+ * trial division or row addition.
+ * @param N The odd composite number to factor.
+ * @param counter The operation count of the run.
+ * @returns A non-trivial factor, or null if no congruence splits N or the budget ran out.
+ */
+function quadraticSieve(N: bigint, counter: OperationCounter): bigint | null {
+  const root = integerRoot(N, 2);
+  if (root * root === N) return root;
+
+  // A few times the asymptotic smoothness bound exp(½·√(ln N · ln ln N)), which is too
+  // small for numbers of this size, with a floor for small N.
+  const lnN = bitLength(N) * Math.LN2;
+  const bound = Math.max(100, Math.round(4 * Math.exp(0.5 * Math.sqrt(lnN * Math.log(lnN)))));
+
+  // The factor base: 2 and the odd primes p for which N is a square mod p, with the roots of x² ≡ N.
+  const base: { p: number; roots: number[]; log: number }[] = [{ p: 2, roots: [1], log: 1 }];
+  for (const p of primesUpTo(bound).slice(1)) {
+    const residue = Number(N % BigInt(p));
+    counter.operations++;
+    if (residue === 0) return BigInt(p);
+    let legendre = 1;
+    for (let e = (p - 1) / 2, b = residue; e > 0; e = Math.floor(e / 2), b = (b * b) % p) {
+      if (e % 2 === 1) legendre = (legendre * b) % p;
+    }
+    if (legendre !== 1) continue;
+    const r = sqrtModPrime(residue, p);
+    base.push({ p, roots: [r, p - r], log: Math.log2(p) });
+  }
+
+  // Sieve successive blocks of x, adding log₂ p wherever p divides Q(x).
+  const relations: Relation[] = [];
+  // Prime powers are not sieved, so values somewhat below log₂ Q(x) are still tried.
+  const slack = 2 * Math.log2(bound);
+  for (let blockStart = root + 1n; relations.length < base.length + EXTRA_RELATIONS; blockStart += BigInt(SIEVE_BLOCK)) {
+    if (exhausted(counter)) return null;
+    const logs = new Float64Array(SIEVE_BLOCK);
+    for (const { p, roots, log } of base) {
+      const offset = Number(blockStart % BigInt(p));
+      for (const r of roots) {
+        for (let i = (((r - offset) % p) + p) % p; i < SIEVE_BLOCK; i += p) {
+          logs[i] += log;
+          counter.operations++;
+        }
+      }
+    }
+
+    const blockEnd = blockStart + BigInt(SIEVE_BLOCK);
+    const threshold = bitLength(blockEnd * blockEnd - N) - slack;
+    for (let i = 0; i < SIEVE_BLOCK && relations.length < base.length + EXTRA_RELATIONS; i++) {
+      if (logs[i] < threshold) continue;
+      const x = blockStart + BigInt(i);
+      let rest = x * x - N;
+      const exponents = base.map(({ p }) => {
+        const prime = BigInt(p);
+        let exponent = 0;
+        counter.operations++;
+        while (rest % prime === 0n) {
+          rest /= prime;
+          exponent++;
+          counter.operations++;
+        }
+        return exponent;
+      });
+      if (rest === 1n) relations.push({ x, exponents });
+    }
+  }
+
+  // Gaussian elimination mod 2; `combinations` records which relations each row is the sum of.
+  const rows = relations.map(({ exponents }) => exponents.reduce((row, e, j) => (e % 2 === 1 ? row | (1n << BigInt(j)) : row), 0n));
+  const combinations = relations.map((_, i) => 1n << BigInt(i));
+  const isPivot = new Array<boolean>(rows.length).fill(false);
+  for (let j = 0; j < base.length; j++) {
+    const bit = 1n << BigInt(j);
+    const pivot = rows.findIndex((row, i) => !isPivot[i] && (row & bit) !== 0n);
+    if (pivot === -1) continue;
+    isPivot[pivot] = true;
+    for (let i = 0; i < rows.length; i++) {
+      if (i !== pivot && (rows[i] & bit) !== 0n) {
+        rows[i] ^= rows[pivot];
+        combinations[i] ^= combinations[pivot];
+        counter.operations++;
+      }
+    }
+  }
+
+  // Every row reduced to zero is a set of relations whose product of Q(x) is a square.
+  for (let i = 0; i < rows.length; i++) {
+    if (rows[i] !== 0n) continue;
+    let X = 1n;
+    const exponentSums = new Array<number>(base.length).fill(0);
+    relations.forEach((relation, k) => {
+      if ((combinations[i] >> BigInt(k)) & 1n) {
+        X = (X * relation.x) % N;
+        relation.exponents.forEach((e, j) => { exponentSums[j] += e; });
+      }
+    });
+    let Y = 1n;
+    exponentSums.forEach((sum, j) => {
+      Y = (Y * countedPower(BigInt(base[j].p), BigInt(sum / 2), N, counter)) % N;
+    });
+    const divisor = gcd(X > Y ? X - Y : Y - X, N);
+    if (divisor > 1n && divisor < N) return divisor;
+  }
+  return null;
+}
+
+/** The implementation of each algorithm. */
+const ALGORITHMS: Record<ClassicalAlgorithm, (N: bigint, counter: OperationCounter) => bigint | null> = {
+  'trial-division': trialDivision,
+  'pollard-rho': pollardRho,
+  'pollard-p-minus-1': pollardPMinus1,
+  'quadratic-sieve': quadraticSieve,
+};
+
+/**
+ * Runs a classical factoring algorithm on N and measures its effort.
+ * @param algorithm The algorithm to run.
+ * @param N The odd composite number to factor.
+ * @returns The factor found, if any, with the operation count and the time taken.
+ */
+export function runClassicalFactoring(algorithm: ClassicalAlgorithm, N: bigint): ClassicalFactoringResult {
+  const counter: OperationCounter = { operations: 0 };
+  const startedAt = performance.now();
+  const factor = ALGORITHMS[algorithm](N, counter);
+  return {
+    algorithm,
+    factor,
+    operations: counter.operations,
+    budgetExhausted: factor === null && exhausted(counter),
+    elapsedMs: performance.now() - startedAt,
+  };
+}
+
+/**
+ * Runs every classical algorithm on N in turn, for the simulation worker.
+ * @param N The odd composite number to factor.
+ * @param signal A signal that stops the run between two algorithms when aborted.
+ * @yields {ClassicalFactoringResult} The result of each algorithm as soon as it has finished.
+ * @throws The abort reason of `signal` once the signal is aborted.
+ */
+export async function* runClassicalBaselines(N: bigint, signal: AbortSignal | null = null): AsyncGenerator<ClassicalFactoringResult, void, undefined> {
+  for (const algorithm of CLASSICAL_ALGORITHMS) {
+    signal?.throwIfAborted();
+    yield runClassicalFactoring(algorithm, N);
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * @file continuedFraction.ts
+ * This file contains the step-by-step continued fraction expansion used by the
+ * workbench. Each step records the Euclidean division, the recurrence that
+ * produces the next convergent, and its distance to c/q compared with the
+ * bounds that guarantee the period appears among the convergents.
+ */
+
+import { EuclideanStep } from '../types';
+
+/**
+ * Expands c/q as a continued fraction, one Euclidean division per step.
+ * The convergents follow p_k = a_k p_{k-1} + p_{k-2} and q_k = a_k q_{k-1} + q_{k-2},
+ * starting from p_{-2} = 0, p_{-1} = 1, q_{-2} = 1 and q_{-1} = 0.
+ * @param c The numerator, at least 0.
+ * @param q The denominator, at least 1.
+ * @returns Every step of the expansion; the last one has a remainder of 0.
+ */
+export function expandContinuedFraction(c: bigint, q: bigint): EuclideanStep[] {
+  if (c < 0n || q < 1n) {
+    throw new Error("The fraction c/q needs c >= 0 and q >= 1.");
+  }
+  const steps: EuclideanStep[] = [];
+  let dividend = c;
+  let divisor = q;
+  let p2 = 0n, p1 = 1n;
+  let q2 = 1n, q1 = 0n;
+
+  while (divisor !== 0n) {
+    const a = dividend / divisor;
+    const remainder = dividend % divisor;
+    const numerator = a * p1 + p2;
+    const denominator = a * q1 + q2;
+
+    // |c/q - p/d| = |c·d - p·q| / (q·d), so both bounds compare integers.
+    const difference = c * denominator - numerator * q;
+    const distanceNumerator = difference < 0n ? -difference : difference;
+    steps.push({
+      a,
+      numerator,
+      denominator,
+      dividend,
+      divisor,
+      remainder,
+      distanceNumerator,
+      // |c·d - p·q| / (q·d) < 1/(2q)  ⇔  2·|c·d - p·q| < d
+      withinMeasurementBound: 2n * distanceNumerator < denominator,
+      // |c·d - p·q| / (q·d) < 1/(2d²)  ⇔  2·d·|c·d - p·q| < q
+      withinLegendreBound: 2n * denominator * distanceNumerator < q,
+    });
+
+    [dividend, divisor] = [divisor, remainder];
+    [p2, p1] = [p1, numerator];
+    [q2, q1] = [q1, denominator];
+  }
+  return steps;
+}
+
+/**
+ * Writes the first terms of a continued fraction as a nested KaTeX fraction.
+ * @param terms The coefficients a_0, a_1, ... of the expansion.
+ * @returns The KaTeX source of a_0 + 1/(a_1 + 1/(a_2 + ...)).
+ */
+export function nestedFractionTex(terms: bigint[]): string {
+  if (terms.length === 0) return '';
+  // Build from the innermost term outwards: the last coefficient has no fraction below it.
+  return terms.slice(0, -1).reduceRight(
+    (inner, term) => `${term.toString()} + \\cfrac{1}{${inner}}`,
+    terms[terms.length - 1].toString(),
+  );
+}
@@ -0,0 +1,33 @@
+/**
+ * @file countsImport.test.ts
+ * Tests for the import of measurement counts: N must be an odd integer above 3
+ * and within the explorer's limit, since every attempt card computes the order
+ * of a modulo N on the main thread. Run with `npm test`.
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseImportNumber } from './countsImport';
+import { MAX_INPUT } from '../components/InputForm';
+import { translations } from '../i18n/locales';
+
+const t = translations.en;
+
+describe('parseImportNumber', () => {
+  it('accepts odd integers from 5 up to the limit', () => {
+    assert.equal(parseImportNumber(' 15 ', MAX_INPUT, t), 15n);
+    assert.equal(parseImportNumber((MAX_INPUT - 1n).toString(), MAX_INPUT, t), MAX_INPUT - 1n);
+  });
+
+  it('rejects numbers above the limit', () => {
+    for (const n of [MAX_INPUT + 1n, 2n ** 80n + 1n, 2n ** 97n - 1n]) {
+      assert.throws(() => parseImportNumber(n.toString(), MAX_INPUT, t), { message: t.importErrorNumber(MAX_INPUT.toString()) });
+    }
+  });
+
+  it('rejects small, even and malformed numbers', () => {
+    for (const text of ['', '3', '16', '-15', '1e3', 'fifteen']) {
+      assert.throws(() => parseImportNumber(text, MAX_INPUT, t), { message: t.importErrorNumber(MAX_INPUT.toString()) });
+    }
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * @file countsImport.ts
+ * This file reads measurement counts produced by real hardware or an external
+ * simulator, in the usual `{ "bitstring": count }` format, and runs the classical
+ * half of Shor's algorithm on every distinct outcome: continued fractions,
+ * verification and factor extraction. Noisy results can then be analysed with
+ * the same attempt cards as a simulated run.
+ */
+
+import { ImportedOutcome, ImportSummary, MeasurementCount } from '../types';
+import type { TranslationSet } from '../i18n/locales';
+import { runShor } from './shor';
+
+/** The largest first register accepted for imported counts. */
+export const MAX_IMPORT_QUBITS = 64;
+
+/**
+ * Reads the measured value from a key of a counts file. Binary keys follow the usual
+ * convention: the leftmost character is the most significant bit, so a circuit
+ * measuring counting qubit j into classical bit j gives c directly. Spaces, which
+ * separate classical registers, are ignored. Hexadecimal keys start with `0x`.
+ * @param key The key.
+ * @param tQubits The number of qubits in the first register.
+ * @returns The measured value, or null if the key is not an outcome of the register.
+ */
+function keyToMeasurement(key: string, tQubits: number): bigint | null {
+  const compact = key.replace(/\s+/g, '');
+  if (/^[01]+$/.test(compact)) {
+    return compact.length === tQubits ? BigInt(`0b${compact}`) : null;
+  }
+  if (/^0x[0-9a-f]+$/i.test(compact)) {
+    const c = BigInt(compact);
+    return c < 2n ** BigInt(tQubits) ? c : null;
+  }
+  return null;
+}
+
+/**
+ * Parses the number the imported counts were measured for.
+ * @param text The content of the field.
+ * @param max The largest N accepted; every attempt card computes the order of a modulo N.
+ * @param t The translation object for generating error messages.
+ * @returns N, an odd integer greater than 3 and at most `max`.
+ * @throws An error if the field holds anything else.
+ */
+export function parseImportNumber(text: string, max: bigint, t: TranslationSet): bigint {
+  const n = /^\d+$/.test(text.trim()) ? BigInt(text.trim()) : null;
+  if (n === null || n <= 3n || n > max || n % 2n === 0n) {
+    throw new Error(t.importErrorNumber(max.toString()));
+  }
+  return n;
+}
+
+/**
+ * Parses a counts file.
+ * @param text The content of the file, a JSON object from outcomes to shot counts.
+ * @param tQubits The number of qubits in the first register.
+ * @param t The translation object for generating error messages.
+ * @returns The distinct outcomes, by decreasing count and then by increasing 'c'.
+ * @throws An error describing the first invalid entry.
+ */
+export function parseCounts(text: string, tQubits: number, t: TranslationSet): MeasurementCount[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error(t.importErrorJson);
+  }
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new Error(t.importErrorFormat);
+  }
+
+  // Keys written differently, such as `0x4` and `0100`, are the same outcome.
+  const byMeasurement = new Map<bigint, MeasurementCount>();
+  for (const [key, count] of Object.entries(data)) {
+    const c = keyToMeasurement(key, tQubits);
+    if (c === null) {
+      throw new Error(t.importErrorBitstring(key, tQubits));
+    }
+    if (typeof count !== 'number' || !Number.isInteger(count) || count < 0) {
+      throw new Error(t.importErrorCount(key));
+    }
+    if (count === 0) continue;
+    const existing = byMeasurement.get(c);
+    if (existing) {
+      existing.count += count;
+    } else {
+      byMeasurement.set(c, { bitstring: key, c, count });
+    }
+  }
+  if (byMeasurement.size === 0) {
+    throw new Error(t.importErrorEmpty);
+  }
+
+  return [...byMeasurement.values()].sort((x, y) => y.count - x.count || (x.c < y.c ? -1 : 1));
+}
+
+/**
+ * Runs the classical post-processing on every imported outcome.
+ * Each outcome becomes a single attempt with the base and the measurement pinned.
+ * @param N The number the circuit was built for.
+ * @param a The base the circuit was built for.
+ * @param tQubits The number of qubits in the first register.
+ * @param counts The outcomes, as returned by `parseCounts`.
+ * @param t The translation object for generating error messages.
+ * @returns The outcomes with their attempts, numbered in the order of `counts`.
+ */
+export async function analyzeCounts(
+  N: bigint,
+  a: bigint,
+  tQubits: number,
+  counts: MeasurementCount[],
+  t: TranslationSet,
+): Promise<ImportedOutcome[]> {
+  const outcomes: ImportedOutcome[] = [];
+  for (const [index, outcome] of counts.entries()) {
+    let last: ImportedOutcome['attempt'] | null = null;
+    // runShor yields the attempt after every step; the last one is complete.
+    for await (const attempt of runShor(N, t, { pinnedBase: a, pinnedMeasurement: outcome.c, qubitCount: tQubits, stepDelayMs: 0 })) {
+      last = attempt;
+    }
+    if (last) {
+      outcomes.push({ ...outcome, attempt: { ...last, id: index + 1 } });
+    }
+  }
+  return outcomes;
+}
+
+/**
+ * Sums up the imported outcomes.
+ * @param outcomes The analysed outcomes.
+ * @returns The shot counts and the distinct factor pairs found.
+ */
+export function summarizeImport(outcomes: ImportedOutcome[]): ImportSummary {
+  let shots = 0;
+  let successfulShots = 0;
+  const factorPairs = new Map<string, [bigint, bigint]>();
+  for (const { count, attempt } of outcomes) {
+    shots += count;
+    if (attempt.status === 'success' && attempt.factors) {
+      successfulShots += count;
+      const [p, q] = attempt.factors[0] <= attempt.factors[1] ? attempt.factors : [attempt.factors[1], attempt.factors[0]];
+      factorPairs.set(`${p}×${q}`, [p, q]);
+    }
+  }
+  return { shots, successfulShots, factorPairs: [...factorPairs.values()] };
+}
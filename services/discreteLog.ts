@@ -0,0 +1,259 @@
+/**
+ * @file discreteLog.ts
+ * This file contains Shor's algorithm for the discrete logarithm: given a prime p,
+ * a base g and a power h of g, it finds x with g^x ≡ h (mod p). Two counting
+ * registers hold a and b, the work register receives f(a, b) = g^a·h^(-b) mod p,
+ * and a Fourier transform over Z_r on each counting register, with r the order
+ * of g, yields a pair (c1, c2) with c2 ≡ -x·c1 (mod r). The logarithm then
+ * follows from modular arithmetic and is verified classically.
+ */
+
+import { DiscreteLogAttempt, PeriodFinderId, RandomSource, ShorOptions } from '../types';
+import { bitLength, delay, gcd, isPrime, power, DEFAULT_SHOR_OPTIONS } from './shor';
+import { multiplicativeOrder } from './order';
+import { modularInverse } from './rsa';
+import { randomBigIntInRange } from './random';
+import { translations, TranslationSet } from '../i18n/locales';
+
+/** The largest prime accepted, which keeps the classical oracle's table of √r powers small. */
+export const MAX_DISCRETE_LOG_P = 2n ** 32n;
+
+/** The largest order r whose r × r outcomes are simulated as a state vector. */
+export const MAX_STATE_VECTOR_ORDER = 128n;
+
+/** The most candidates for x that are verified when gcd(c1, r) > 1. */
+const MAX_CANDIDATES = 16n;
+
+/**
+ * A single measurement of the quantum step.
+ */
+interface DiscreteLogMeasurement {
+  /** The value of the first counting register. */
+  c1: bigint;
+  /** The value of the second counting register. */
+  c2: bigint;
+  /** The value left in the work register. */
+  work: bigint;
+}
+
+/**
+ * Simulates the registers as a state vector and samples (c1, c2). Measuring the work
+ * register first leaves the pairs (a, b) with g^a·h^(-b) equal to the measured value;
+ * their Fourier transform over Z_r × Z_r gives the amplitude of each outcome. The
+ * simulation only evaluates f, so it never uses the logarithm it is looking for.
+ * @param p The prime modulus.
+ * @param g The base.
+ * @param h The target.
+ * @param r The order of g.
+ * @param random The random source.
+ * @returns The sampled measurement.
+ */
+function sampleStateVector(p: bigint, g: bigint, h: bigint, r: bigint, random: RandomSource): DiscreteLogMeasurement {
+  const size = Number(r);
+  const hInverse = modularInverse(h, p);
+  const gPowers: bigint[] = [1n];
+  const hPowers: bigint[] = [1n];
+  for (let i = 1; i < size; i++) {
+    gPowers.push((gPowers[i - 1] * g) % p);
+    hPowers.push((hPowers[i - 1] * hInverse) % p);
+  }
+
+  // Every pair (a, b) is equally likely, so the work register shows f of a uniform pair.
+  const work = (gPowers[Math.floor(random() * size)] * hPowers[Math.floor(random() * size)]) % p;
+  const pairs: [number, number][] = [];
+  for (let a = 0; a < size; a++) {
+    for (let b = 0; b < size; b++) {
+      if ((gPowers[a] * hPowers[b]) % p === work) pairs.push([a, b]);
+    }
+  }
+
+  // |Σ_(a,b) e^(2πi(a·c1 + b·c2)/r)|² for every outcome, from a table of the r-th roots of unity.
+  const cos = Array.from({ length: size }, (_, k) => Math.cos((2 * Math.PI * k) / size));
+  const sin = Array.from({ length: size }, (_, k) => Math.sin((2 * Math.PI * k) / size));
+  const weights = new Float64Array(size * size);
+  let total = 0;
+  for (let c1 = 0; c1 < size; c1++) {
+    for (let c2 = 0; c2 < size; c2++) {
+      let re = 0;
+      let im = 0;
+      for (const [a, b] of pairs) {
+        const k = (a * c1 + b * c2) % size;
+        re += cos[k];
+        im += sin[k];
+      }
+      const weight = re * re + im * im;
+      weights[c1 * size + c2] = weight;
+      total += weight;
+    }
+  }
+
+  let threshold = random() * total;
+  let index = 0;
+  while (index < weights.length - 1 && threshold >= weights[index]) {
+    threshold -= weights[index];
+    index++;
+  }
+  return { c1: BigInt(Math.floor(index / size)), c2: BigInt(index % size), work };
+}
+
+/**
+ * Solves g^x ≡ h (mod p) classically with the baby-step giant-step method.
+ * @param p The prime modulus.
+ * @param g The base.
+ * @param h The target, a power of g.
+ * @param r The order of g.
+ * @returns The x in [0, r) with g^x ≡ h (mod p).
+ */
+function babyStepGiantStep(p: bigint, g: bigint, h: bigint, r: bigint): bigint {
+  const m = BigInt(Math.ceil(Math.sqrt(Number(r))));
+  const babySteps = new Map<bigint, bigint>();
+  let value = 1n;
+  for (let j = 0n; j < m; j++) {
+    if (!babySteps.has(value)) babySteps.set(value, j);
+    value = (value * g) % p;
+  }
+  // h·g^(-m·i) = g^j means x = m·i + j.
+  const giantStep = modularInverse(power(g, m, p), p);
+  let gamma = h % p;
+  for (let i = 0n; i <= m; i++) {
+    const j = babySteps.get(gamma);
+    if (j !== undefined) return (m * i + j) % r;
+    gamma = (gamma * giantStep) % p;
+  }
+  throw new Error("The target is not a power of the base.");
+}
+
+/**
+ * Finds the logarithm classically and simulates an ideal measurement: c1 uniform in
+ * Z_r and c2 = -x·c1 mod r. In a real quantum computer, we would not know x beforehand.
+ * @param p The prime modulus.
+ * @param g The base.
+ * @param h The target.
+ * @param r The order of g.
+ * @param random The random source.
+ * @returns The simulated measurement.
+ */
+function sampleClassicalOracle(p: bigint, g: bigint, h: bigint, r: bigint, random: RandomSource): DiscreteLogMeasurement {
+  const x = babyStepGiantStep(p, g, h, r);
+  const c1 = randomBigIntInRange(0n, r - 1n, random);
+  const work = power(g, randomBigIntInRange(0n, r - 1n, random), p);
+  return { c1, c2: (((-x * c1) % r) + r) % r, work };
+}
+
+/**
+ * Solves c1·x ≡ -c2 (mod r). With d = gcd(c1, r), x is only determined modulo r/d,
+ * so the d values in [0, r) with that residue are the candidates, unless there are
+ * more than `MAX_CANDIDATES` of them.
+ * @param c1 The value of the first counting register.
+ * @param c2 The value of the second counting register.
+ * @param r The order of g.
+ * @returns The recovery, or null if c1 ≡ 0 and nothing can be learned.
+ */
+function recoverLogarithm(c1: bigint, c2: bigint, r: bigint): NonNullable<DiscreteLogAttempt['recovery']> | null {
+  if (c1 % r === 0n) return null;
+  const divisor = gcd(c1, r);
+  const modulus = r / divisor;
+  const target = (((-c2) % r) + r) % r;
+  // A measurement of the ideal distribution always has d | c2; an inconsistent one gives no candidates.
+  if (target % divisor !== 0n) return { divisor, modulus, residue: 0n, candidates: [] };
+  const residue = modulus === 1n ? 0n : ((target / divisor) * modularInverse(c1 / divisor, modulus)) % modulus;
+  // Too many candidates are not listed; the attempt is then abandoned as ambiguous.
+  const count = divisor <= MAX_CANDIDATES ? Number(divisor) : 0;
+  const candidates = Array.from({ length: count }, (_, k) => residue + BigInt(k) * modulus);
+  return { divisor, modulus, residue, candidates };
+}
+
+/**
+ * An async generator function that simulates Shor's algorithm for the discrete logarithm.
+ * It yields the state of the computation at each major step, allowing the UI to update in real-time.
+ * The order r of g is computed classically first, as Shor's algorithm assumes it is known.
+ * @param p The prime modulus, below `MAX_DISCRETE_LOG_P`.
+ * @param g The base, in [2, p - 1].
+ * @param h The target, in [1, p - 1].
+ * @param t The translation object for generating error messages. Defaults to English for callers outside the UI.
+ * @param options The run options; only the attempt limit, step delay, random source and signal are used.
+ * @yields {DiscreteLogAttempt} An object representing the current state of the attempt.
+ * @throws If the input is invalid or h is not a power of g, or the abort reason of `options.signal` once it is aborted.
+ */
+export async function* runDiscreteLog(
+  p: bigint,
+  g: bigint,
+  h: bigint,
+  t: TranslationSet = translations.en,
+  options: Partial<ShorOptions> = {},
+): AsyncGenerator<DiscreteLogAttempt, void, undefined> {
+  const { maxAttempts, stepDelayMs, random, signal } = { ...DEFAULT_SHOR_OPTIONS, ...options };
+
+  if (p < 3n || p >= MAX_DISCRETE_LOG_P || !isPrime(p, 20, random)) {
+    throw new Error(t.dlogErrorPrime(MAX_DISCRETE_LOG_P.toString()));
+  }
+  if (g < 2n || g >= p) {
+    throw new Error(t.dlogErrorBase(p.toString()));
+  }
+  if (h < 1n || h >= p) {
+    throw new Error(t.dlogErrorTarget(p.toString()));
+  }
+
+  const r = multiplicativeOrder(g, p);
+  // The powers of g are the unique subgroup of order r of the cyclic group mod p.
+  if (power(h, r, p) !== 1n) {
+    throw new Error(t.dlogErrorNotInGroup(h.toString(), g.toString(), p.toString()));
+  }
+
+  const periodFinder: PeriodFinderId = r <= MAX_STATE_VECTOR_ORDER ? 'state-vector' : 'classical-oracle';
+  const registerQubits = bitLength(r - 1n);
+
+  for (let id = 1; id <= maxAttempts; id++) {
+    signal?.throwIfAborted();
+
+    const currentAttempt: DiscreteLogAttempt = { id, p, g, h, order: r, status: 'running', periodFinder };
+    yield currentAttempt;
+    await delay(stepDelayMs, signal);
+
+    // --- Quantum Part Simulation ---
+    const measurement = periodFinder === 'state-vector'
+      ? sampleStateVector(p, g, h, r, random)
+      : sampleClassicalOracle(p, g, h, r, random);
+    currentAttempt.quantumResult = { ...measurement, registerQubits };
+    yield currentAttempt;
+    await delay(stepDelayMs, signal);
+
+    // --- Classical Part: solve c1·x ≡ -c2 (mod r) ---
+    const recovery = recoverLogarithm(measurement.c1, measurement.c2, r);
+    if (recovery === null) {
+      currentAttempt.status = 'failed';
+      currentAttempt.error = t.dlogErrorZeroMeasurement;
+      currentAttempt.outcome = 'zero-measurement';
+      yield currentAttempt;
+      continue;
+    }
+    currentAttempt.recovery = recovery;
+    if (recovery.divisor > MAX_CANDIDATES) {
+      currentAttempt.status = 'failed';
+      currentAttempt.error = t.dlogErrorAmbiguous(recovery.divisor.toString());
+      currentAttempt.outcome = 'ambiguous';
+      yield currentAttempt;
+      continue;
+    }
+    yield currentAttempt;
+    await delay(stepDelayMs, signal);
+
+    // --- Verification of each candidate ---
+    currentAttempt.verification = [];
+    for (const candidate of recovery.candidates) {
+      const value = power(g, candidate, p);
+      currentAttempt.verification.push({ candidate, value });
+      if (value === h) {
+        currentAttempt.status = 'success';
+        currentAttempt.outcome = 'success';
+        currentAttempt.x = candidate;
+        yield currentAttempt;
+        return;
+      }
+    }
+    currentAttempt.status = 'failed';
+    currentAttempt.error = t.dlogErrorUnverified;
+    currentAttempt.outcome = 'unverified';
+    yield currentAttempt;
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * @file factorize.ts
+ * This file contains the driver for a complete prime factorization. A single
+ * run of Shor's algorithm only splits N into two factors; the driver keeps
+ * splitting composite cofactors, using cheap classical checks where they
+ * suffice, until every leaf of the factorization tree is prime.
+ */
+
+import { ShorAttempt, ShorOptions, FactorNode } from '../types';
+import { runShor, isPrime, bitLength, DEFAULT_SHOR_OPTIONS } from './shor';
+import { translations, TranslationSet } from '../i18n/locales';
+
+/**
+ * Computes the integer k-th root of n, i.e. the largest x with x^k <= n, using Newton's method.
+ * @param n The non-negative radicand.
+ * @param k The degree of the root, at least 1.
+ * @returns The floor of the k-th root of n.
+ */
+export function integerRoot(n: bigint, k: number): bigint {
+  if (n < 2n || k === 1) return n;
+  const K = BigInt(k);
+  // Start above the root so that the iteration decreases monotonically.
+  let x = 1n << BigInt(Math.ceil(bitLength(n) / k));
+  for (;;) {
+    const y = ((K - 1n) * x + n / x ** (K - 1n)) / K;
+    if (y >= x) return x;
+    x = y;
+  }
+}
+
+/**
+ * Detects whether n is a perfect power m^k with k >= 2.
+ * The largest exponent is preferred, so 81 is reported as 3^4 rather than 9^2.
+ * @param n The number to test.
+ * @returns The base and exponent, or null if n is not a perfect power.
+ */
+export function findPerfectPower(n: bigint): { base: bigint; exponent: number } | null {
+  for (let k = bitLength(n); k >= 2; k--) {
+    const base = integerRoot(n, k);
+    if (base > 1n && base ** BigInt(k) === n) {
+      return { base, exponent: k };
+    }
+  }
+  return null;
+}
+
+/**
+ * An async generator that completely factors N. It yields every Shor attempt made
+ * along the way, with identifiers that are unique across all cofactors, and returns
+ * the factorization tree once every cofactor has been resolved.
+ * @param N The integer greater than 1 to be factored.
+ * @param t The translation object for generating error messages. Defaults to English for callers outside the UI.
+ * @param options The options for each run of Shor's algorithm. Its random source is also used for the primality tests.
+ * @yields {ShorAttempt} The current state of the attempt on the cofactor being split.
+ * @returns The root of the factorization tree.
+ */
+export async function* factorizeCompletely(
+  N: bigint,
+  t: TranslationSet = translations.en,
+  options: Partial<ShorOptions> = {},
+): AsyncGenerator<ShorAttempt, FactorNode, undefined> {
+  const random = options.random ?? DEFAULT_SHOR_OPTIONS.random;
+  let attemptCount = 0;
+
+  async function* split(value: bigint): AsyncGenerator<ShorAttempt, FactorNode, undefined> {
+    if (isPrime(value, 10, random)) {
+      return { value, method: 'prime', children: [] };
+    }
+
+    // Cheap pre-checks: Shor's algorithm needs an odd number that is not a perfect power.
+    if (value % 2n === 0n) {
+      const rest = yield* split(value / 2n);
+      return { value, method: 'trial-division', children: [{ value: 2n, method: 'prime', children: [] }, rest] };
+    }
+    const perfectPower = findPerfectPower(value);
+    if (perfectPower) {
+      const baseNode = yield* split(perfectPower.base);
+      return { value, method: 'perfect-power', children: Array.from({ length: perfectPower.exponent }, () => baseNode) };
+    }
+
+    // User-supplied bases only apply to the cofactors they are smaller than,
+    // and pinned inputs only to N itself.
+    const strategy = options.baseStrategy;
+    let runOptions: Partial<ShorOptions> = strategy?.kind === 'list'
+      ? { ...options, baseStrategy: { kind: 'list', bases: strategy.bases.filter(base => base < value) } }
+      : options;
+    if (value !== N) {
+      runOptions = { ...runOptions, pinnedBase: null, pinnedMeasurement: null };
+    }
+
+    // Split the cofactor with Shor's algorithm, renumbering its attempts after the previous ones.
+    const idOffset = attemptCount;
+    let factors: bigint[] | undefined;
+    for await (const attempt of runShor(value, t, runOptions)) {
+      attemptCount = idOffset + attempt.id;
+      yield { ...attempt, id: attemptCount };
+      if (attempt.status === 'success' && attempt.factors) {
+        factors = attempt.factors;
+      }
+    }
+    if (!factors) {
+      return { value, method: 'unresolved', children: [] };
+    }
+
+    const children: FactorNode[] = [];
+    for (const factor of factors) {
+      children.push(yield* split(factor));
+    }
+    return { value, method: 'shor', children };
+  }
+
+  return yield* split(N);
+}
+
+/**
+ * Collects the leaves of a factorization tree with their multiplicities.
+ * Leaves are prime unless a cofactor could not be split.
+ * @param tree The root of the factorization tree.
+ * @returns The factors in ascending order, each with its exponent and whether it is prime.
+ */
+export function collectFactors(tree: FactorNode): { factor: bigint; exponent: number; isPrime: boolean }[] {
+  const leaves = new Map<bigint, { exponent: number; isPrime: boolean }>();
+  const visit = (node: FactorNode) => {
+    if (node.children.length === 0) {
+      const leaf = leaves.get(node.value);
+      leaves.set(node.value, { exponent: (leaf?.exponent ?? 0) + 1, isPrime: node.method === 'prime' });
+    }
+    node.children.forEach(visit);
+  };
+  visit(tree);
+  return [...leaves.entries()]
+    .sort(([f1], [f2]) => (f1 < f2 ? -1 : f1 > f2 ? 1 : 0))
+    .map(([factor, leaf]) => ({ factor, ...leaf }));
+}
+
+/**
+ * Checks whether every leaf of a factorization tree is prime.
+ * @param tree The root of the factorization tree.
+ * @returns True if the factorization is complete.
+ */
+export function isFullyFactored(tree: FactorNode): boolean {
+  if (tree.method === 'unresolved') return false;
+  return tree.children.every(isFullyFactored);
+}
@@ -0,0 +1,31 @@
+/**
+ * @file measurementDistribution.test.ts
+ * Tests for the theoretical distribution P(c): each of the r peaks must hold about
+ * 1/r of the mass on both of its sides, also for registers far beyond 2^53.
+ * Run with `npm test`.
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { measurementProbability } from './measurementDistribution';
+
+/** The period of the tests; it does not divide q, so no peak falls on an integer. */
+const PERIOD = 12345n;
+
+/** The most values on each side of a peak that are summed. */
+const HALF_WIDTH = 3n;
+
+describe('measurementProbability', () => {
+  for (const t of [20, 80, 120]) {
+    it(`gives a peak about 1/r of the mass for t = ${t}`, () => {
+      const q = 2n ** BigInt(t);
+      for (const s of [1n, 7n, PERIOD - 1n]) {
+        // ⌊s·q/r⌋ lies just below the peak, where c·r mod q is close to q.
+        const below = (s * q) / PERIOD;
+        let mass = 0;
+        for (let c = below - HALF_WIDTH; c <= below + HALF_WIDTH; c++) mass += measurementProbability(c, q, PERIOD);
+        assert.ok(mass > 0.9 / Number(PERIOD) && mass <= 1 / Number(PERIOD), `the peak s = ${s} holds ${mass}`);
+      }
+    });
+  }
+});
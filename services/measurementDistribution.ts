@@ -0,0 +1,124 @@
+/**
+ * @file measurementDistribution.ts
+ * This file contains the theoretical probability distribution P(c) of measuring
+ * the first register of the period-finding circuit. Unlike the state-vector
+ * simulator, it uses the closed form of the geometric sums, so any register size
+ * can be evaluated; only the bins of the current view are ever computed.
+ */
+
+/**
+ * Above this many values of 'c' in a view, the bins are filled from the
+ * neighbourhood of each peak instead of from every value.
+ */
+const MAX_EXACT_VALUES = 1 << 16;
+
+/**
+ * The most values on each side of a peak summed when a view is too wide to
+ * evaluate exactly. The mass of a peak decays as 1/d² with the distance d from it.
+ */
+const MAX_PEAK_HALF_WIDTH = 16;
+
+/**
+ * Computes the probability of measuring 'c' in the first register.
+ * With q = 2^t and the period r, the x with f(x) = f(x0) are x0, x0 + r, ...; there
+ * are m = ⌈(q - x0)/r⌉ of them. Summing over the second register gives
+ * P(c) = (1/q²) Σ_{x0 < r} |Σ_{j < m} e^{2πi cjr/q}|², whose inner sum is geometric.
+ * @param c The measured value, in [0, q).
+ * @param q The size of the first register.
+ * @param r The period of f(x) = a^x mod N.
+ * @returns The probability P(c).
+ */
+export function measurementProbability(c: bigint, q: bigint, r: bigint): number {
+  // The phase only depends on c·r mod q, which keeps the angle exact for large registers.
+  // The residue is centred on 0 first: just below a peak it is close to q, and past 2^53
+  // it would round to q as a float, turning the phase into exactly 2π.
+  let residue = (c * r) % q;
+  if (residue > q / 2n) residue -= q;
+  const theta = (2 * Math.PI * Number(residue)) / Number(q);
+  const short = q / r;
+  const longCount = Number(q % r);
+  const shortCount = Number(r) - longCount;
+
+  // |Σ_{j < m} e^{iθj}|² = sin²(mθ/2) / sin²(θ/2), which tends to m² at the peaks.
+  const denominator = Math.sin(theta / 2) ** 2;
+  const geometric = (m: number) => (denominator < 1e-300 ? m * m : Math.sin((m * theta) / 2) ** 2 / denominator);
+
+  const qNumber = Number(q);
+  return (longCount * geometric(Number(short) + 1) + shortCount * geometric(Number(short))) / (qNumber * qNumber);
+}
+
+/**
+ * Finds the value of 'c' closest to the peak k·q/r.
+ * @param k The index of the peak, in [0, r].
+ * @param q The size of the first register.
+ * @param r The period of f(x) = a^x mod N.
+ * @returns k·q/r rounded to the nearest integer.
+ */
+function peakPosition(k: bigint, q: bigint, r: bigint): bigint {
+  return (2n * k * q + r) / (2n * r);
+}
+
+/**
+ * Finds the peak of the distribution closest to a value of 'c'.
+ * @param c A value of the first register, in [0, q).
+ * @param q The size of the first register.
+ * @param r The period of f(x) = a^x mod N.
+ * @returns The position of the nearest peak, clamped to the register.
+ */
+export function nearestPeak(c: bigint, q: bigint, r: bigint): bigint {
+  const k = (2n * c * r + q) / (2n * q);
+  const peak = peakPosition(k, q, r);
+  return peak < q ? peak : q - 1n;
+}
+
+/**
+ * Sums P(c) over equal bins of the values in [start, end).
+ * A view of at most `MAX_EXACT_VALUES` values is summed exactly; a wider view is
+ * filled from the values around each peak, which hold nearly all of the mass, and
+ * a view with even more peaks than values is filled evenly.
+ * @param q The size of the first register.
+ * @param r The period of f(x) = a^x mod N.
+ * @param start The first value of the view.
+ * @param end The value after the last one of the view.
+ * @param binCount The number of bins.
+ * @returns The probability mass of each bin.
+ */
+export function binnedDistribution(q: bigint, r: bigint, start: bigint, end: bigint, binCount: number): number[] {
+  const bins = new Array<number>(binCount).fill(0);
+  const span = end - start;
+  const add = (c: bigint) => {
+    const bin = Number(((c - start) * BigInt(binCount)) / span);
+    bins[bin] += measurementProbability(c, q, r);
+  };
+
+  if (span <= BigInt(MAX_EXACT_VALUES)) {
+    for (let c = start; c < end; c++) add(c);
+    return bins;
+  }
+
+  // Only the peaks inside the view are visited, and they share the same budget of values.
+  const firstPeak = (start * r) / q;
+  const lastPeak = (end * r + q - 1n) / q;
+  const peakCount = Number(lastPeak - firstPeak) + 1;
+  // With more peaks than values that can be summed, every bin holds many evenly
+  // spaced peaks of equal mass, so the mass is spread in proportion to the bin widths.
+  if (peakCount > MAX_EXACT_VALUES) {
+    for (let i = 0; i < binCount; i++) {
+      const from = start + (span * BigInt(i) + BigInt(binCount) - 1n) / BigInt(binCount);
+      const to = start + (span * BigInt(i + 1) + BigInt(binCount) - 1n) / BigInt(binCount);
+      bins[i] = Number(to - from) / Number(q);
+    }
+    return bins;
+  }
+  const halfWidth = BigInt(Math.max(1, Math.min(MAX_PEAK_HALF_WIDTH, Math.floor(MAX_EXACT_VALUES / (2 * peakCount)))));
+  let previousEnd = start;
+  for (let k = firstPeak; k <= lastPeak; k++) {
+    const peak = peakPosition(k, q, r);
+    // Neighbourhoods of adjacent peaks may overlap when q/r is small; count each value once.
+    const from = peak - halfWidth > previousEnd ? peak - halfWidth : previousEnd;
+    const to = peak + halfWidth + 1n < end ? peak + halfWidth + 1n : end;
+    for (let c = from; c < to; c++) add(c);
+    if (to > previousEnd) previousEnd = to;
+  }
+  return bins;
+}
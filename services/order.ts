@@ -0,0 +1,126 @@
+/**
+ * @file order.ts
+ * This file contains the classical computation of the multiplicative order,
+ * i.e. the true period 'r' of f(x) = a^x mod N. The order divides the Carmichael
+ * function λ(N), so it is found by factoring N and λ(N) with Pollard's rho method
+ * and removing every prime factor of λ(N) that is not needed. This takes
+ * milliseconds for 60-bit numbers, where stepping through the powers of 'a' would
+ * take up to r multiplications.
+ */
+
+import { gcd, isPrime, power } from './shor';
+
+/** The primes tried by trial division before Pollard's rho method is used. */
+const SMALL_PRIMES = [2n, 3n, 5n, 7n, 11n, 13n, 17n, 19n, 23n, 29n, 31n, 37n, 41n, 43n, 47n];
+
+/** The number of steps of Pollard's rho method whose differences are multiplied before each gcd. */
+const RHO_BATCH = 64;
+
+/**
+ * Finds a non-trivial factor of a composite number with Brent's variant of Pollard's rho method.
+ * @param n An odd composite number that is not a prime power of a small prime.
+ * @returns A factor d with 1 < d < n.
+ */
+function pollardRho(n: bigint): bigint {
+  for (let c = 1n; ; c++) {
+    const f = (x: bigint) => (x * x + c) % n;
+    let y = 2n;
+    let x = y;
+    let ys = y;
+    let divisor = 1n;
+    let product = 1n;
+    // The cycle length is bounded by doubling the stretch between fixed points x.
+    for (let length = 1; divisor === 1n; length *= 2) {
+      x = y;
+      for (let i = 0; i < length; i++) y = f(y);
+      for (let done = 0; done < length && divisor === 1n; done += RHO_BATCH) {
+        ys = y;
+        for (let i = 0; i < Math.min(RHO_BATCH, length - done); i++) {
+          y = f(y);
+          product = (product * (x > y ? x - y : y - x)) % n;
+        }
+        divisor = gcd(product, n);
+      }
+    }
+    // A batch may overshoot to n; step through it again one difference at a time.
+    if (divisor === n) {
+      do {
+        ys = f(ys);
+        divisor = gcd(x > ys ? x - ys : ys - x, n);
+      } while (divisor === 1n);
+    }
+    if (divisor !== n) return divisor;
+  }
+}
+
+/**
+ * Factors a positive integer into primes.
+ * @param n The number to factor.
+ * @returns Each prime factor with its multiplicity.
+ */
+export function factorInteger(n: bigint): Map<bigint, number> {
+  const factors = new Map<bigint, number>();
+  const add = (p: bigint) => factors.set(p, (factors.get(p) ?? 0) + 1);
+
+  let rest = n;
+  for (const p of SMALL_PRIMES) {
+    while (rest % p === 0n) {
+      add(p);
+      rest /= p;
+    }
+  }
+
+  const pending = rest > 1n ? [rest] : [];
+  while (pending.length > 0) {
+    const m = pending.pop() as bigint;
+    if (isPrime(m, 20)) {
+      add(m);
+    } else {
+      const d = pollardRho(m);
+      pending.push(d, m / d);
+    }
+  }
+  return factors;
+}
+
+/**
+ * Computes the Carmichael function λ(N), the exponent of the multiplicative group mod N.
+ * @param N The modulus, at least 2.
+ * @returns λ(N) and its distinct prime factors.
+ */
+function carmichaelLambda(N: bigint): { lambda: bigint; primes: bigint[] } {
+  let lambda = 1n;
+  const primes = new Set<bigint>();
+  for (const [p, exponent] of factorInteger(N)) {
+    // λ(p^e) = p^(e-1)(p-1), except λ(2^e) = 2^(e-2) for e >= 3.
+    const pPower = p === 2n && exponent >= 3 ? 2n ** BigInt(exponent - 2) : p ** BigInt(exponent - 1) * (p - 1n);
+    lambda = (lambda / gcd(lambda, pPower)) * pPower;
+    if (exponent > 1) primes.add(p);
+    for (const q of factorInteger(p - 1n).keys()) primes.add(q);
+  }
+  return { lambda, primes: [...primes] };
+}
+
+/**
+ * Finds the multiplicative order of 'a' modulo N.
+ * Starting from λ(N), each prime factor is divided out for as long as 'a' raised
+ * to the smaller exponent is still 1.
+ * @param a The base, co-prime with N.
+ * @param N The modulus.
+ * @returns The smallest r > 0 such that a^r ≡ 1 (mod N).
+ */
+export function multiplicativeOrder(a: bigint, N: bigint): bigint {
+  if (gcd(a, N) !== 1n) {
+    throw new Error("The multiplicative order needs a base co-prime with N.");
+  }
+  if (N === 1n) return 1n;
+
+  const { lambda, primes } = carmichaelLambda(N);
+  let r = lambda;
+  for (const p of primes) {
+    while (r % p === 0n && power(a, r / p, N) === 1n) {
+      r /= p;
+    }
+  }
+  return r;
+}
@@ -0,0 +1,90 @@
+/**
+ * @file periodFinders.ts
+ * This file contains the backends for the quantum period-finding step of
+ * Shor's algorithm. `runShor` delegates the measurement of the first register
+ * to one of these, so new simulators can be added without changing the
+ * surrounding classical steps.
+ */
+
+import { PeriodFinder, PeriodFinderId, PeriodFinderSelection } from '../types';
+import { canSimulate, sampleMeasurement } from './stateVector';
+import { multiplicativeOrder } from './order';
+import { randomBigIntInRange } from './random';
+
+/**
+ * Simulates the first register as a state vector and samples 'c' from its
+ * real measurement distribution. Only available for small registers and small N.
+ */
+export const stateVectorPeriodFinder: PeriodFinder = {
+  id: 'state-vector',
+  supports: canSimulate,
+  measure: (a, N, t, random) => sampleMeasurement(a, N, t, random),
+};
+
+/**
+ * Finds the period 'r' classically and simulates a measurement 'c' that lies
+ * exactly on a peak. In a real quantum computer, we would not know 'r' beforehand.
+ */
+export const classicalOraclePeriodFinder: PeriodFinder = {
+  id: 'classical-oracle',
+  supports: () => true,
+  measure: (a, N, t, random) => {
+    const r = multiplicativeOrder(a, N);
+    const q = 2n ** BigInt(t);
+    // Simulate a measurement 'c' which would be approximately s*q/r for some random s in [1, r-1].
+    const s = r > 1n ? randomBigIntInRange(1n, r - 1n, random) : 1n;
+    return (s * q) / r;
+  },
+};
+
+/**
+ * Creates a backend that replays previously recorded measurements in order,
+ * starting again from the first one when the list is exhausted.
+ * @param measurements The recorded values of 'c'.
+ * @returns A period finder returning the recorded values.
+ */
+export function createReplayPeriodFinder(measurements: bigint[]): PeriodFinder {
+  if (measurements.length === 0) {
+    throw new Error("A replay backend needs at least one recorded measurement.");
+  }
+  let next = 0;
+  return {
+    id: 'replay',
+    supports: () => true,
+    measure: () => {
+      const c = measurements[next];
+      next = (next + 1) % measurements.length;
+      return c;
+    },
+  };
+}
+
+/**
+ * The backends that can be selected by identifier.
+ * The replay backend needs recorded data and is created with `createReplayPeriodFinder`.
+ */
+export const periodFinders: Record<Exclude<PeriodFinderId, 'replay'>, PeriodFinder> = {
+  'state-vector': stateVectorPeriodFinder,
+  'classical-oracle': classicalOraclePeriodFinder,
+};
+
+/** The backend choices offered in the selectors of the UI, in display order. */
+export const PERIOD_FINDER_OPTIONS: PeriodFinderSelection[] = ['auto', 'state-vector', 'classical-oracle'];
+
+/**
+ * Resolves a backend selection to a concrete period finder for N and a register of `t` qubits.
+ * @param selection A backend identifier, `auto`, or a period finder instance.
+ * @param N The number being factored.
+ * @param t The number of qubits in the first register.
+ * @returns The period finder to use.
+ */
+export function resolvePeriodFinder(selection: PeriodFinderSelection | PeriodFinder, N: bigint, t: number): PeriodFinder {
+  if (typeof selection !== 'string') return selection;
+  if (selection === 'auto') {
+    return stateVectorPeriodFinder.supports(N, t) ? stateVectorPeriodFinder : classicalOraclePeriodFinder;
+  }
+  if (selection === 'replay') {
+    throw new Error("The replay backend must be created with recorded measurements.");
+  }
+  return periodFinders[selection];
+}
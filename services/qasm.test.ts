@@ -0,0 +1,103 @@
+/**
+ * @file qasm.test.ts
+ * Round-trip tests for the OpenQASM export: every exported program must parse
+ * back with the registers, gates and measurements of the circuit it was written
+ * from, and each controlled multiplication must permute the work register as
+ * x ↦ m·x mod N. Run with `npm test`.
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PeriodFindingCircuit, QasmInstruction, QasmVersion } from '../types';
+import { buildPeriodFindingCircuit } from './circuit';
+import { circuitToQasm, parseQasm } from './qasm';
+
+/** The circuits exported in the tests, as (a, N, t). */
+const CASES: [bigint, bigint, number][] = [
+  [7n, 15n, 8],
+  [2n, 15n, 4],
+  [2n, 21n, 10],
+  [5n, 33n, 6],
+  [3n, 35n, 5],
+];
+
+/** The versions every circuit is exported to. */
+const VERSIONS: QasmVersion[] = [2, 3];
+
+/**
+ * Applies classical reversible gates to a basis state.
+ * @param instructions The parsed instructions; only x, cx and ccx with modifiers are allowed.
+ * @param state The value of every qubit, changed in place.
+ */
+function applyClassically(instructions: QasmInstruction[], state: number[]): void {
+  for (const { gate, qubits, controls, negatedControls } of instructions) {
+    assert.ok(['x', 'cx', 'ccx'].includes(gate), `unexpected gate ${gate} in an oracle`);
+    const target = qubits[qubits.length - 1];
+    const active = [...qubits.slice(0, -1), ...controls].every(qubit => state[qubit] === 1)
+      && negatedControls.every(qubit => state[qubit] === 0);
+    if (active) state[target] ^= 1;
+  }
+}
+
+/**
+ * Builds a circuit holding a single controlled multiplication, controlled by counting qubit 0.
+ * @param circuit The circuit the multiplication is taken from.
+ * @param multiplier The multiplier.
+ * @returns A circuit with one counting qubit and the same work register.
+ */
+function singleMultiplication(circuit: PeriodFindingCircuit, multiplier: bigint): PeriodFindingCircuit {
+  return {
+    ...circuit,
+    countingQubits: 1,
+    operations: [{ kind: 'controlled-multiply', control: 0, multiplier, stage: 'modular-exponentiation' }],
+  };
+}
+
+describe('circuitToQasm and parseQasm', () => {
+  for (const [a, N, t] of CASES) {
+    for (const version of VERSIONS) {
+      it(`round-trips a = ${a}, N = ${N}, t = ${t} through OpenQASM ${version}`, () => {
+        const circuit = buildPeriodFindingCircuit(a, N, t);
+        const program = parseQasm(circuitToQasm(circuit, version));
+
+        assert.equal(program.version, version);
+        const registers = program.qubitRegisters.map(({ name, size }) => `${name}[${size}]`);
+        const ancillas = version === 2 && circuit.workQubits > 2 ? [`anc[${circuit.workQubits - 2}]`] : [];
+        assert.deepEqual(registers, [`q[${t}]`, `w[${circuit.workQubits}]`, ...ancillas]);
+        assert.equal(program.bitCount, t);
+
+        // The Hadamards of the preparation and of the inverse QFT, and one rotation per pair of qubits.
+        const count = (gate: string) => program.instructions.filter(instruction => instruction.gate === gate).length;
+        assert.equal(count('h'), 2 * t);
+        assert.equal(count(version === 2 ? 'cu1' : 'cp'), (t * (t - 1)) / 2);
+        const measurements = program.instructions.filter(instruction => instruction.gate === 'measure');
+        assert.deepEqual(measurements.map(({ qubits, bit }) => [qubits[0], bit]), Array.from({ length: t }, (_, j) => [j, j]));
+      });
+
+      it(`exports each oracle for a = ${a}, N = ${N} as x ↦ m·x mod N in OpenQASM ${version}`, () => {
+        const circuit = buildPeriodFindingCircuit(a, N, t);
+        const { workQubits } = circuit;
+        const multipliers = new Set(circuit.operations.flatMap(op => (op.kind === 'controlled-multiply' ? [op.multiplier] : [])));
+
+        for (const multiplier of multipliers) {
+          const program = parseQasm(circuitToQasm(singleMultiplication(circuit, multiplier), version));
+          const qubitCount = program.qubitRegisters.reduce((sum, { size }) => sum + size, 0);
+          for (const control of [0, 1]) {
+            for (let x = 0; x < 2 ** workQubits; x++) {
+              // Qubit 0 is the control, then the work register from its least significant bit, then the ancillas.
+              const state = Array.from({ length: qubitCount }, (_, qubit) =>
+                qubit === 0 ? control : qubit <= workQubits ? (x >> (qubit - 1)) & 1 : 0);
+              applyClassically(program.instructions, state);
+
+              const result = state.slice(1, workQubits + 1).reduce((sum, value, i) => sum + value * 2 ** i, 0);
+              const expected = control === 1 && x < Number(N) ? Number((multiplier * BigInt(x)) % N) : x;
+              assert.equal(result, expected, `m = ${multiplier}, control = ${control}, x = ${x}`);
+              assert.equal(state[0], control);
+              assert.ok(state.slice(workQubits + 1).every(value => value === 0), 'the ancillas are restored');
+            }
+          }
+        }
+      });
+    }
+  }
+});
@@ -0,0 +1,450 @@
+/**
+ * @file qasm.ts
+ * This file exports the period-finding circuit as an OpenQASM 2 or 3 program,
+ * so the exact circuit drawn by the explorer can be run on other simulators or
+ * hardware. Each controlled multiplication becomes a gate definition built from
+ * NOT gates, following `multiplicationOracle`. It also contains a parser for the
+ * subset of OpenQASM it writes, which expands every gate definition and checks
+ * the registers, gate names and arities, so an exported file can be read back
+ * and checked in the tests.
+ */
+
+import { CircuitOperation, OracleGate, PeriodFindingCircuit, QasmInstruction, QasmProgram, QasmVersion } from '../types';
+import { multiplicationOracle } from './circuit';
+
+/**
+ * The largest N whose circuit can be exported. The oracle exchanges the basis
+ * states of the work register one pair at a time, so its size grows with N.
+ */
+export const MAX_QASM_N = 1024n;
+
+/** The standard library included by each version. */
+const STANDARD_LIBRARY: Record<QasmVersion, string> = {
+  2: 'qelib1.inc',
+  3: 'stdgates.inc',
+};
+
+/** The gates of each standard library, with their numbers of qubits and of angle parameters. */
+const STANDARD_GATES: Record<QasmVersion, Record<string, { qubits: number; params: number }>> = {
+  2: {
+    id: { qubits: 1, params: 0 },
+    x: { qubits: 1, params: 0 },
+    y: { qubits: 1, params: 0 },
+    z: { qubits: 1, params: 0 },
+    h: { qubits: 1, params: 0 },
+    s: { qubits: 1, params: 0 },
+    sdg: { qubits: 1, params: 0 },
+    t: { qubits: 1, params: 0 },
+    tdg: { qubits: 1, params: 0 },
+    rx: { qubits: 1, params: 1 },
+    ry: { qubits: 1, params: 1 },
+    rz: { qubits: 1, params: 1 },
+    u1: { qubits: 1, params: 1 },
+    cx: { qubits: 2, params: 0 },
+    cz: { qubits: 2, params: 0 },
+    cu1: { qubits: 2, params: 1 },
+    ccx: { qubits: 3, params: 0 },
+  },
+  3: {
+    x: { qubits: 1, params: 0 },
+    y: { qubits: 1, params: 0 },
+    z: { qubits: 1, params: 0 },
+    h: { qubits: 1, params: 0 },
+    s: { qubits: 1, params: 0 },
+    sdg: { qubits: 1, params: 0 },
+    t: { qubits: 1, params: 0 },
+    tdg: { qubits: 1, params: 0 },
+    rx: { qubits: 1, params: 1 },
+    ry: { qubits: 1, params: 1 },
+    rz: { qubits: 1, params: 1 },
+    p: { qubits: 1, params: 1 },
+    cx: { qubits: 2, params: 0 },
+    cz: { qubits: 2, params: 0 },
+    cp: { qubits: 2, params: 1 },
+    swap: { qubits: 2, params: 0 },
+    ccx: { qubits: 3, params: 0 },
+  },
+};
+
+/**
+ * The name of the gate definition for a controlled multiplication.
+ * @param multiplier The multiplier m.
+ * @param N The modulus.
+ * @returns An identifier such as `mul_7_mod_15`.
+ */
+const multiplyGateName = (multiplier: bigint, N: bigint) => `mul_${multiplier}_mod_${N}`;
+
+/**
+ * The angle of the inverse phase rotation R_k†, -2π/2^k, as an OpenQASM expression.
+ * @param k The index of the rotation, at least 2.
+ * @returns An expression such as `-pi/4`.
+ */
+const phaseAngle = (k: number) => `-pi/${2 ** (k - 1)}`;
+
+/**
+ * Writes a NOT gate with several controls. OpenQASM 3 uses the `ctrl` modifier;
+ * OpenQASM 2 has no such gate above two controls, so a ladder of Toffolis computes
+ * the AND of the controls into ancillas, flips the target and uncomputes the ladder.
+ * @param version The OpenQASM version.
+ * @param controls The control qubits.
+ * @param target The target qubit.
+ * @param ancillas The ancillas available to OpenQASM 2, at least `controls.length - 2` of them.
+ * @returns The statements, one per line.
+ */
+function multiControlledX(version: QasmVersion, controls: string[], target: string, ancillas: string[]): string[] {
+  if (controls.length === 1) return [`cx ${controls[0]}, ${target};`];
+  if (controls.length === 2) return [`ccx ${controls[0]}, ${controls[1]}, ${target};`];
+  if (version === 3) return [`ctrl(${controls.length}) @ x ${[...controls, target].join(', ')};`];
+
+  const ladder = [`ccx ${controls[0]}, ${controls[1]}, ${ancillas[0]};`];
+  for (let i = 2; i < controls.length - 1; i++) {
+    ladder.push(`ccx ${controls[i]}, ${ancillas[i - 2]}, ${ancillas[i - 1]};`);
+  }
+  return [...ladder, `ccx ${controls[controls.length - 1]}, ${ancillas[controls.length - 3]}, ${target};`, ...[...ladder].reverse()];
+}
+
+/**
+ * Writes the gate definition of a controlled multiplication.
+ * @param version The OpenQASM version.
+ * @param multiplier The multiplier m.
+ * @param N The modulus.
+ * @param workQubits The number of qubits of the work register.
+ * @param ancillaCount The number of ancillas the definition takes as arguments.
+ * @returns The definition, one line per statement.
+ */
+function multiplyGateDefinition(version: QasmVersion, multiplier: bigint, N: bigint, workQubits: number, ancillaCount: number): string[] {
+  const work = Array.from({ length: workQubits }, (_, i) => `w${i}`);
+  const ancillas = Array.from({ length: ancillaCount }, (_, i) => `anc${i}`);
+  const body = multiplicationOracle(multiplier, N, workQubits).flatMap((gate: OracleGate) => {
+    switch (gate.kind) {
+      case 'x':
+        return [`x ${work[gate.target]};`];
+      case 'cx':
+        return [`cx ${work[gate.control]}, ${work[gate.target]};`];
+      case 'mcx':
+        return multiControlledX(version, ['ctl', ...gate.controls.map(i => work[i])], work[gate.target], ancillas);
+    }
+  });
+  return [
+    `// Multiplies the work register by ${multiplier} mod ${N} when ctl is |1>.`,
+    `gate ${multiplyGateName(multiplier, N)} ${['ctl', ...work, ...ancillas].join(', ')} {`,
+    ...body.map(line => `  ${line}`),
+    '}',
+  ];
+}
+
+/**
+ * Writes the period-finding circuit as an OpenQASM program.
+ * Counting qubit j is `q[j]` and holds bit j of the measured value, which is stored in `c[j]`;
+ * work qubit i is `w[i]`. OpenQASM 2 files also declare the ancillas `anc` of the oracles.
+ * @param circuit The circuit, as built by `buildPeriodFindingCircuit`.
+ * @param version The OpenQASM version to write.
+ * @returns The program text.
+ */
+export function circuitToQasm(circuit: PeriodFindingCircuit, version: QasmVersion): string {
+  if (circuit.n > MAX_QASM_N) {
+    throw new Error(`The OpenQASM export is limited to N <= ${MAX_QASM_N}.`);
+  }
+  const { a, n, countingQubits, workQubits, operations } = circuit;
+  const ancillaCount = version === 2 ? Math.max(0, workQubits - 2) : 0;
+  const ancillas = Array.from({ length: ancillaCount }, (_, i) => `anc[${i}]`);
+  const work = Array.from({ length: workQubits }, (_, i) => `w[${i}]`);
+
+  const lines = [
+    version === 2 ? 'OPENQASM 2.0;' : 'OPENQASM 3.0;',
+    `include "${STANDARD_LIBRARY[version]}";`,
+    '',
+    `// Period finding for a = ${a}, N = ${n}: f(x) = ${a}^x mod ${n}.`,
+    '',
+  ];
+
+  // One definition per distinct multiplier, in the order they first appear.
+  const multipliers = [...new Set(operations.flatMap(op => (op.kind === 'controlled-multiply' ? [op.multiplier] : [])))];
+  for (const multiplier of multipliers) {
+    lines.push(...multiplyGateDefinition(version, multiplier, n, workQubits, ancillaCount), '');
+  }
+
+  if (version === 2) {
+    lines.push(`qreg q[${countingQubits}];`, `qreg w[${workQubits}];`);
+    if (ancillaCount > 0) lines.push(`qreg anc[${ancillaCount}];`);
+    lines.push(`creg c[${countingQubits}];`);
+  } else {
+    lines.push(`qubit[${countingQubits}] q;`, `qubit[${workQubits}] w;`, `bit[${countingQubits}] c;`);
+  }
+
+  let stage: CircuitOperation['stage'] | null = null;
+  for (const op of operations) {
+    if (op.stage !== stage) {
+      stage = op.stage;
+      lines.push('', `// ${stage}`);
+    }
+    switch (op.kind) {
+      case 'h':
+        lines.push(`h q[${op.target}];`);
+        break;
+      case 'x':
+        lines.push(`x w[${op.target}];`);
+        break;
+      case 'controlled-multiply':
+        lines.push(`${multiplyGateName(op.multiplier, n)} ${[`q[${op.control}]`, ...work, ...ancillas].join(', ')};`);
+        break;
+      case 'controlled-phase':
+        lines.push(`${version === 2 ? 'cu1' : 'cp'}(${phaseAngle(op.k)}) q[${op.control}], q[${op.target}];`);
+        break;
+      case 'swap':
+        if (version === 2) {
+          const [first, second] = [`q[${op.first}]`, `q[${op.second}]`];
+          lines.push(`cx ${first}, ${second};`, `cx ${second}, ${first};`, `cx ${first}, ${second};`);
+        } else {
+          lines.push(`swap q[${op.first}], q[${op.second}];`);
+        }
+        break;
+      case 'measure':
+        lines.push(version === 2 ? `measure q[${op.target}] -> c[${op.target}];` : `c[${op.target}] = measure q[${op.target}];`);
+        break;
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/** A gate definition read from a program. */
+interface GateDefinition {
+  params: string[];
+  qubits: string[];
+  body: string[];
+}
+
+/**
+ * Evaluates an angle expression made of numbers, `pi`, parameters, + - * / and parentheses.
+ * @param source The expression.
+ * @param bindings The values of the parameters in scope.
+ * @returns The value of the expression.
+ */
+function evaluateExpression(source: string, bindings: Map<string, number>): number {
+  const tokens = source.match(/\d+(?:\.\d*)?(?:e[+-]?\d+)?|\.\d+|[A-Za-z_π][\w]*|[-+*/()]|\S/g) ?? [];
+  let position = 0;
+
+  const primary = (): number => {
+    const token = tokens[position++];
+    if (token === undefined) throw new Error(`Unexpected end of expression "${source}".`);
+    if (token === '-') return -primary();
+    if (token === '+') return primary();
+    if (token === '(') {
+      const value = sum();
+      if (tokens[position++] !== ')') throw new Error(`Missing ")" in "${source}".`);
+      return value;
+    }
+    if (token === 'pi' || token === 'π') return Math.PI;
+    if (/^[\d.]/.test(token)) return Number(token);
+    const bound = bindings.get(token);
+    if (bound === undefined) throw new Error(`Unknown identifier "${token}" in "${source}".`);
+    return bound;
+  };
+  const product = (): number => {
+    let value = primary();
+    while (tokens[position] === '*' || tokens[position] === '/') {
+      value = tokens[position++] === '*' ? value * primary() : value / primary();
+    }
+    return value;
+  };
+  const sum = (): number => {
+    let value = product();
+    while (tokens[position] === '+' || tokens[position] === '-') {
+      value = tokens[position++] === '+' ? value + product() : value - product();
+    }
+    return value;
+  };
+
+  const value = sum();
+  if (position !== tokens.length) throw new Error(`Unexpected "${tokens[position]}" in "${source}".`);
+  return value;
+}
+
+/**
+ * Splits a program into statements. A gate definition is one statement, including its body.
+ * @param source The program, without comments.
+ * @returns The statements, without their terminating `;`.
+ */
+function splitStatements(source: string): string[] {
+  const statements: string[] = [];
+  let position = 0;
+  while (position < source.length) {
+    const rest = source.slice(position);
+    const leading = rest.length - rest.trimStart().length;
+    if (leading === rest.length) break;
+    const start = position + leading;
+    const isDefinition = /^gate\s/.test(source.slice(start));
+    const end = source.indexOf(isDefinition ? '}' : ';', start);
+    if (end === -1) throw new Error(`Unterminated statement "${source.slice(start).trim()}".`);
+    statements.push(source.slice(start, isDefinition ? end + 1 : end).trim());
+    position = end + 1;
+  }
+  return statements;
+}
+
+/**
+ * Parses a program in the subset of OpenQASM 2 and 3 written by `circuitToQasm`:
+ * the standard library, register declarations, gate definitions, gate applications
+ * with `ctrl` and `negctrl` modifiers, and measurements of single qubits.
+ * @param source The program text.
+ * @returns The program, with every gate definition expanded.
+ * @throws An error describing the first malformed statement.
+ */
+export function parseQasm(source: string): QasmProgram {
+  const statements = splitStatements(source.replace(/\/\/[^\n]*/g, '').replace(/\/\*[\s\S]*?\*\//g, ''));
+  const header = /^OPENQASM\s+(2\.0|3(?:\.0)?)$/.exec(statements[0] ?? '');
+  if (!header) throw new Error('The program must start with an OPENQASM 2.0 or 3.0 header.');
+  const version: QasmVersion = header[1] === '2.0' ? 2 : 3;
+
+  const qubitRegisters: QasmProgram['qubitRegisters'] = [];
+  const qubitOffsets = new Map<string, number>();
+  const bitRegisters = new Map<string, { offset: number; size: number }>();
+  let qubitCount = 0;
+  let bitCount = 0;
+  let hasStandardLibrary = false;
+  const definitions = new Map<string, GateDefinition>();
+  const instructions: QasmInstruction[] = [];
+
+  /**
+   * Declares a register, rejecting a name already in use.
+   * @param kind Whether the register holds qubits or bits.
+   * @param name The name of the register.
+   * @param size The number of qubits or bits.
+   */
+  const declare = (kind: 'qubit' | 'bit', name: string, size: number) => {
+    if (qubitOffsets.has(name) || bitRegisters.has(name) || definitions.has(name)) {
+      throw new Error(`"${name}" is declared twice.`);
+    }
+    if (kind === 'qubit') {
+      qubitRegisters.push({ name, size });
+      qubitOffsets.set(name, qubitCount);
+      qubitCount += size;
+    } else {
+      bitRegisters.set(name, { offset: bitCount, size });
+      bitCount += size;
+    }
+  };
+
+  /**
+   * Resolves a reference such as `q[3]` to an index.
+   * @param reference The reference.
+   * @param kind Whether it refers to a qubit or a bit.
+   * @returns The index among all declared qubits or bits.
+   */
+  const resolve = (reference: string, kind: 'qubit' | 'bit') => {
+    const match = /^([A-Za-z_]\w*)\s*\[\s*(\d+)\s*\]$/.exec(reference.trim());
+    if (!match) throw new Error(`"${reference.trim()}" is not a single ${kind}.`);
+    const [, name, indexText] = match;
+    const index = Number(indexText);
+    const offset = kind === 'qubit' ? qubitOffsets.get(name) : bitRegisters.get(name)?.offset;
+    const size = kind === 'qubit' ? qubitRegisters.find(register => register.name === name)?.size : bitRegisters.get(name)?.size;
+    if (offset === undefined || size === undefined) throw new Error(`Unknown ${kind} register "${name}".`);
+    if (index >= size) throw new Error(`${reference.trim()} is outside the register "${name}" of size ${size}.`);
+    return offset + index;
+  };
+
+  /**
+   * Parses a gate application and appends its expanded instructions.
+   * @param statement The statement.
+   * @param qubitOf Resolves a qubit argument to an index.
+   * @param bindings The values of the angle parameters in scope.
+   */
+  const apply = (statement: string, qubitOf: (argument: string) => number, bindings: Map<string, number>) => {
+    let rest = statement;
+    const controlCounts: { negated: boolean; count: number }[] = [];
+    let modifier: RegExpExecArray | null;
+    while ((modifier = /^(ctrl|negctrl)\s*(?:\(\s*(\d+)\s*\))?\s*@\s*/.exec(rest))) {
+      if (version === 2) throw new Error(`Gate modifiers need OpenQASM 3: "${statement}".`);
+      controlCounts.push({ negated: modifier[1] === 'negctrl', count: Number(modifier[2] ?? 1) });
+      rest = rest.slice(modifier[0].length);
+    }
+
+    const call = /^([A-Za-z_]\w*)\s*(?:\(([^)]*)\))?\s+(.+)$/.exec(rest);
+    if (!call) throw new Error(`Cannot read the statement "${statement}".`);
+    const [, name, paramText, argumentText] = call;
+    const params = paramText === undefined || paramText.trim() === '' ? [] : paramText.split(',').map(param => evaluateExpression(param, bindings));
+    const qubits = argumentText.split(',').map(qubitOf);
+    if (new Set(qubits).size !== qubits.length) throw new Error(`A qubit is used twice in "${statement}".`);
+
+    // The modifiers take their control qubits from the front of the argument list.
+    const controls: number[] = [];
+    const negatedControls: number[] = [];
+    let taken = 0;
+    for (const { negated, count } of controlCounts) {
+      (negated ? negatedControls : controls).push(...qubits.slice(taken, taken + count));
+      taken += count;
+    }
+    const targets = qubits.slice(taken);
+    expand(name, params, targets, controls, negatedControls, statement);
+  };
+
+  /**
+   * Expands a gate into standard gates, adding the given controls to each of them.
+   * @param name The name of the gate.
+   * @param params The values of its angle parameters.
+   * @param qubits The qubits it acts on.
+   * @param controls The controls added by modifiers.
+   * @param negatedControls The negated controls added by modifiers.
+   * @param statement The statement, for error messages.
+   */
+  const expand = (name: string, params: number[], qubits: number[], controls: number[], negatedControls: number[], statement: string) => {
+    const definition = definitions.get(name);
+    if (definition) {
+      if (definition.params.length !== params.length || definition.qubits.length !== qubits.length) {
+        throw new Error(`"${name}" takes ${definition.params.length} parameters and ${definition.qubits.length} qubits: "${statement}".`);
+      }
+      const bindings = new Map(definition.params.map((param, i) => [param, params[i]]));
+      const qubitOf = (argument: string) => {
+        const index = definition.qubits.indexOf(argument.trim());
+        if (index === -1) throw new Error(`Unknown qubit "${argument.trim()}" in the definition of "${name}".`);
+        return qubits[index];
+      };
+      for (const inner of definition.body) {
+        const before = instructions.length;
+        apply(inner, qubitOf, bindings);
+        for (let i = before; i < instructions.length; i++) {
+          instructions[i].controls.push(...controls);
+          instructions[i].negatedControls.push(...negatedControls);
+        }
+      }
+      return;
+    }
+
+    const standard = hasStandardLibrary ? STANDARD_GATES[version][name] : undefined;
+    if (!standard) throw new Error(`Unknown gate "${name}".`);
+    if (standard.params !== params.length || standard.qubits !== qubits.length) {
+      throw new Error(`"${name}" takes ${standard.params} parameters and ${standard.qubits} qubits: "${statement}".`);
+    }
+    instructions.push({ gate: name, params, qubits, controls: [...controls], negatedControls: [...negatedControls] });
+  };
+
+  for (const statement of statements.slice(1)) {
+    let match: RegExpExecArray | null;
+    if ((match = /^include\s+"([^"]+)"$/.exec(statement))) {
+      if (match[1] !== STANDARD_LIBRARY[version]) throw new Error(`OpenQASM ${version} programs include "${STANDARD_LIBRARY[version]}", not "${match[1]}".`);
+      hasStandardLibrary = true;
+    } else if (version === 2 && (match = /^(qreg|creg)\s+([A-Za-z_]\w*)\s*\[\s*(\d+)\s*\]$/.exec(statement))) {
+      declare(match[1] === 'qreg' ? 'qubit' : 'bit', match[2], Number(match[3]));
+    } else if (version === 3 && (match = /^(qubit|bit)\s*\[\s*(\d+)\s*\]\s*([A-Za-z_]\w*)$/.exec(statement))) {
+      declare(match[1] === 'qubit' ? 'qubit' : 'bit', match[3], Number(match[2]));
+    } else if ((match = /^gate\s+([A-Za-z_]\w*)\s*(?:\(([^)]*)\))?\s*([^{]+)\{([^}]*)\}$/.exec(statement))) {
+      const [, name, paramText, qubitText, bodyText] = match;
+      if (definitions.has(name) || STANDARD_GATES[version][name]) throw new Error(`The gate "${name}" is defined twice.`);
+      definitions.set(name, {
+        params: paramText === undefined || paramText.trim() === '' ? [] : paramText.split(',').map(param => param.trim()),
+        qubits: qubitText.split(',').map(qubit => qubit.trim()),
+        body: bodyText.split(';').map(inner => inner.trim()).filter(inner => inner !== ''),
+      });
+    } else if (
+      (match = version === 2 ? /^measure\s+(.+?)\s*->\s*(.+)$/.exec(statement) : /^(.+?)\s*=\s*measure\s+(.+)$/.exec(statement))
+    ) {
+      const [qubitText, bitText] = version === 2 ? [match[1], match[2]] : [match[2], match[1]];
+      instructions.push({ gate: 'measure', params: [], qubits: [resolve(qubitText, 'qubit')], controls: [], negatedControls: [], bit: resolve(bitText, 'bit') });
+    } else {
+      apply(statement, argument => resolve(argument, 'qubit'), new Map());
+    }
+  }
+
+  return { version, qubitRegisters, bitCount, instructions };
+}
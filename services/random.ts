@@ -0,0 +1,63 @@
+/**
+ * @file random.ts
+ * This file contains a small seedable pseudo-random number generator.
+ * Threading it through the simulation makes a run reproducible: the same seed
+ * yields the same bases, measurements and primality witnesses.
+ */
+
+import { RandomSource } from '../types';
+
+/** The largest seed value; seeds are unsigned 32-bit integers. */
+export const MAX_SEED = 0xffffffff;
+
+/**
+ * Creates a deterministic random source from a seed using the Mulberry32 generator.
+ * @param seed An unsigned 32-bit integer.
+ * @returns A function returning numbers in [0, 1), like `Math.random`.
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let z = state;
+    z = Math.imul(z ^ (z >>> 15), z | 1);
+    z ^= z + Math.imul(z ^ (z >>> 7), z | 61);
+    return ((z ^ (z >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Picks a fresh seed for a run where the user did not supply one.
+ * @returns An unsigned 32-bit integer.
+ */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * (MAX_SEED + 1));
+}
+
+/**
+ * Draws a uniformly distributed BigInt from an inclusive range.
+ * Random bits are gathered 32 at a time and out-of-range draws are rejected,
+ * so the result is unbiased for ranges of any size.
+ * @param min The smallest value that may be returned.
+ * @param max The largest value that may be returned.
+ * @param random The random source to draw bits from.
+ * @returns A BigInt in [min, max].
+ */
+export function randomBigIntInRange(min: bigint, max: bigint, random: RandomSource): bigint {
+  if (max < min) {
+    throw new Error("The upper bound of a random range must not be below the lower bound.");
+  }
+  const span = max - min + 1n;
+  for (;;) {
+    let value = 0n;
+    let range = 1n;
+    while (range < span) {
+      value = (value << 32n) | BigInt(Math.floor(random() * 4294967296));
+      range <<= 32n;
+    }
+    // Reject the top partial block so every residue is equally likely.
+    if (value < range - (range % span)) {
+      return min + (value % span);
+    }
+  }
+}
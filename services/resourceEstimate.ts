@@ -0,0 +1,109 @@
+/**
+ * @file resourceEstimate.ts
+ * This file estimates the resources Shor's algorithm would need on a fault-tolerant
+ * quantum computer: logical qubits, Toffoli count and depth for several published
+ * constructions of the modular exponentiation, and a rough surface-code estimate
+ * of the physical qubits and the runtime. The logical figures are the leading-order
+ * formulas compared by Gidney and Ekerå (2019), "How to factor 2048 bit RSA integers
+ * in 8 hours using 20 million noisy qubits"; the physical model follows the same paper.
+ */
+
+import { ResourceConstruction, ResourceEstimate, SurfaceCodeParameters } from '../types';
+
+/** The constructions compared, in display order. */
+export const RESOURCE_CONSTRUCTIONS: ResourceConstruction[] = ['beauregard', 'vedral', 'haner', 'gidney-ekera'];
+
+/** The surface-code parameters assumed by default: 0.1% physical error rate and a 1 μs cycle. */
+export const DEFAULT_SURFACE_CODE: SurfaceCodeParameters = {
+  physicalErrorRate: 1e-3,
+  cycleTimeUs: 1,
+};
+
+/** The physical error rate at which the surface code stops suppressing errors. */
+const SURFACE_CODE_THRESHOLD = 1e-2;
+/** The accepted probability that a logical error spoils the whole run. */
+const TARGET_FAILURE = 0.01;
+/** The largest code distance considered. */
+const MAX_CODE_DISTANCE = 101;
+/** The number of code cycles, in units of d, a CCZ factory takes per magic state. */
+const FACTORY_CYCLES_PER_STATE = 5.5;
+/** The footprint of a CCZ factory, in logical-qubit tiles. */
+const FACTORY_TILES = 72;
+
+/**
+ * The leading-order logical resources of each construction for an n-bit modulus.
+ * The exponent register is recycled by a semiclassical QFT, so it is not counted.
+ */
+const LOGICAL_RESOURCES: Record<ResourceConstruction, (n: number) => { qubits: number; toffoli: number; depth: number }> = {
+  // Rotations of the Fourier-basis adders must be synthesised from T gates.
+  'beauregard': n => ({ qubits: 2 * n + 3, toffoli: 8 * n ** 4, depth: 8 * n ** 3 }),
+  'vedral': n => ({ qubits: 7 * n + 2, toffoli: 80 * n ** 3, depth: 80 * n ** 3 }),
+  'haner': n => ({ qubits: 2 * n + 2, toffoli: 64 * n ** 3 * Math.log2(n), depth: 64 * n ** 3 }),
+  // Windowing replaces most controlled additions by table lookups.
+  'gidney-ekera': n => ({
+    qubits: Math.ceil(3 * n + 0.002 * n * Math.log2(n)),
+    toffoli: 0.3 * n ** 3 + 0.0005 * n ** 3 * Math.log2(n),
+    depth: 500 * n ** 2 + n ** 2 * Math.log2(n),
+  }),
+};
+
+/**
+ * The probability of a logical error per logical qubit and code cycle.
+ * @param distance The code distance.
+ * @param physicalErrorRate The physical error rate.
+ * @returns 0.1 · (p / p_th)^((d+1)/2).
+ */
+function logicalErrorRate(distance: number, physicalErrorRate: number): number {
+  return 0.1 * (physicalErrorRate / SURFACE_CODE_THRESHOLD) ** ((distance + 1) / 2);
+}
+
+/**
+ * Estimates the surface-code realisation of a computation. Every layer of the depth
+ * takes d code cycles, and the smallest odd d is chosen whose accumulated logical
+ * error over all qubits and cycles stays below `TARGET_FAILURE`. Each logical qubit
+ * occupies a tile of 2(d+1)² physical qubits, and enough factories are added to
+ * supply one magic state per Toffoli without slowing the computation down.
+ * @param logicalQubits The number of logical qubits.
+ * @param toffoliCount The number of Toffoli gates.
+ * @param depth The measurement depth.
+ * @param parameters The surface-code parameters.
+ * @returns The physical estimate, or null if no code distance up to the limit suffices.
+ */
+function physicalEstimate(logicalQubits: number, toffoliCount: number, depth: number, parameters: SurfaceCodeParameters): ResourceEstimate['physical'] {
+  const { physicalErrorRate, cycleTimeUs } = parameters;
+  if (physicalErrorRate >= SURFACE_CODE_THRESHOLD) return null;
+
+  for (let distance = 3; distance <= MAX_CODE_DISTANCE; distance += 2) {
+    const cycles = depth * distance;
+    if (logicalQubits * cycles * logicalErrorRate(distance, physicalErrorRate) > TARGET_FAILURE) continue;
+
+    const factories = Math.max(1, Math.ceil((toffoliCount * FACTORY_CYCLES_PER_STATE) / depth));
+    const tile = 2 * (distance + 1) ** 2;
+    return {
+      codeDistance: distance,
+      physicalQubits: (logicalQubits + factories * FACTORY_TILES) * tile,
+      factories,
+      runtimeSeconds: cycles * cycleTimeUs * 1e-6,
+    };
+  }
+  return null;
+}
+
+/**
+ * Estimates the resources of Shor's algorithm for an n-bit modulus with every construction.
+ * @param bits The bit length n of the number being factored.
+ * @param parameters The surface-code parameters.
+ * @returns One estimate per construction, in the order of `RESOURCE_CONSTRUCTIONS`.
+ */
+export function estimateResources(bits: number, parameters: SurfaceCodeParameters = DEFAULT_SURFACE_CODE): ResourceEstimate[] {
+  return RESOURCE_CONSTRUCTIONS.map(construction => {
+    const { qubits, toffoli, depth } = LOGICAL_RESOURCES[construction](bits);
+    return {
+      construction,
+      logicalQubits: qubits,
+      toffoliCount: toffoli,
+      depth,
+      physical: physicalEstimate(qubits, toffoli, depth, parameters),
+    };
+  });
+}
@@ -0,0 +1,37 @@
+/**
+ * @file rsa.test.ts
+ * Tests for the RSA scenario: keys of the largest prime size must round-trip a
+ * message, and Shor's algorithm must break them with `RSA_BREAK_OPTIONS`.
+ * Run with `npm test`.
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateRsaKeyPair, modularInverse, rsaDecrypt, rsaEncrypt, MAX_RSA_PRIME_BITS, RSA_BREAK_OPTIONS } from './rsa';
+import { runShor } from './shor';
+import { createSeededRandom } from './random';
+
+/** The seeds the keys are generated with. */
+const SEEDS = Array.from({ length: 20 }, (_, i) => i + 1);
+
+describe(`RSA keys with ${MAX_RSA_PRIME_BITS}-bit primes`, () => {
+  it('encrypt and decrypt a message', () => {
+    for (const seed of SEEDS) {
+      const { n, e, d } = generateRsaKeyPair(MAX_RSA_PRIME_BITS, createSeededRandom(seed));
+      assert.equal(rsaDecrypt(rsaEncrypt('Shor', n, e).ciphertext, n, d).text, 'Shor');
+    }
+  });
+
+  it('are broken by Shor\'s algorithm with RSA_BREAK_OPTIONS', async () => {
+    for (const seed of SEEDS) {
+      const { p, q, n, e, d } = generateRsaKeyPair(MAX_RSA_PRIME_BITS, createSeededRandom(seed));
+      let factors: bigint[] | null = null;
+      for await (const attempt of runShor(n, undefined, { ...RSA_BREAK_OPTIONS, stepDelayMs: 0, random: createSeededRandom(seed) })) {
+        if (attempt.status === 'success' && attempt.factors) factors = attempt.factors;
+      }
+      assert.ok(factors !== null, `seed ${seed} left ${n} unbroken`);
+      assert.equal(factors[0] * factors[1], p * q);
+      assert.equal(modularInverse(e, (factors[0] - 1n) * (factors[1] - 1n)), d);
+    }
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * @file rsa.ts
+ * This file contains a toy version of RSA, the cryptosystem whose security rests
+ * on the difficulty of factoring: key generation from two small random primes,
+ * the encryption and decryption of a short text, and the modular inverse that
+ * turns the factors of the modulus into the private key.
+ */
+
+import { RandomSource, RsaEncryption, RsaKeyPair, WorkerShorOptions } from '../types';
+import { bitLength, gcd, isPrime, power } from './shor';
+import { randomBigIntInRange } from './random';
+
+/** The smallest bit length of each prime; it keeps N above 2^8, so every block holds a byte. */
+export const MIN_RSA_PRIME_BITS = 5;
+
+/** The largest bit length of each prime; it keeps N below the 2^64 accepted by the explorer. */
+export const MAX_RSA_PRIME_BITS = 32;
+
+/**
+ * The options Shor's algorithm breaks a key with: twice the default attempts, so that
+ * moduli of 2 · `MAX_RSA_PRIME_BITS` bits break reliably even when several bases fail.
+ */
+export const RSA_BREAK_OPTIONS: WorkerShorOptions = {
+  maxAttempts: 20,
+};
+
+/** The most characters of text accepted for encryption. */
+export const MAX_RSA_MESSAGE_LENGTH = 64;
+
+/** The public exponent used by real RSA keys, chosen whenever it is co-prime with φ(N). */
+const STANDARD_PUBLIC_EXPONENT = 65537n;
+
+/**
+ * Draws a random prime with exactly the given number of bits.
+ * The two top bits are set, so the product of two such primes has exactly twice as many bits.
+ * @param bits The bit length of the prime, at least 2.
+ * @param random The random source.
+ * @returns A probable prime in [3·2^(bits-2), 2^bits).
+ */
+function randomPrime(bits: number, random: RandomSource): bigint {
+  const min = 3n << BigInt(bits - 2);
+  const max = (1n << BigInt(bits)) - 1n;
+  for (;;) {
+    const candidate = randomBigIntInRange(min, max, random) | 1n;
+    if (isPrime(candidate, 20, random)) return candidate;
+  }
+}
+
+/**
+ * Computes the inverse of a modulo m with the extended Euclidean algorithm.
+ * @param a The number to invert.
+ * @param m The modulus, greater than 1.
+ * @returns The x in [0, m) with a·x ≡ 1 (mod m).
+ * @throws If a and m are not co-prime, so no inverse exists.
+ */
+export function modularInverse(a: bigint, m: bigint): bigint {
+  // Invariants: oldR ≡ oldS·a and r ≡ s·a (mod m).
+  let [oldR, r] = [((a % m) + m) % m, m];
+  let [oldS, s] = [1n, 0n];
+  while (r !== 0n) {
+    const quotient = oldR / r;
+    [oldR, r] = [r, oldR - quotient * r];
+    [oldS, s] = [s, oldS - quotient * s];
+  }
+  if (oldR !== 1n) {
+    throw new Error(`${a} has no inverse modulo ${m}.`);
+  }
+  return ((oldS % m) + m) % m;
+}
+
+/**
+ * Chooses the public exponent: 65537 when it is allowed, otherwise the smallest odd
+ * number co-prime with φ(N), as small moduli often have φ(N) below or divisible by 65537.
+ * @param phi Euler's totient of the modulus.
+ * @returns An exponent e with 1 < e < φ(N) and gcd(e, φ(N)) = 1.
+ */
+function choosePublicExponent(phi: bigint): bigint {
+  if (STANDARD_PUBLIC_EXPONENT < phi && gcd(STANDARD_PUBLIC_EXPONENT, phi) === 1n) {
+    return STANDARD_PUBLIC_EXPONENT;
+  }
+  let e = 3n;
+  while (gcd(e, phi) !== 1n) e += 2n;
+  return e;
+}
+
+/**
+ * Generates a toy RSA key pair.
+ * @param primeBits The bit length of each of the two primes, between `MIN_RSA_PRIME_BITS` and `MAX_RSA_PRIME_BITS`.
+ * @param random The random source.
+ * @returns The key pair, including the secret primes.
+ */
+export function generateRsaKeyPair(primeBits: number, random: RandomSource): RsaKeyPair {
+  const p = randomPrime(primeBits, random);
+  let q = randomPrime(primeBits, random);
+  while (q === p) q = randomPrime(primeBits, random);
+
+  const phi = (p - 1n) * (q - 1n);
+  const e = choosePublicExponent(phi);
+  return { p, q, n: p * q, phi, e, d: modularInverse(e, phi) };
+}
+
+/**
+ * The number of bytes in each block, the most whose value is always below N.
+ * @param n The modulus.
+ * @returns ⌊(bits of N - 1) / 8⌋.
+ */
+function blockBytes(n: bigint): number {
+  return Math.floor((bitLength(n) - 1) / 8);
+}
+
+/**
+ * Encrypts a text with a public key. The UTF-8 bytes are cut into blocks, the last
+ * one padded with zero bytes, and each block m becomes c = m^e mod N.
+ * @param text The text to encrypt.
+ * @param n The public modulus.
+ * @param e The public exponent.
+ * @returns The plaintext and ciphertext blocks.
+ */
+export function rsaEncrypt(text: string, n: bigint, e: bigint): RsaEncryption {
+  const size = blockBytes(n);
+  const bytes = new TextEncoder().encode(text);
+  const plaintext: bigint[] = [];
+  for (let start = 0; start < bytes.length; start += size) {
+    let block = 0n;
+    for (let i = start; i < start + size; i++) {
+      block = (block << 8n) | BigInt(bytes[i] ?? 0);
+    }
+    plaintext.push(block);
+  }
+  return { text, blockBytes: size, plaintext, ciphertext: plaintext.map(m => power(m, e, n)) };
+}
+
+/**
+ * Decrypts ciphertext blocks with a private key, m = c^d mod N, and reads the text back.
+ * @param ciphertext The ciphertext blocks.
+ * @param n The public modulus.
+ * @param d The private exponent.
+ * @returns The plaintext blocks and the decoded text, without the zero padding.
+ */
+export function rsaDecrypt(ciphertext: bigint[], n: bigint, d: bigint): { plaintext: bigint[]; text: string } {
+  const size = blockBytes(n);
+  const plaintext = ciphertext.map(c => power(c, d, n));
+  const bytes: number[] = [];
+  for (const block of plaintext) {
+    for (let i = size - 1; i >= 0; i--) {
+      bytes.push(Number((block >> BigInt(8 * i)) & 0xffn));
+    }
+  }
+  while (bytes.length > 0 && bytes[bytes.length - 1] === 0) bytes.pop();
+  // A wrong key yields arbitrary bytes, which are shown with replacement characters.
+  return { plaintext, text: new TextDecoder().decode(new Uint8Array(bytes)) };
+}
@@ -0,0 +1,81 @@
+/**
+ * @file runControl.ts
+ * This file contains the pause, step and stop controls for a running factorization.
+ * The attempt generators are lazy, so holding back the next call to `next()`
+ * pauses the algorithm exactly between two of its steps.
+ */
+
+import { RunControl, RunMode } from '../types';
+
+/**
+ * Creates the controls for a single factorization run.
+ * @param onModeChange Called with the new mode whenever it changes.
+ * @returns A run control that starts in the `running` mode.
+ */
+export function createRunControl(onModeChange: (mode: RunMode) => void = () => {}): RunControl {
+  const controller = new AbortController();
+  let mode: RunMode = 'running';
+  // Resolves the pending `waitForTurn` call, if the consumer is waiting.
+  let wake: (() => void) | null = null;
+  // True when a step was requested while the previous step was still in progress.
+  let stepPending = false;
+
+  const setMode = (next: RunMode) => {
+    if (mode === next) return;
+    mode = next;
+    onModeChange(next);
+  };
+
+  const release = () => {
+    const resolve = wake;
+    wake = null;
+    resolve?.();
+  };
+
+  return {
+    signal: controller.signal,
+    get mode() {
+      return mode;
+    },
+    pause() {
+      if (mode !== 'running' && mode !== 'stepping') return;
+      stepPending = false;
+      setMode('paused');
+    },
+    resume() {
+      if (mode === 'stopped') return;
+      stepPending = false;
+      setMode('running');
+      release();
+    },
+    step() {
+      if (mode !== 'paused') return;
+      setMode('stepping');
+      if (wake) {
+        release();
+      } else {
+        stepPending = true;
+      }
+    },
+    stop() {
+      if (mode === 'stopped') return;
+      controller.abort();
+      setMode('stopped');
+      release();
+    },
+    waitForTurn() {
+      if (mode === 'stepping') {
+        if (stepPending) {
+          stepPending = false;
+          return Promise.resolve();
+        }
+        // A single step has been taken: pause again before the next one.
+        setMode('paused');
+      }
+      if (mode !== 'paused') return Promise.resolve();
+      return new Promise<void>(resolve => {
+        wake = resolve;
+      });
+    },
+  };
+}
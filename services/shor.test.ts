@@ -0,0 +1,47 @@
+/**
+ * @file shor.test.ts
+ * Regression tests for the classical post-processing of Shor's algorithm: the
+ * default continued fraction limit must reach the end of every expansion, so
+ * that semiprimes of 60 bits and more factor with the default options.
+ * Run with `npm test`.
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { continuedFractionTermLimit } from './shor';
+import { factorizeCompletely, isFullyFactored } from './factorize';
+import { createSeededRandom } from './random';
+
+/** The seeds each semiprime is factored with. */
+const SEEDS = Array.from({ length: 10 }, (_, i) => i + 1);
+
+describe('continuedFractionTermLimit', () => {
+  it('covers the complete expansion of every c/q up to q = 2^12', () => {
+    for (let t = 1; t <= 12; t++) {
+      const q = 2 ** t;
+      const limit = continuedFractionTermLimit(BigInt(q));
+      for (let c = 0; c < q; c++) {
+        // Count the Euclidean divisions of c/q, one per term.
+        let terms = 0;
+        for (let [numerator, denominator] = [c, q]; denominator !== 0; [numerator, denominator] = [denominator, numerator % denominator]) {
+          terms++;
+        }
+        assert.ok(terms <= limit, `c/q = ${c}/${q} has ${terms} terms, more than ${limit}`);
+      }
+    }
+  });
+});
+
+describe('factorizeCompletely with the default options', () => {
+  for (const [p, q] of [[1000000007n, 1000000009n], [4294967291n, 4294967279n]]) {
+    it(`factors the semiprime ${p} · ${q} for every seed`, async () => {
+      for (const seed of SEEDS) {
+        const run = factorizeCompletely(p * q, undefined, { stepDelayMs: 0, random: createSeededRandom(seed) });
+        let result = await run.next();
+        while (!result.done) result = await run.next();
+        assert.ok(isFullyFactored(result.value), `seed ${seed} left ${p * q} unresolved`);
+        assert.deepEqual(result.value.children.map(child => child.value).sort((x, y) => (x < y ? -1 : 1)), [p, q].sort((x, y) => (x < y ? -1 : 1)));
+      }
+    });
+  }
+});
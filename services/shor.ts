@@ -6,8 +6,27 @@
  * algorithm at each step.
  */
 
-import { ShorAttempt, Convergent } from '../types';
-import type { TranslationSet } from '../i18n/locales';
+import { ShorAttempt, ShorOptions, Convergent, PeriodCandidate, RandomSource } from '../types';
+import { translations, TranslationSet } from '../i18n/locales';
+import { resolvePeriodFinder, createReplayPeriodFinder } from './periodFinders';
+import { randomBigIntInRange } from './random';
+
+/**
+ * The options used for any setting a caller of `runShor` leaves out.
+ */
+export const DEFAULT_SHOR_OPTIONS: ShorOptions = {
+  maxAttempts: 10,
+  stepDelayMs: 500,
+  qubitCount: null,
+  baseStrategy: { kind: 'random' },
+  maxContinuedFractionIterations: null,
+  shotsPerBase: 1,
+  periodFinder: 'auto',
+  random: Math.random,
+  signal: null,
+  pinnedBase: null,
+  pinnedMeasurement: null,
+};
 
 // --- BigInt Math Utility Functions ---
 
@@ -17,7 +36,7 @@ import type { TranslationSet } from '../i18n/locales';
  * @param b The second number.
  * @returns The GCD of a and b.
  */
-function gcd(a: bigint, b: bigint): bigint {
+export function gcd(a: bigint, b: bigint): bigint {
   while (b) {
     [a, b] = [b, a % b];
   }
@@ -31,7 +50,7 @@ function gcd(a: bigint, b: bigint): bigint {
  * @param mod The modulus.
  * @returns The result of (base^exp) % mod.
  */
-function power(base: bigint, exp: bigint, mod: bigint): bigint {
+export function power(base: bigint, exp: bigint, mod: bigint): bigint {
   let res = 1n;
   base %= mod;
   while (exp > 0n) {
@@ -42,13 +61,46 @@ function power(base: bigint, exp: bigint, mod: bigint): bigint {
   return res;
 }
 
+/**
+ * Calculates the least common multiple (LCM) of two positive BigInt numbers.
+ * @param a The first number.
+ * @param b The second number.
+ * @returns The LCM of a and b.
+ */
+function lcm(a: bigint, b: bigint): bigint {
+  return (a / gcd(a, b)) * b;
+}
+
+/**
+ * Computes the number of bits needed to write a non-negative BigInt in binary.
+ * Unlike `Math.log2(Number(n))`, this stays exact for numbers beyond 2^53.
+ * @param n The number to measure.
+ * @returns The bit length of n, or 0 for n = 0.
+ */
+export function bitLength(n: bigint): number {
+  if (n < 0n) n = -n;
+  return n === 0n ? 0 : n.toString(2).length;
+}
+
+/**
+ * The number of continued fraction terms used when no limit is set. By Lamé's theorem the
+ * expansion of any c/q has at most about 1.44·log2(q) + 2 terms, so this never cuts it short,
+ * even for the 120-qubit registers of 60-bit numbers.
+ * @param q The denominator of the fraction, the size of the first register.
+ * @returns Twice the bit length of q.
+ */
+export function continuedFractionTermLimit(q: bigint): number {
+  return 2 * bitLength(q);
+}
+
 /**
  * Computes the convergents of a fraction c/q using the continued fraction algorithm.
  * @param c The numerator of the fraction.
  * @param q The denominator of the fraction.
+ * @param maxIterations The maximum number of terms to compute.
  * @returns An array of Convergent objects.
  */
-function getConvergents(c: bigint, q: bigint): Convergent[] {
+function getConvergents(c: bigint, q: bigint, maxIterations: number = continuedFractionTermLimit(q)): Convergent[] {
   const convergents: Convergent[] = [];
   let temp_c = c;
   let temp_q = q;
@@ -57,7 +109,7 @@ function getConvergents(c: bigint, q: bigint): Convergent[] {
   let kn_2 = 1n, kn_1 = 0n; // Denominators (q)
 
   // Limit iterations to prevent potential infinite loops with large numbers.
-  for (let i = 0; i < 30; i++) {
+  for (let i = 0; i < maxIterations; i++) {
     if (temp_q === 0n) break;
     const a = temp_c / temp_q;
     const next_c = temp_q;
@@ -84,13 +136,99 @@ function getConvergents(c: bigint, q: bigint): Convergent[] {
   return convergents;
 }
 
+/**
+ * The largest multiple of a convergent denominator tried during period recovery.
+ * If the measurement approximates s/r with gcd(s, r) > 1, the denominator is a
+ * proper divisor of 'r', and a small multiple of it is often the true period.
+ */
+const MAX_DENOMINATOR_MULTIPLE = 8n;
+
+/**
+ * Recovers the period 'r' from one or more measurements of the first register.
+ * Each candidate is checked against the actual function, a^r ≡ 1 (mod N), instead of
+ * trusting the last convergent. For each measurement, the convergent denominators are
+ * tried first; with several measurements, the least common multiple of their denominators
+ * is tried next, and finally small multiples of the last denominator.
+ * @param a The base, co-prime with N.
+ * @param N The number being factored.
+ * @param q The size of the first register, `q = 2^t`.
+ * @param measurements The measured values of the first register.
+ * @param maxIterations The maximum number of terms in each continued fraction expansion.
+ * @returns The convergents of the first measurement, every tested candidate, the
+ *          per-measurement denominators, their LCM when several were combined, and the
+ *          verified period (or null).
+ */
+export function recoverPeriod(
+  a: bigint,
+  N: bigint,
+  q: bigint,
+  measurements: bigint[],
+  maxIterations: number = continuedFractionTermLimit(q),
+): {
+  convergents: Convergent[];
+  candidates: PeriodCandidate[];
+  shotDenominators: (bigint | null)[];
+  lcm: bigint | null;
+  period: bigint | null;
+} {
+  const candidates: PeriodCandidate[] = [];
+  const shotDenominators: (bigint | null)[] = [];
+  const tested = new Set<bigint>();
+  let firstConvergents: Convergent[] = [];
+  let combined: bigint | null = null;
+  let combinedShots = 0;
+
+  // Tests a candidate once and records it; returns true if it is a period of a^x mod N.
+  const test = (value: bigint, source: PeriodCandidate['source'], shot: number): boolean => {
+    if (value <= 0n || value >= N || tested.has(value)) return false;
+    tested.add(value);
+    const verified = power(a, value, N) === 1n;
+    candidates.push({ value, source, shot, verified });
+    return verified;
+  };
+  const result = (period: bigint | null) => ({
+    convergents: firstConvergents,
+    candidates,
+    shotDenominators,
+    lcm: combinedShots > 1 ? combined : null,
+    period,
+  });
+
+  for (let shot = 0; shot < measurements.length; shot++) {
+    const convergents = getConvergents(measurements[shot], q, maxIterations);
+    if (shot === 0) firstConvergents = convergents;
+
+    // The denominators of the convergents are candidates for 'r'.
+    const denominators = convergents.map(conv => conv.denominator).filter(d => d > 0n && d < N);
+    for (const d of denominators) {
+      if (test(d, 'convergent', shot)) return result(d);
+    }
+
+    const last = denominators.length > 0 ? denominators[denominators.length - 1] : null;
+    shotDenominators.push(last);
+    if (last === null) continue;
+
+    // Each measurement reveals a divisor r/gcd(s, r) of the period; their LCM converges to 'r'.
+    combined = combined === null ? last : lcm(combined, last);
+    combinedShots++;
+    if (combinedShots > 1 && test(combined, 'lcm', shot)) return result(combined);
+
+    for (let k = 2n; k <= MAX_DENOMINATOR_MULTIPLE && k * last < N; k++) {
+      if (test(k * last, 'multiple', shot)) return result(k * last);
+    }
+  }
+
+  return result(null);
+}
+
 /**
  * Checks if a BigInt is prime using the Miller-Rabin probabilistic test.
  * @param n The number to test.
  * @param k The number of rounds (witnesses) to test. Higher k means more accuracy.
+ * @param random The random source used to pick witnesses.
  * @returns True if n is likely prime, false if it is composite.
  */
-export function isPrime(n: bigint, k: number = 10): boolean {
+export function isPrime(n: bigint, k: number = 10, random: RandomSource = Math.random): boolean {
   if (n <= 1n) return false;
   if (n === 2n || n === 3n) return true;
   if (n % 2n === 0n) return false;
@@ -106,7 +244,7 @@ export function isPrime(n: bigint, k: number = 10): boolean {
   // Witness loop
   for (let i = 0; i < k; i++) {
     // Pick a random witness 'a' in [2, n-2]
-    const a = 2n + BigInt(Math.floor(Math.random() * (Number(n) - 3)));
+    const a = randomBigIntInRange(2n, n - 2n, random);
     let x = power(a, d, n);
 
     if (x === 1n || x === n - 1n) {
@@ -131,29 +269,131 @@ export function isPrime(n: bigint, k: number = 10): boolean {
 }
 
 
+/**
+ * Waits for the given number of milliseconds; resolves immediately for 0.
+ * The wait ends early when the signal is aborted, and the abort reason is then thrown.
+ * @param ms The delay in milliseconds.
+ * @param signal The signal of the run, or null.
+ */
+export async function delay(ms: number, signal: AbortSignal | null): Promise<void> {
+  if (ms > 0 && !signal?.aborted) {
+    await new Promise<void>(res => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        res();
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        res();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+  signal?.throwIfAborted();
+}
+
+/**
+ * Chooses the base 'a' for an attempt according to the base selection strategy.
+ * @param strategy The base selection strategy.
+ * @param index The zero-based index of the attempt.
+ * @param N The number being factored.
+ * @param random The random source for the `random` strategy.
+ * @returns The base for this attempt, or null if the strategy has no more bases.
+ */
+function chooseBase(strategy: ShorOptions['baseStrategy'], index: number, N: bigint, random: RandomSource): bigint | null {
+  switch (strategy.kind) {
+    case 'sequential': {
+      const a = 2n + BigInt(index);
+      return a < N ? a : null;
+    }
+    case 'list':
+      return index < strategy.bases.length ? strategy.bases[index] : null;
+    case 'random':
+    default:
+      return randomBigIntInRange(2n, N - 1n, random);
+  }
+}
+
 /**
  * An async generator function that simulates Shor's algorithm to factor a given number N.
  * It yields the state of the computation at each major step, allowing the UI to update in real-time.
  * @param N The odd integer greater than 1 to be factored.
- * @param t The translation object for generating error messages.
+ * @param t The translation object for generating error messages. Defaults to English for callers outside the UI.
+ * @param options The run options; any option left out takes its value from `DEFAULT_SHOR_OPTIONS`.
  * @yields {ShorAttempt} An object representing the current state of the factorization attempt.
+ * @throws The abort reason of `options.signal` once the signal is aborted.
  */
-export async function* runShor(N: bigint, t: TranslationSet): AsyncGenerator<ShorAttempt, void, undefined> {
+export async function* runShor(
+  N: bigint,
+  t: TranslationSet = translations.en,
+  options: Partial<ShorOptions> = {},
+): AsyncGenerator<ShorAttempt, void, undefined> {
+  const {
+    maxAttempts,
+    stepDelayMs,
+    qubitCount,
+    baseStrategy,
+    maxContinuedFractionIterations,
+    shotsPerBase,
+    periodFinder,
+    random,
+    signal,
+    pinnedBase,
+    pinnedMeasurement,
+  } = { ...DEFAULT_SHOR_OPTIONS, ...options };
+
   if (N <= 1n || N % 2n === 0n) {
     throw new Error("Input must be an odd integer greater than 1.");
   }
+  if (baseStrategy.kind === 'list') {
+    const invalidBase = baseStrategy.bases.find(base => base < 2n || base >= N);
+    if (invalidBase !== undefined) {
+      throw new Error(t.shorErrorBaseOutOfRange(invalidBase.toString(), N.toString()));
+    }
+  }
+  if (pinnedBase !== null && (pinnedBase < 2n || pinnedBase >= N)) {
+    throw new Error(t.shorErrorBaseOutOfRange(pinnedBase.toString(), N.toString()));
+  }
+
+  // Determine the number of qubits 't' for the first register: by default the smallest t with 2^t >= N^2.
+  // Fewer qubits make the peaks too wide for the continued fractions to recover 'r' reliably.
+  const t_num = qubitCount ?? bitLength(N * N - 1n);
+  const t_bigint = BigInt(t_num);
+  const q = 2n ** t_bigint;
+  const termLimit = maxContinuedFractionIterations ?? continuedFractionTermLimit(q);
+
+  if (pinnedMeasurement !== null && (pinnedMeasurement < 0n || pinnedMeasurement >= q)) {
+    throw new Error(t.shorErrorMeasurementOutOfRange(pinnedMeasurement.toString(), q.toString()));
+  }
+
+  // A pinned measurement replaces the backend, so every shot returns the chosen 'c'.
+  const finder = pinnedMeasurement !== null
+    ? createReplayPeriodFinder([pinnedMeasurement])
+    : resolvePeriodFinder(periodFinder, N, t_num);
+  if (!finder.supports(N, t_num)) {
+    throw new Error(t.shorErrorBackendUnsupported(t.periodFinderNames[finder.id], N.toString(), t_num));
+  }
 
-  const MAX_ATTEMPTS = 10;
   let attemptId = 0;
 
-  for (let i = 0; i < MAX_ATTEMPTS; i++) {
+  // Pinning both 'a' and 'c' makes the run a single, fully determined attempt.
+  // With only 'a' pinned, every attempt reuses it with a fresh measurement.
+  const attemptLimit = pinnedBase !== null && pinnedMeasurement !== null ? 1 : maxAttempts;
+
+  for (let i = 0; i < attemptLimit; i++) {
+    signal?.throwIfAborted();
+
+    // 1. Pick a base 'a' in [2, N-1]
+    const a = pinnedBase ?? chooseBase(baseStrategy, i, N, random);
+    if (a === null) break; // The strategy has run out of bases.
     attemptId++;
-    // 1. Pick a random base 'a'
-    const a = BigInt(Math.floor(Math.random() * (Number(N) - 2))) + 2n;
     
-    let currentAttempt: ShorAttempt = { id: attemptId, n: N, a, status: 'running' };
+    let currentAttempt: ShorAttempt = { id: attemptId, n: N, a, status: 'running', periodFinder: finder.id };
+    if (pinnedBase !== null || pinnedMeasurement !== null) {
+      currentAttempt.pinned = { base: pinnedBase !== null, measurement: pinnedMeasurement !== null };
+    }
     yield currentAttempt;
-    await new Promise(res => setTimeout(res, 500)); // Pause for UI animation
+    await delay(stepDelayMs, signal); // Pause for UI animation
 
     // 2. Check if 'a' shares a factor with N
     const commonDivisor = gcd(a, N);
@@ -161,58 +401,60 @@ export async function* runShor(N: bigint, t: TranslationSet): AsyncGenerator<Sho
 
     if (commonDivisor > 1n) {
       currentAttempt.status = 'success';
+      currentAttempt.outcome = 'lucky-gcd';
       currentAttempt.factors = [commonDivisor, N / commonDivisor];
       yield currentAttempt;
       return; // Factorization complete
     }
     yield currentAttempt;
-    await new Promise(res => setTimeout(res, 500));
+    await delay(stepDelayMs, signal);
 
     // --- Quantum Part Simulation ---
-    // In a real quantum computer, we would not know the period 'r' beforehand.
-    // For this simulation, we first find 'r' classically to simulate a realistic measurement 'c'.
-    let r = 1n;
-    let val = a % N;
-    while (val !== 1n) {
-      val = (val * a) % N;
-      r++;
+    // The selected backend performs period finding and measures the first register, once per shot.
+    const measurements: bigint[] = [];
+    const shots = pinnedMeasurement !== null ? 1 : shotsPerBase;
+    for (let shot = 0; shot < shots; shot++) {
+      measurements.push(finder.measure(a, N, t_num, random));
     }
+    const c = measurements[0];
 
-    // Determine the number of qubits 't' for the first register.
-    const t_num = Math.ceil(2 * Math.log2(Number(N)));
-    const t_bigint = BigInt(t_num);
-    const q = 2n ** t_bigint;
-
-    // Simulate a measurement 'c' which would be approximately s*q/r for some random s.
-    const s = BigInt(Math.floor(Math.random() * (Number(r) - 1))) + 1n;
-    const c = (s * q) / r;
-
-    currentAttempt.quantumResult = { c, q, t: t_num };
+    currentAttempt.quantumResult = { c, q, t: t_num, measurements, maxContinuedFractionIterations: termLimit };
     yield currentAttempt;
-    await new Promise(res => setTimeout(res, 500));
+    await delay(stepDelayMs, signal);
 
     // --- Classical Part: Continued Fractions ---
-    // 3. Find the period 'r' from the measurement 'c'.
-    const convergents = getConvergents(c, q);
-    let candidateR: bigint | null = null;
-    // The denominators of the convergents are candidates for 'r'.
-    for(const conv of convergents) {
-        if(conv.denominator > 0 && conv.denominator < N) {
-            candidateR = conv.denominator;
-        }
-    }
+    // 3. Recover the period 'r' from the measurements.
+    const recovery = recoverPeriod(a, N, q, measurements, termLimit);
 
-    if (!candidateR) {
+    if (recovery.candidates.length === 0) {
         currentAttempt.status = 'failed';
         currentAttempt.error = t.shorErrorContFraction;
+        currentAttempt.outcome = 'continued-fraction';
         yield currentAttempt;
         continue; // Try a new 'a'
     }
-    
-    currentAttempt.fractionResult = { convergents, candidateR };
+
+    // Without a verified period, report the last candidate that was tried.
+    const candidateR = recovery.period ?? recovery.candidates[recovery.candidates.length - 1].value;
+    currentAttempt.fractionResult = {
+      convergents: recovery.convergents,
+      candidateR,
+      candidates: recovery.candidates,
+      shotDenominators: recovery.shotDenominators,
+    };
+    if (recovery.lcm !== null) {
+      currentAttempt.fractionResult.lcm = recovery.lcm;
+    }
+    if (recovery.period === null) {
+      currentAttempt.status = 'failed';
+      currentAttempt.error = t.shorErrorPeriodUnverified;
+      currentAttempt.outcome = 'period-unverified';
+      yield currentAttempt;
+      continue; // Try a new 'a'
+    }
     currentAttempt.period = candidateR;
     yield currentAttempt;
-    await new Promise(res => setTimeout(res, 1000));
+    await delay(stepDelayMs * 2, signal);
     
     // --- 4. Verification of the period 'r' ---
     const period = candidateR;
@@ -226,11 +468,12 @@ export async function* runShor(N: bigint, t: TranslationSet): AsyncGenerator<Sho
     
     currentAttempt.verification = { isPeriodOdd, isTrivial };
     yield currentAttempt;
-    await new Promise(res => setTimeout(res, 500));
+    await delay(stepDelayMs, signal);
 
     if (isPeriodOdd) {
       currentAttempt.status = 'failed';
       currentAttempt.error = t.shorErrorPeriodOdd;
+      currentAttempt.outcome = 'odd-period';
       yield currentAttempt;
       continue; // Try a new 'a'
     }
@@ -238,6 +481,7 @@ export async function* runShor(N: bigint, t: TranslationSet): AsyncGenerator<Sho
     if (isTrivial) {
       currentAttempt.status = 'failed';
       currentAttempt.error = t.shorErrorTrivial;
+      currentAttempt.outcome = 'trivial-root';
       yield currentAttempt;
       continue; // Try a new 'a'
     }
@@ -250,12 +494,14 @@ export async function* runShor(N: bigint, t: TranslationSet): AsyncGenerator<Sho
 
     if (p1 > 1n && p1 < N) {
         currentAttempt.status = 'success';
+        currentAttempt.outcome = 'success';
         currentAttempt.factors = [p1, N / p1];
         yield currentAttempt;
         return; // Factorization complete
     }
      if (p2 > 1n && p2 < N) {
         currentAttempt.status = 'success';
+        currentAttempt.outcome = 'success';
         currentAttempt.factors = [p2, N / p2];
         yield currentAttempt;
         return; // Factorization complete
@@ -264,6 +510,7 @@ export async function* runShor(N: bigint, t: TranslationSet): AsyncGenerator<Sho
     // If factors are 1 or N, the attempt failed.
     currentAttempt.status = 'failed';
     currentAttempt.error = t.shorErrorFactorsTrivial;
+    currentAttempt.outcome = 'trivial-factors';
     yield currentAttempt;
   }
 }
\ No newline at end of file
@@ -0,0 +1,91 @@
+/**
+ * @file shor.worker.ts
+ * The Web Worker that runs the simulation jobs off the main thread, so a
+ * long simulation or order computation never freezes the page. Each job is an
+ * async generator; the worker answers every `next` request with a single value
+ * of the generator and otherwise stays idle.
+ */
+
+import { ShorOptions, ShorWorkerJob, ShorWorkerRequest, ShorWorkerResponse, WorkerShorOptions } from '../types';
+import { factorizeCompletely } from './factorize';
+import { runShor } from './shor';
+import { runDiscreteLog } from './discreteLog';
+import { collectStatistics } from './statistics';
+import { runClassicalBaselines } from './classicalFactoring';
+import { createSeededRandom } from './random';
+import { serialize, deserialize } from './workerProtocol';
+import { translations, TranslationSet } from '../i18n/locales';
+
+// The job started by the last `start` request, and the controller that cancels it.
+let run: AsyncGenerator<unknown, unknown, undefined> | null = null;
+let controller: AbortController | null = null;
+
+/**
+ * Sends a response to the page.
+ * @param response The message to send.
+ */
+function respond(response: ShorWorkerResponse): void {
+  self.postMessage(response);
+}
+
+/**
+ * Creates the generator that performs a job.
+ * @param job The job requested by the page.
+ * @param t The translation object for generating error messages.
+ * @param options The options for each run of Shor's algorithm.
+ * @returns The generator of the job.
+ */
+function startJob(job: ShorWorkerJob, t: TranslationSet, options: Partial<ShorOptions>): AsyncGenerator<unknown, unknown, undefined> {
+  switch (job.kind) {
+    case 'factorize':
+      return factorizeCompletely(deserialize<bigint>(job.n), t, options);
+    case 'shor':
+      return runShor(deserialize<bigint>(job.n), t, options);
+    case 'discrete-log':
+      return runDiscreteLog(deserialize<bigint>(job.p), deserialize<bigint>(job.g), deserialize<bigint>(job.h), t, options);
+    case 'statistics':
+      return collectStatistics(deserialize<bigint[]>(job.ns), job.trialsPerN, t, options);
+    case 'classical':
+      return runClassicalBaselines(deserialize<bigint>(job.n), options.signal ?? null);
+  }
+}
+
+/**
+ * Advances the job by one step and reports the result to the page.
+ */
+async function advance(): Promise<void> {
+  if (!run || !controller) {
+    respond({ type: 'error', message: 'The worker has no job to advance.', aborted: false });
+    return;
+  }
+  const signal = controller.signal;
+  try {
+    const step = await run.next();
+    respond({ type: step.done === true ? 'return' : 'yield', value: serialize(step.value) });
+  } catch (e: any) {
+    respond({ type: 'error', message: e?.message ?? String(e), aborted: signal.aborted });
+  }
+}
+
+self.addEventListener('message', (event: MessageEvent<ShorWorkerRequest>) => {
+  const request = event.data;
+  switch (request.type) {
+    case 'start': {
+      controller?.abort();
+      controller = new AbortController();
+      const options = deserialize<WorkerShorOptions>(request.options);
+      run = startJob(request.job, translations[request.language], {
+        ...options,
+        random: createSeededRandom(request.seed),
+        signal: controller.signal,
+      });
+      break;
+    }
+    case 'next':
+      void advance();
+      break;
+    case 'cancel':
+      controller?.abort();
+      break;
+  }
+});
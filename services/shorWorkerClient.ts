@@ -0,0 +1,198 @@
+/**
+ * @file shorWorkerClient.ts
+ * The page side of the simulation worker. It wraps the worker's message protocol
+ * in async generators with the same shape as the drivers they run, so the UI
+ * consumes updates exactly as it would from `factorizeCompletely` itself.
+ */
+
+import {
+  ClassicalFactoringResult,
+  DiscreteLogAttempt,
+  FactorNode,
+  Language,
+  ShorAttempt,
+  ShorWorkerJob,
+  ShorWorkerRequest,
+  ShorWorkerResponse,
+  StatisticsProgress,
+  StatisticsRow,
+  WorkerShorOptions,
+} from '../types';
+import { serialize, deserialize } from './workerProtocol';
+
+/**
+ * Runs a job in a dedicated Web Worker and relays its generator.
+ * The worker only computes the next value when the generator is asked for it,
+ * so a consumer that stops calling `next()` also pauses the job.
+ * @param job The job to run.
+ * @param seed The seed of the random source created in the worker.
+ * @param language The language of the error messages.
+ * @param options The options for each run of Shor's algorithm.
+ * @param signal A signal that cancels the job and terminates the worker when aborted.
+ * @yields {Y} Each value yielded by the job.
+ * @returns The value returned by the job.
+ * @throws The abort reason of `signal` once the signal is aborted.
+ */
+async function* runInWorker<Y, R>(
+  job: ShorWorkerJob,
+  seed: number,
+  language: Language,
+  options: WorkerShorOptions,
+  signal: AbortSignal | null,
+): AsyncGenerator<Y, R, undefined> {
+  signal?.throwIfAborted();
+  const worker = new Worker(new URL('./shor.worker.ts', import.meta.url), { type: 'module' });
+  const send = (request: ShorWorkerRequest) => worker.postMessage(request);
+
+  // The worker answers every `next` request with exactly one response,
+  // so at most one request is ever waiting.
+  let pending: { resolve: (response: ShorWorkerResponse<Y, R>) => void; reject: (reason: unknown) => void } | null = null;
+  worker.onmessage = (event: MessageEvent<ShorWorkerResponse<Y, R>>) => pending?.resolve(event.data);
+  worker.onerror = (event: ErrorEvent) => pending?.reject(new Error(event.message));
+
+  // Cancel the job in the worker, stop waiting for it and terminate the worker: the
+  // worker may be busy in a long computation, and a consumer that was between two
+  // requests may never resume the generator, so its finally block may never run.
+  const onAbort = () => {
+    send({ type: 'cancel' });
+    pending?.reject(signal?.reason);
+    worker.terminate();
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  const requestNext = () => new Promise<ShorWorkerResponse<Y, R>>((resolve, reject) => {
+    pending = { resolve, reject };
+    send({ type: 'next' });
+  });
+
+  try {
+    send({ type: 'start', job, seed, language, options: serialize(options) });
+    for (;;) {
+      const response = await requestNext();
+      pending = null;
+      switch (response.type) {
+        case 'yield':
+          yield deserialize<Y>(response.value);
+          break;
+        case 'return':
+          return deserialize<R>(response.value);
+        case 'error':
+          if (response.aborted) signal?.throwIfAborted();
+          throw new Error(response.message);
+      }
+    }
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+    worker.terminate();
+  }
+}
+
+/**
+ * Completely factors N in a dedicated Web Worker.
+ * @param N The integer greater than 1 to be factored.
+ * @param seed The seed of the random source created in the worker.
+ * @param language The language of the error messages.
+ * @param options The options for each run of Shor's algorithm.
+ * @param signal A signal that cancels the run and terminates the worker when aborted.
+ * @yields {ShorAttempt} The current state of the attempt on the cofactor being split.
+ * @returns The root of the factorization tree.
+ */
+export function factorizeInWorker(
+  N: bigint,
+  seed: number,
+  language: Language,
+  options: WorkerShorOptions = {},
+  signal: AbortSignal | null = null,
+): AsyncGenerator<ShorAttempt, FactorNode, undefined> {
+  return runInWorker<ShorAttempt, FactorNode>({ kind: 'factorize', n: serialize(N) }, seed, language, options, signal);
+}
+
+/**
+ * Runs Shor's algorithm on N in a dedicated Web Worker.
+ * @param N The odd integer greater than 1 to be factored.
+ * @param seed The seed of the random source created in the worker.
+ * @param language The language of the error messages.
+ * @param options The options of the run.
+ * @param signal A signal that cancels the run and terminates the worker when aborted.
+ * @yields {ShorAttempt} The current state of the attempt in progress.
+ */
+export function runShorInWorker(
+  N: bigint,
+  seed: number,
+  language: Language,
+  options: WorkerShorOptions = {},
+  signal: AbortSignal | null = null,
+): AsyncGenerator<ShorAttempt, void, undefined> {
+  return runInWorker<ShorAttempt, void>({ kind: 'shor', n: serialize(N) }, seed, language, options, signal);
+}
+
+/**
+ * Runs Shor's algorithm for the discrete logarithm of h to the base g modulo p in a dedicated Web Worker.
+ * @param p The prime modulus.
+ * @param g The base.
+ * @param h The target.
+ * @param seed The seed of the random source created in the worker.
+ * @param language The language of the error messages.
+ * @param options The options of the run.
+ * @param signal A signal that cancels the run and terminates the worker when aborted.
+ * @yields {DiscreteLogAttempt} The current state of the attempt in progress.
+ */
+export function discreteLogInWorker(
+  p: bigint,
+  g: bigint,
+  h: bigint,
+  seed: number,
+  language: Language,
+  options: WorkerShorOptions = {},
+  signal: AbortSignal | null = null,
+): AsyncGenerator<DiscreteLogAttempt, void, undefined> {
+  return runInWorker<DiscreteLogAttempt, void>(
+    { kind: 'discrete-log', p: serialize(p), g: serialize(g), h: serialize(h) },
+    seed,
+    language,
+    options,
+    signal,
+  );
+}
+
+/**
+ * Collects the outcome statistics of repeated runs of Shor's algorithm in a dedicated Web Worker.
+ * @param ns The numbers to factor, each an odd composite.
+ * @param trialsPerN The number of runs for each N.
+ * @param seed The seed of the random source shared by all runs.
+ * @param language The language of the error messages.
+ * @param options The options for each run of Shor's algorithm.
+ * @param signal A signal that cancels the job and terminates the worker when aborted.
+ * @yields {StatisticsProgress} The progress after every run.
+ * @returns The statistics of each N.
+ */
+export function collectStatisticsInWorker(
+  ns: bigint[],
+  trialsPerN: number,
+  seed: number,
+  language: Language,
+  options: WorkerShorOptions = {},
+  signal: AbortSignal | null = null,
+): AsyncGenerator<StatisticsProgress, StatisticsRow[], undefined> {
+  return runInWorker<StatisticsProgress, StatisticsRow[]>(
+    { kind: 'statistics', ns: serialize(ns), trialsPerN },
+    seed,
+    language,
+    options,
+    signal,
+  );
+}
+
+/**
+ * Runs every classical factoring algorithm on N in a dedicated Web Worker.
+ * @param N The odd composite number to factor.
+ * @param signal A signal that cancels the job and terminates the worker when aborted.
+ * @yields {ClassicalFactoringResult} The result of each algorithm as soon as it has finished.
+ */
+export function classicalBaselinesInWorker(
+  N: bigint,
+  signal: AbortSignal | null = null,
+): AsyncGenerator<ClassicalFactoringResult, void, undefined> {
+  // The algorithms use neither the random source nor the messages, so the seed and language are placeholders.
+  return runInWorker<ClassicalFactoringResult, void>({ kind: 'classical', n: serialize(N) }, 0, 'en', {}, signal);
+}
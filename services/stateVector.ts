@@ -0,0 +1,245 @@
+/**
+ * @file stateVector.ts
+ * This file contains a small state-vector simulator for the period-finding
+ * register of Shor's algorithm. Instead of computing the period classically,
+ * it builds the amplitudes of the first register after the modular
+ * exponentiation and the inverse Quantum Fourier Transform, and samples the
+ * measured value 'c' from the resulting probability distribution. For small
+ * registers, it also lists the joint state of both registers after every stage
+ * of the circuit for the register inspector.
+ */
+
+import { RandomSource, RegisterAmplitude, RegisterInspection } from '../types';
+
+/**
+ * The largest first register (in qubits) the simulator will allocate.
+ * A register of `t` qubits needs two Float64Arrays of length 2^t.
+ */
+export const MAX_SIMULATED_QUBITS = 18;
+
+/**
+ * The exclusive upper bound on N for the simulator. f(x) is tabulated with JS numbers
+ * in a Uint32Array, so every product value·a, with both factors below N, must stay
+ * below 2^53 and every value must fit in 32 bits.
+ */
+export const MAX_SIMULATED_N = 2n ** 26n;
+
+/**
+ * The largest first register (in qubits) whose joint state with the second register
+ * is listed by the inspector. After the inverse QFT, the state has up to r·2^t terms.
+ */
+export const MAX_INSPECTED_QUBITS = 10;
+
+/** Amplitudes whose squared magnitude is below this are rounding noise and not listed. */
+const NEGLIGIBLE_PROBABILITY = 1e-12;
+
+/**
+ * Checks whether a first register of `t` qubits and the number N are small enough to simulate.
+ * @param N The number being factored.
+ * @param t The number of qubits in the first register.
+ * @returns True if the register can be simulated as a state vector.
+ */
+export function canSimulate(N: bigint, t: number): boolean {
+  return t > 0 && t <= MAX_SIMULATED_QUBITS && N < MAX_SIMULATED_N;
+}
+
+/**
+ * Computes f(x) = a^x mod N for every basis state x of the first register.
+ * This is the classical content of the modular exponentiation stage.
+ * @param a The base.
+ * @param N The modulus.
+ * @param q The size of the first register, `q = 2^t`.
+ * @returns A table where entry x holds a^x mod N.
+ */
+function modularExponentiationTable(a: number, N: number, q: number): Uint32Array {
+  const table = new Uint32Array(q);
+  let value = 1;
+  for (let x = 0; x < q; x++) {
+    table[x] = value;
+    value = (value * a) % N;
+  }
+  return table;
+}
+
+/**
+ * Applies the inverse Quantum Fourier Transform to a state vector in place.
+ * This is a radix-2 FFT with the e^(-2πi xc/q) sign, normalised by 1/√q.
+ * @param re The real parts of the amplitudes.
+ * @param im The imaginary parts of the amplitudes.
+ */
+function inverseQft(re: Float64Array, im: Float64Array): void {
+  const q = re.length;
+
+  // Reorder the amplitudes by bit-reversed index.
+  for (let i = 1, j = 0; i < q; i++) {
+    let bit = q >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  // Combine butterflies of increasing size.
+  for (let len = 2; len <= q; len <<= 1) {
+    const half = len >> 1;
+    const angle = (-2 * Math.PI) / len;
+    for (let start = 0; start < q; start += len) {
+      for (let k = 0; k < half; k++) {
+        const wRe = Math.cos(angle * k);
+        const wIm = Math.sin(angle * k);
+        const i = start + k;
+        const j = i + half;
+        const vRe = re[j] * wRe - im[j] * wIm;
+        const vIm = re[j] * wIm + im[j] * wRe;
+        re[j] = re[i] - vRe;
+        im[j] = im[i] - vIm;
+        re[i] += vRe;
+        im[i] += vIm;
+      }
+    }
+  }
+
+  const norm = 1 / Math.sqrt(q);
+  for (let i = 0; i < q; i++) {
+    re[i] *= norm;
+    im[i] *= norm;
+  }
+}
+
+/**
+ * Builds the amplitudes of the first register after the second register has
+ * been found in the state |y⟩ and the inverse QFT has been applied.
+ * @param table The modular exponentiation table f(x) for every x.
+ * @param y The value of the second register.
+ * @returns The real and imaginary parts of the first register's amplitudes.
+ */
+function firstRegisterAmplitudes(table: Uint32Array, y: number): { re: Float64Array; im: Float64Array } {
+  const q = table.length;
+  const re = new Float64Array(q);
+  const im = new Float64Array(q);
+
+  // After the modular exponentiation, the first register holds an equal
+  // superposition of every x with f(x) = y.
+  let count = 0;
+  for (let x = 0; x < q; x++) {
+    if (table[x] === y) count++;
+  }
+  const amplitude = 1 / Math.sqrt(count);
+  for (let x = 0; x < q; x++) {
+    if (table[x] === y) re[x] = amplitude;
+  }
+
+  inverseQft(re, im);
+  return { re, im };
+}
+
+/**
+ * Simulates the period-finding circuit and samples a measurement of the first register.
+ * Measuring the second register first does not change the statistics of the first
+ * (principle of deferred measurement), so a value y is drawn with the probability
+ * of f(x) = y, and 'c' is then drawn from |amplitude|² of the first register.
+ * @param a The base, co-prime with N.
+ * @param N The number being factored.
+ * @param t The number of qubits in the first register.
+ * @param random The random source for both measurements.
+ * @returns The measured value 'c' in [0, 2^t).
+ */
+export function sampleMeasurement(a: bigint, N: bigint, t: number, random: RandomSource = Math.random): bigint {
+  if (!canSimulate(N, t)) {
+    throw new Error(`A register of ${t} qubits for N = ${N} is too large to simulate.`);
+  }
+  const q = 2 ** t;
+  const table = modularExponentiationTable(Number(a % N), Number(N), q);
+
+  // Measure the second register: every x is equally likely, so f(x) of a uniform x.
+  const y = table[Math.floor(random() * q)];
+  const { re, im } = firstRegisterAmplitudes(table, y);
+
+  // Sample 'c' from the |amplitude|² distribution of the first register.
+  let threshold = random();
+  for (let c = 0; c < q; c++) {
+    threshold -= re[c] * re[c] + im[c] * im[c];
+    if (threshold < 0) return BigInt(c);
+  }
+  return BigInt(q - 1);
+}
+
+/**
+ * Checks whether the joint state for a first register of `t` qubits and the number N is small enough to inspect.
+ * N has the bound of `canSimulate`, since the inspector builds the same table of a^x mod N.
+ * @param N The number being factored.
+ * @param t The number of qubits in the first register.
+ * @returns True if the register inspector can list the state.
+ */
+export function canInspect(N: bigint, t: number): boolean {
+  return t > 0 && t <= MAX_INSPECTED_QUBITS && N < MAX_SIMULATED_N;
+}
+
+/**
+ * Computes the joint state of both registers after each stage of the period-finding
+ * circuit: the initial |0⟩|0⟩, the uniform superposition with the work register set to
+ * |1⟩, the entangled state Σ|x⟩|a^x mod N⟩, the state after the inverse QFT on the
+ * first register, and the state left once the second register has been measured.
+ * @param a The base, co-prime with N.
+ * @param N The number being factored.
+ * @param t The number of qubits in the first register.
+ * @param measured The value the second register is measured in; it must be a power of a mod N.
+ * @returns The snapshots, together with the possible values of the second register.
+ * @throws If the register is too large to inspect or `measured` is not a power of a.
+ */
+export function inspectRegisters(a: bigint, N: bigint, t: number, measured: number): RegisterInspection {
+  if (!canInspect(N, t)) {
+    throw new Error(`A register of ${t} qubits for N = ${N} is too large to inspect.`);
+  }
+  const q = 2 ** t;
+  const table = modularExponentiationTable(Number(a % N), Number(N), q);
+
+  // The values of f with the number of x that map to each, in increasing order.
+  const counts = new Map<number, number>();
+  for (const y of table) counts.set(y, (counts.get(y) ?? 0) + 1);
+  const values = [...counts.keys()].sort((left, right) => left - right);
+  if (!counts.has(measured)) {
+    throw new Error(`The second register cannot be measured in ${measured}.`);
+  }
+
+  const uniform = 1 / Math.sqrt(q);
+  const allX = Array.from({ length: q }, (_, x) => x);
+
+  // The first register is transformed separately for each value of the second one.
+  const transformed = values.map(y => {
+    const { re, im } = firstRegisterAmplitudes(table, y);
+    // firstRegisterAmplitudes normalises each branch; its weight in the joint state is √(count/q).
+    const weight = Math.sqrt(counts.get(y)! / q);
+    return { y, re: re.map(value => value * weight), im: im.map(value => value * weight) };
+  });
+  const measuredBranch = firstRegisterAmplitudes(table, measured);
+
+  /**
+   * Lists the non-negligible amplitudes of one branch of the second register.
+   * @param y The value of the second register.
+   * @param re The real parts of the first register's amplitudes.
+   * @param im The imaginary parts of the first register's amplitudes.
+   */
+  const branch = (y: number, re: ArrayLike<number>, im: ArrayLike<number>): RegisterAmplitude[] =>
+    allX
+      .filter(x => re[x] * re[x] + im[x] * im[x] >= NEGLIGIBLE_PROBABILITY)
+      .map(x => ({ x, y, re: re[x], im: im[x] }));
+
+  return {
+    q,
+    outcomes: values.map(y => ({ y, probability: counts.get(y)! / q })),
+    measured,
+    snapshots: [
+      { stage: 'initial', amplitudes: [{ x: 0, y: 0, re: 1, im: 0 }] },
+      { stage: 'prepare', amplitudes: allX.map(x => ({ x, y: 1, re: uniform, im: 0 })) },
+      {
+        stage: 'modular-exponentiation',
+        amplitudes: values.flatMap(y => allX.filter(x => table[x] === y).map(x => ({ x, y, re: uniform, im: 0 }))),
+      },
+      { stage: 'inverse-qft', amplitudes: transformed.flatMap(({ y, re, im }) => branch(y, re, im)) },
+      { stage: 'measure', amplitudes: branch(measured, measuredBranch.re, measuredBranch.im) },
+    ],
+  };
+}
@@ -0,0 +1,149 @@
+/**
+ * @file statistics.ts
+ * This file contains the batch statistics mode: it runs Shor's algorithm many
+ * times per N, without animation, and counts how often the attempts end in each
+ * outcome. The results can be summed over all N and exported as CSV.
+ */
+
+import { AttemptOutcome, ShorOptions, StatisticsCounts, StatisticsProgress, StatisticsRow } from '../types';
+import type { TranslationSet } from '../i18n/locales';
+import { runShor, isPrime } from './shor';
+import { findPerfectPower } from './factorize';
+
+/** Every attempt outcome, in the order they are reported. */
+export const ATTEMPT_OUTCOMES: AttemptOutcome[] = [
+  'lucky-gcd',
+  'continued-fraction',
+  'period-unverified',
+  'odd-period',
+  'trivial-root',
+  'trivial-factors',
+  'success',
+];
+
+/**
+ * Creates counts with every value at zero.
+ * @returns Empty statistics counts.
+ */
+function emptyCounts(): StatisticsCounts {
+  const outcomes = {} as Record<AttemptOutcome, number>;
+  for (const outcome of ATTEMPT_OUTCOMES) outcomes[outcome] = 0;
+  return { trials: 0, successfulTrials: 0, attempts: 0, outcomes, attemptsToSuccess: 0 };
+}
+
+/**
+ * Lists the numbers in a range that Shor's algorithm can split: odd composites
+ * that are not perfect powers. Primes have nothing to split, and perfect powers
+ * only ever give trivial square roots of 1.
+ * @param from The first number of the range.
+ * @param to The last number of the range.
+ * @returns The suitable numbers in ascending order.
+ */
+export function statisticsCandidates(from: bigint, to: bigint): bigint[] {
+  const ns: bigint[] = [];
+  for (let n = from % 2n === 0n ? from + 1n : from; n <= to; n += 2n) {
+    if (n > 3n && !isPrime(n) && !findPerfectPower(n)) ns.push(n);
+  }
+  return ns;
+}
+
+/**
+ * Runs Shor's algorithm repeatedly on every N and counts the outcomes of the attempts.
+ * Animation delays are disabled; the random source of the options is shared by all runs,
+ * so a seeded source makes the whole batch reproducible.
+ * @param ns The numbers to factor, each an odd composite.
+ * @param trialsPerN The number of runs for each N.
+ * @param t The translation object for generating error messages.
+ * @param options The options for each run of Shor's algorithm.
+ * @yields {StatisticsProgress} The progress after every run.
+ * @returns The statistics of each N, in the order of `ns`.
+ */
+export async function* collectStatistics(
+  ns: bigint[],
+  trialsPerN: number,
+  t: TranslationSet,
+  options: Partial<ShorOptions> = {},
+): AsyncGenerator<StatisticsProgress, StatisticsRow[], undefined> {
+  const runOptions: Partial<ShorOptions> = { ...options, stepDelayMs: 0 };
+  const totalTrials = ns.length * trialsPerN;
+  const rows: StatisticsRow[] = [];
+  let completedTrials = 0;
+
+  for (const n of ns) {
+    const row: StatisticsRow = { n, ...emptyCounts() };
+    for (let trial = 0; trial < trialsPerN; trial++) {
+      let attempts = 0;
+      let succeeded = false;
+      // runShor yields each attempt after every step; count it once it has an outcome.
+      let lastCountedId = 0;
+      for await (const attempt of runShor(n, t, runOptions)) {
+        if (!attempt.outcome || attempt.id === lastCountedId) continue;
+        lastCountedId = attempt.id;
+        attempts++;
+        row.outcomes[attempt.outcome]++;
+        if (attempt.status === 'success') succeeded = true;
+      }
+
+      row.trials++;
+      row.attempts += attempts;
+      if (succeeded) {
+        row.successfulTrials++;
+        row.attemptsToSuccess += attempts;
+      }
+      completedTrials++;
+      const isLastTrial = trial === trialsPerN - 1;
+      if (isLastTrial) rows.push(row);
+      yield { completedTrials, totalTrials, n, row: isLastTrial ? row : null };
+    }
+  }
+  return rows;
+}
+
+/**
+ * Adds up the statistics of several N.
+ * @param rows The statistics of each N.
+ * @returns The combined counts.
+ */
+export function totalStatistics(rows: StatisticsCounts[]): StatisticsCounts {
+  const total = emptyCounts();
+  for (const row of rows) {
+    total.trials += row.trials;
+    total.successfulTrials += row.successfulTrials;
+    total.attempts += row.attempts;
+    total.attemptsToSuccess += row.attemptsToSuccess;
+    for (const outcome of ATTEMPT_OUTCOMES) total.outcomes[outcome] += row.outcomes[outcome];
+  }
+  return total;
+}
+
+/**
+ * Computes the average number of attempts made by the runs that found a factor.
+ * @param counts The statistics counts.
+ * @returns The average, or null if no run succeeded.
+ */
+export function averageAttemptsToSuccess(counts: StatisticsCounts): number | null {
+  return counts.successfulTrials > 0 ? counts.attemptsToSuccess / counts.successfulTrials : null;
+}
+
+/**
+ * Formats the statistics as CSV, one line per N followed by a line with the totals.
+ * @param rows The statistics of each N.
+ * @returns The CSV text, with a header line.
+ */
+export function statisticsToCsv(rows: StatisticsRow[]): string {
+  const header = ['n', 'trials', 'successful_trials', 'attempts', ...ATTEMPT_OUTCOMES, 'average_attempts_to_success'];
+  const line = (label: string, counts: StatisticsCounts) => [
+    label,
+    counts.trials,
+    counts.successfulTrials,
+    counts.attempts,
+    ...ATTEMPT_OUTCOMES.map(outcome => counts.outcomes[outcome]),
+    averageAttemptsToSuccess(counts)?.toFixed(4) ?? '',
+  ].join(',');
+
+  return [
+    header.join(','),
+    ...rows.map(row => line(row.n.toString(), row)),
+    line('total', totalStatistics(rows)),
+  ].join('\n') + '\n';
+}
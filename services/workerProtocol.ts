@@ -0,0 +1,61 @@
+/**
+ * @file workerProtocol.ts
+ * This file contains the encoding used by the messages between the page and the
+ * simulation worker. BigInts are replaced by tagged strings, so every message is
+ * plain data that survives structured cloning and JSON alike.
+ */
+
+import { Serialized, SerializedBigInt } from '../types';
+
+/**
+ * Checks whether a value is an encoded BigInt.
+ * @param value Any value taken from a message.
+ * @returns True if the value is a `SerializedBigInt`.
+ */
+function isSerializedBigInt(value: unknown): value is SerializedBigInt {
+  return typeof value === 'object' && value !== null && typeof (value as SerializedBigInt).$bigint === 'string';
+}
+
+/**
+ * Encodes every BigInt inside a value, at any depth.
+ * @param value The value to encode: BigInts, arrays, plain objects and primitives.
+ * @returns A copy of the value with each BigInt replaced by a `SerializedBigInt`.
+ */
+export function serialize<T>(value: T): Serialized<T> {
+  if (typeof value === 'bigint') {
+    return { $bigint: value.toString() } as Serialized<T>;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => serialize(item)) as Serialized<T>;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const encoded: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      encoded[key] = serialize(item);
+    }
+    return encoded as Serialized<T>;
+  }
+  return value as Serialized<T>;
+}
+
+/**
+ * Decodes every BigInt inside a value encoded by `serialize`.
+ * @param value The encoded value.
+ * @returns A copy of the value with each `SerializedBigInt` turned back into a BigInt.
+ */
+export function deserialize<T>(value: Serialized<T>): T {
+  if (isSerializedBigInt(value)) {
+    return BigInt(value.$bigint) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => deserialize(item)) as T;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const decoded: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      decoded[key] = deserialize(item);
+    }
+    return decoded as T;
+  }
+  return value as T;
+}
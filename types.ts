@@ -9,6 +9,17 @@
  */
 export type Language = 'en' | 'zh';
 
+/**
+ * The top-level modes of the application.
+ * - `explorer`: a single animated factorization.
+ * - `statistics`: batches of runs without animation, with outcome statistics.
+ * - `workbench`: a step-by-step continued fraction expansion of any c/q.
+ * - `import`: the classical post-processing of measurement counts from a device or simulator.
+ * - `rsa`: a toy RSA key pair broken by factoring its modulus with Shor's algorithm.
+ * - `discrete-log`: Shor's algorithm for the discrete logarithm g^x ≡ h (mod p).
+ */
+export type AppMode = 'explorer' | 'statistics' | 'workbench' | 'import' | 'rsa' | 'discrete-log';
+
 /**
  * Represents a single convergent from the continued fraction expansion.
  * Convergents are rational approximations of a real number.
@@ -22,6 +33,323 @@ export interface Convergent {
   denominator: bigint;
 }
 
+/**
+ * One Euclidean division of the continued fraction expansion of c/q, together
+ * with the convergent it produces and how close that convergent is to c/q.
+ */
+export interface EuclideanStep extends Convergent {
+  /** The dividend of the division: c for the first step, then the previous divisor. */
+  dividend: bigint;
+  /** The divisor of the division: q for the first step, then the previous remainder. */
+  divisor: bigint;
+  /** The remainder, `dividend - a * divisor`; the expansion ends when it is 0. */
+  remainder: bigint;
+  /** The numerator of |c/q - p_k/q_k| written over the denominator q * q_k. */
+  distanceNumerator: bigint;
+  /** True if |c/q - p_k/q_k| < 1/(2q), the accuracy of a good measurement in Shor's algorithm. */
+  withinMeasurementBound: boolean;
+  /** True if |c/q - p_k/q_k| < 1/(2q_k²), Legendre's condition for a convergent. */
+  withinLegendreBound: boolean;
+}
+
+/**
+ * A source of uniformly distributed numbers in [0, 1), with the same contract as `Math.random`.
+ */
+export type RandomSource = () => number;
+
+/**
+ * A candidate for the period 'r' tested during period recovery.
+ */
+export interface PeriodCandidate {
+  /** The candidate value for 'r'. */
+  value: bigint;
+  /**
+   * Where the candidate came from:
+   * - `convergent`: a denominator of a convergent of c/q.
+   * - `multiple`: a small multiple of the last convergent denominator, which recovers 'r' when gcd(s, r) > 1.
+   * - `lcm`: the least common multiple of the denominators found in several measurements.
+   */
+  source: 'convergent' | 'multiple' | 'lcm';
+  /** The index of the measurement the candidate was derived from (the last one for `lcm`). */
+  shot: number;
+  /** True if the candidate satisfies a^value ≡ 1 (mod N). */
+  verified: boolean;
+}
+
+/**
+ * Identifies a backend that performs the quantum period-finding step.
+ * - `state-vector`: simulates the first register's amplitudes and samples a measurement.
+ * - `classical-oracle`: computes the period classically and fakes a measurement near a peak.
+ * - `replay`: returns previously recorded measurements.
+ */
+export type PeriodFinderId = 'state-vector' | 'classical-oracle' | 'replay';
+
+/**
+ * The backend selection offered in the UI. `auto` uses the state-vector
+ * simulator when the register is small enough and the classical oracle otherwise.
+ */
+export type PeriodFinderSelection = PeriodFinderId | 'auto';
+
+/**
+ * A backend for the quantum period-finding step of Shor's algorithm.
+ * Given a base 'a' and the register size, it produces a measurement 'c'
+ * of the first register, which approximates a multiple of q/r.
+ */
+export interface PeriodFinder {
+  /** The identifier reported on each attempt that uses this backend. */
+  id: PeriodFinderId;
+  /**
+   * Checks whether the backend can handle the number N with a first register of `t` qubits.
+   * @param N The number being factored.
+   * @param t The number of qubits in the first register.
+   */
+  supports(N: bigint, t: number): boolean;
+  /**
+   * Performs the period-finding step and measures the first register.
+   * @param a The base, co-prime with N.
+   * @param N The number being factored.
+   * @param t The number of qubits in the first register.
+   * @param random The random source used for any probabilistic choice.
+   * @returns The measured value 'c' in [0, 2^t).
+   */
+  measure(a: bigint, N: bigint, t: number, random: RandomSource): bigint;
+}
+
+/**
+ * How the base 'a' is chosen for each attempt.
+ * - `random`: uniformly at random from [2, N-1].
+ * - `sequential`: 2, 3, 4, ... in order.
+ * - `list`: the given bases, in order; the run ends when the list is exhausted.
+ */
+export type BaseStrategy =
+  | { kind: 'random' }
+  | { kind: 'sequential' }
+  | { kind: 'list'; bases: bigint[] };
+
+/**
+ * The stages of the period-finding circuit, in the order they are applied.
+ * - `prepare`: Hadamards on the counting register and the work register set to |1⟩.
+ * - `modular-exponentiation`: the controlled multiplications by a^(2^j) mod N.
+ * - `inverse-qft`: the inverse Quantum Fourier Transform on the counting register.
+ * - `measure`: the measurement of the counting register.
+ */
+export type CircuitStage = 'prepare' | 'modular-exponentiation' | 'inverse-qft' | 'measure';
+
+/**
+ * A gate of the period-finding circuit. Qubit j of the counting register holds
+ * bit j of x, so the measured value is c = Σ 2^j · c_j.
+ * - `x`: a NOT gate on qubit `target` of the work register.
+ * - `h`: a Hadamard gate on qubit `target` of the counting register.
+ * - `controlled-multiply`: if counting qubit `control` is set, multiplies the work register
+ *   by `multiplier` = a^(2^control) mod N; this is the block U^(2^control).
+ * - `controlled-phase`: the inverse rotation R_k† = diag(1, e^(-2πi/2^k)) on counting qubit
+ *   `target`, controlled by counting qubit `control`.
+ * - `swap`: exchanges counting qubits `first` and `second`.
+ * - `measure`: measures qubit `target` of the counting register into bit `target` of c.
+ */
+export type CircuitGate =
+  | { kind: 'x'; target: number }
+  | { kind: 'h'; target: number }
+  | { kind: 'controlled-multiply'; control: number; multiplier: bigint }
+  | { kind: 'controlled-phase'; control: number; target: number; k: number }
+  | { kind: 'swap'; first: number; second: number }
+  | { kind: 'measure'; target: number };
+
+/**
+ * A gate of the period-finding circuit together with the stage it belongs to.
+ */
+export type CircuitOperation = CircuitGate & { stage: CircuitStage };
+
+/**
+ * The points of the period-finding circuit at which the register inspector shows the state:
+ * `initial` before any gate, then after each `CircuitStage`. At `measure`, the inspector
+ * measures the second register rather than the first; by the principle of deferred
+ * measurement, this leaves the statistics of the first register unchanged.
+ */
+export type RegisterSnapshotStage = 'initial' | CircuitStage;
+
+/**
+ * A basis state |x⟩|y⟩ of both registers together with its amplitude.
+ */
+export interface RegisterAmplitude {
+  /** The value of the first (counting) register. */
+  x: number;
+  /** The value of the second (work) register. */
+  y: number;
+  /** The real part of the amplitude. */
+  re: number;
+  /** The imaginary part of the amplitude. */
+  im: number;
+}
+
+/**
+ * The joint state of both registers at one point of the circuit.
+ */
+export interface RegisterSnapshot {
+  /** The point of the circuit. */
+  stage: RegisterSnapshotStage;
+  /** The basis states with a non-negligible amplitude, ordered by y and then by x. */
+  amplitudes: RegisterAmplitude[];
+}
+
+/**
+ * The states of both registers after each stage of the period-finding circuit.
+ */
+export interface RegisterInspection {
+  /** The size of the first register, `q = 2^t`. */
+  q: number;
+  /** The values the second register can be measured in, with their probabilities. */
+  outcomes: { y: number; probability: number }[];
+  /** The value the second register is measured in for the `measure` snapshot. */
+  measured: number;
+  /** One snapshot per point of the circuit, in order. */
+  snapshots: RegisterSnapshot[];
+}
+
+/**
+ * An elementary gate of a controlled modular multiplication, acting on the work register.
+ * - `x`: a NOT gate on work qubit `target`.
+ * - `cx`: a NOT gate on work qubit `target`, controlled by work qubit `control`.
+ * - `mcx`: a NOT gate on work qubit `target`, controlled by the work qubits `controls`
+ *   and by the counting qubit of the block. It is the only gate that depends on that qubit.
+ */
+export type OracleGate =
+  | { kind: 'x'; target: number }
+  | { kind: 'cx'; control: number; target: number }
+  | { kind: 'mcx'; controls: number[]; target: number };
+
+/** The versions of OpenQASM the circuit can be exported to. */
+export type QasmVersion = 2 | 3;
+
+/**
+ * A gate application of a parsed OpenQASM program, after every user-defined gate
+ * has been expanded into the gates of the standard library.
+ */
+export interface QasmInstruction {
+  /** The name of the standard gate, or `measure`. */
+  gate: string;
+  /** The evaluated angle parameters. */
+  params: number[];
+  /** The qubits the gate acts on, as indices into all declared qubits in declaration order. */
+  qubits: number[];
+  /** The qubits added by `ctrl @` modifiers, which must be |1⟩. */
+  controls: number[];
+  /** The qubits added by `negctrl @` modifiers, which must be |0⟩. */
+  negatedControls: number[];
+  /** For a measurement, the index of the classical bit that receives the result. */
+  bit?: number;
+}
+
+/**
+ * The result of parsing an OpenQASM program.
+ */
+export interface QasmProgram {
+  /** The language version declared in the header. */
+  version: QasmVersion;
+  /** The quantum registers, in declaration order, with their sizes. */
+  qubitRegisters: { name: string; size: number }[];
+  /** The total number of classical bits declared. */
+  bitCount: number;
+  /** The gate applications and measurements in program order. */
+  instructions: QasmInstruction[];
+}
+
+/**
+ * The gate-level period-finding circuit for a base 'a' and a number N.
+ */
+export interface PeriodFindingCircuit {
+  /** The base. */
+  a: bigint;
+  /** The number being factored. */
+  n: bigint;
+  /** The number of qubits t of the counting (first) register. */
+  countingQubits: number;
+  /** The number of qubits of the work (second) register, enough to hold N - 1. */
+  workQubits: number;
+  /** The gates in the order they are applied. */
+  operations: CircuitOperation[];
+}
+
+/**
+ * The options that control a run of Shor's algorithm.
+ */
+export interface ShorOptions {
+  /** The maximum number of attempts (bases) before the run gives up. */
+  maxAttempts: number;
+  /** The pause after each step in milliseconds, for the UI animation. 0 runs instantly. */
+  stepDelayMs: number;
+  /** The number of qubits 't' in the first register, or null for the smallest t with 2^t >= N^2. */
+  qubitCount: number | null;
+  /** How the base 'a' is chosen for each attempt. */
+  baseStrategy: BaseStrategy;
+  /**
+   * The maximum number of terms computed in each continued fraction expansion, or null
+   * for `continuedFractionTermLimit(q)`, which always reaches the end of the expansion.
+   */
+  maxContinuedFractionIterations: number | null;
+  /** The number of measurements taken for each base and combined during period recovery. */
+  shotsPerBase: number;
+  /** The backend for the quantum period-finding step, or `auto` to choose by register size. */
+  periodFinder: PeriodFinderSelection | PeriodFinder;
+  /** The random source for every probabilistic choice. Pass a seeded source to make a run reproducible. */
+  random: RandomSource;
+  /** A signal that stops the run when aborted, or null if the run cannot be cancelled. */
+  signal: AbortSignal | null;
+  /** A base chosen by the user for every attempt, or null to follow the base strategy. */
+  pinnedBase: bigint | null;
+  /** A measured value 'c' chosen by the user in place of the period-finding backend, or null. */
+  pinnedMeasurement: bigint | null;
+}
+
+/**
+ * The state of a running factorization, as controlled by the user.
+ * - `running`: steps follow each other automatically.
+ * - `paused`: the run waits until it is resumed or stepped.
+ * - `stepping`: a single step is in progress, after which the run pauses again.
+ * - `stopped`: the run has been cancelled.
+ */
+export type RunMode = 'running' | 'paused' | 'stepping' | 'stopped';
+
+/**
+ * Controls the pace of a factorization run from the UI.
+ * The consumer of the attempt generator waits for its turn before asking for each step.
+ */
+export interface RunControl {
+  /** The signal passed to the run; it is aborted by `stop`. */
+  readonly signal: AbortSignal;
+  /** The current mode of the run. */
+  readonly mode: RunMode;
+  /** Pauses the run after the step in progress. */
+  pause(): void;
+  /** Resumes automatic stepping. */
+  resume(): void;
+  /** Advances a paused run by a single step. */
+  step(): void;
+  /** Cancels the run. */
+  stop(): void;
+  /** Resolves when the consumer may request the next step, or as soon as the run is stopped. */
+  waitForTurn(): Promise<void>;
+}
+
+/**
+ * How a finished attempt ended.
+ * - `lucky-gcd`: the base shared a factor with N, so no period finding was needed.
+ * - `continued-fraction`: the continued fraction expansion gave no candidate for the period.
+ * - `period-unverified`: no candidate satisfied a^r ≡ 1 (mod N).
+ * - `odd-period`: the period was odd.
+ * - `trivial-root`: a^(r/2) ≡ -1 (mod N).
+ * - `trivial-factors`: both gcd(a^(r/2) ± 1, N) were trivial.
+ * - `success`: the period split N.
+ */
+export type AttemptOutcome =
+  | 'lucky-gcd'
+  | 'continued-fraction'
+  | 'period-unverified'
+  | 'odd-period'
+  | 'trivial-root'
+  | 'trivial-factors'
+  | 'success';
+
 /**
  * Represents a complete attempt to factor the number N using Shor's algorithm.
  * It tracks the state and results of each major step of the algorithm.
@@ -35,6 +363,8 @@ export interface ShorAttempt {
   a: bigint;
   /** The current status of the attempt. */
   status: 'running' | 'failed' | 'success';
+  /** The backend used for the quantum period-finding step. */
+  periodFinder: PeriodFinderId;
   /** The result of the initial greatest common divisor (GCD) check. */
   gcdCheck?: bigint;
   /** The simulated results from the quantum period-finding stage. */
@@ -45,6 +375,10 @@ export interface ShorAttempt {
     q: bigint;
     /** The number of qubits 't' used in the first register. */
     t: number;
+    /** Every measurement taken for this base; the first one is 'c'. */
+    measurements: bigint[];
+    /** The most terms of each continued fraction expansion in this run, so views can repeat it. */
+    maxContinuedFractionIterations: number;
   };
   /** The results from the continued fraction expansion. */
   fractionResult?: {
@@ -52,6 +386,12 @@ export interface ShorAttempt {
     convergents: Convergent[];
     /** The best candidate found for the period 'r'. */
     candidateR: bigint;
+    /** Every candidate tested against a^r ≡ 1 (mod N), in the order they were tried. */
+    candidates: PeriodCandidate[];
+    /** The last convergent denominator below N of each measurement, or null if it had none. */
+    shotDenominators: (bigint | null)[];
+    /** The least common multiple of the denominators, when several measurements were combined. */
+    lcm?: bigint;
   };
   /** The verified period 'r' of the function f(x) = a^x mod N. */
   period?: bigint;
@@ -75,6 +415,414 @@ export interface ShorAttempt {
   factors?: bigint[];
   /** An error message if the attempt failed. */
   error?: string;
+  /** How the attempt ended; set together with the final status. */
+  outcome?: AttemptOutcome;
+  /** Which inputs were chosen by the user instead of at random; absent if none were. */
+  pinned?: {
+    /** True if the base 'a' was chosen by the user. */
+    base: boolean;
+    /** True if the measured value 'c' was chosen by the user. */
+    measurement: boolean;
+  };
+}
+
+/**
+ * Describes how a number in the factorization tree was resolved.
+ * - `prime`: the number is prime and is a leaf of the tree.
+ * - `trial-division`: the number is even, so the factor 2 was split off directly.
+ * - `perfect-power`: the number is m^k, which Shor's algorithm cannot split, so it was split into k copies of m.
+ * - `shor`: the number was split by a successful attempt of Shor's algorithm.
+ * - `unresolved`: the number is composite but no attempt split it.
+ */
+export type FactorMethod = 'prime' | 'trial-division' | 'perfect-power' | 'shor' | 'unresolved';
+
+/**
+ * A node of the factorization tree produced by the complete factorization driver.
+ * The product of a node's children equals its value.
+ */
+export interface FactorNode {
+  /** The number at this node. */
+  value: bigint;
+  /** How the number was resolved. */
+  method: FactorMethod;
+  /** The factors the number was split into; empty for leaves. */
+  children: FactorNode[];
+}
+
+/** The encoded form of a BigInt in a worker message. */
+export interface SerializedBigInt {
+  $bigint: string;
+}
+
+/**
+ * The form of a value after its BigInts have been encoded for a worker message.
+ * Every `bigint` inside T, at any depth, becomes a `SerializedBigInt`.
+ */
+export type Serialized<T> =
+  T extends bigint ? SerializedBigInt
+  : T extends (infer U)[] ? Serialized<U>[]
+  : T extends object ? { [K in keyof T]: Serialized<T[K]> }
+  : T;
+
+/**
+ * The run options that can be sent to the simulation worker. The random source
+ * is created in the worker from the seed, and cancellation is a message.
+ */
+export type WorkerShorOptions = Omit<Partial<ShorOptions>, 'random' | 'signal' | 'periodFinder'> & {
+  periodFinder?: PeriodFinderSelection;
+};
+
+/**
+ * The work a simulation worker performs.
+ * - `factorize`: the complete factorization of `n`, yielding attempts and returning the factorization tree.
+ * - `shor`: a single run of Shor's algorithm on `n`, yielding its attempts until one splits `n` or the attempts run out.
+ * - `discrete-log`: Shor's algorithm for the discrete logarithm of `h` to the base `g` modulo `p`, yielding its attempts.
+ * - `statistics`: repeated runs of Shor's algorithm on each of `ns`, yielding progress and returning the statistics.
+ * - `classical`: every classical factoring algorithm on `n` in turn, yielding the result of each.
+ */
+export type ShorWorkerJob =
+  | { kind: 'factorize'; n: SerializedBigInt }
+  | { kind: 'shor'; n: SerializedBigInt }
+  | { kind: 'discrete-log'; p: SerializedBigInt; g: SerializedBigInt; h: SerializedBigInt }
+  | { kind: 'statistics'; ns: SerializedBigInt[]; trialsPerN: number }
+  | { kind: 'classical'; n: SerializedBigInt };
+
+/**
+ * A message from the page to the simulation worker.
+ * - `start`: begins a job.
+ * - `next`: asks for the next value of the job; the worker runs only while it is asked.
+ * - `cancel`: aborts the job.
+ */
+export type ShorWorkerRequest =
+  | { type: 'start'; job: ShorWorkerJob; seed: number; language: Language; options: Serialized<WorkerShorOptions> }
+  | { type: 'next' }
+  | { type: 'cancel' };
+
+/**
+ * A message from the simulation worker to the page, answering a `next` request.
+ * The job runs as a generator that yields values of type Y and returns a value of type R.
+ * - `yield`: the next value yielded by the job, such as the current state of an attempt.
+ * - `return`: the job is over and returned its result.
+ * - `error`: the job threw; `aborted` is true if it was cancelled.
+ */
+export type ShorWorkerResponse<Y = unknown, R = unknown> =
+  | { type: 'yield'; value: Serialized<Y> }
+  | { type: 'return'; value: Serialized<R> }
+  | { type: 'error'; message: string; aborted: boolean };
+
+/**
+ * Counts of the attempts and their outcomes over a number of runs of Shor's algorithm.
+ * Each run (trial) makes attempts until one succeeds or the attempt limit is reached.
+ */
+export interface StatisticsCounts {
+  /** The number of runs. */
+  trials: number;
+  /** The number of runs that found a factor. */
+  successfulTrials: number;
+  /** The number of attempts made by all runs. */
+  attempts: number;
+  /** The number of attempts that ended in each outcome. */
+  outcomes: Record<AttemptOutcome, number>;
+  /** The number of attempts made by the successful runs, including the successful attempt. */
+  attemptsToSuccess: number;
+}
+
+/**
+ * A toy RSA key pair built from two small random primes.
+ */
+export interface RsaKeyPair {
+  /** The first secret prime. */
+  p: bigint;
+  /** The second secret prime, distinct from p. */
+  q: bigint;
+  /** The public modulus N = p·q. */
+  n: bigint;
+  /** Euler's totient φ(N) = (p - 1)(q - 1). */
+  phi: bigint;
+  /** The public exponent, co-prime with φ(N). */
+  e: bigint;
+  /** The private exponent d = e⁻¹ mod φ(N). */
+  d: bigint;
+}
+
+/**
+ * A message encrypted with a toy RSA key. The UTF-8 bytes of the text are cut into
+ * blocks small enough to be read as numbers below N, and each block is encrypted on its own.
+ */
+export interface RsaEncryption {
+  /** The text that was encrypted. */
+  text: string;
+  /** The number of bytes in each block. */
+  blockBytes: number;
+  /** The plaintext blocks m as numbers below N. */
+  plaintext: bigint[];
+  /** The ciphertext blocks c = m^e mod N. */
+  ciphertext: bigint[];
+}
+
+/**
+ * How a finished discrete-logarithm attempt ended.
+ * - `zero-measurement`: c1 ≡ 0 (mod r), which carries no information about x.
+ * - `ambiguous`: gcd(c1, r) left more candidates for x than are worth verifying.
+ * - `unverified`: no candidate satisfied g^x ≡ h (mod p).
+ * - `success`: a candidate was verified.
+ */
+export type DiscreteLogOutcome = 'zero-measurement' | 'ambiguous' | 'unverified' | 'success';
+
+/**
+ * Represents a single attempt of Shor's algorithm to solve g^x ≡ h (mod p).
+ * The two counting registers hold a and b, the work register g^a·h^(-b) mod p, and
+ * a Fourier transform over Z_r on each counting register yields the pair (c1, c2).
+ */
+export interface DiscreteLogAttempt {
+  /** A unique identifier for this attempt. */
+  id: number;
+  /** The prime modulus. */
+  p: bigint;
+  /** The base. */
+  g: bigint;
+  /** The target, a power of g. */
+  h: bigint;
+  /** The order r of g modulo p, the size of each counting register. */
+  order: bigint;
+  /** The current status of the attempt. */
+  status: 'running' | 'failed' | 'success';
+  /** The backend used for the quantum step. */
+  periodFinder: PeriodFinderId;
+  /** The simulated results of the quantum step. */
+  quantumResult?: {
+    /** The value measured in the first counting register. */
+    c1: bigint;
+    /** The value measured in the second counting register. */
+    c2: bigint;
+    /** The value g^a·h^(-b) mod p left in the work register. */
+    work: bigint;
+    /** The number of qubits of each counting register, enough to hold r - 1. */
+    registerQubits: number;
+  };
+  /** The solution of c1·x ≡ -c2 (mod r). */
+  recovery?: {
+    /** The divisor d = gcd(c1, r). */
+    divisor: bigint;
+    /** The modulus r/d to which x is determined. */
+    modulus: bigint;
+    /** The value of x modulo r/d. */
+    residue: bigint;
+    /** The candidates for x in [0, r) that agree with the residue. */
+    candidates: bigint[];
+  };
+  /** The check g^x mod p of each candidate, until one equals h. */
+  verification?: {
+    /** The candidate x. */
+    candidate: bigint;
+    /** g^x mod p. */
+    value: bigint;
+  }[];
+  /** The verified discrete logarithm x. */
+  x?: bigint;
+  /** How the attempt ended, once it has finished. */
+  outcome?: DiscreteLogOutcome;
+  /** An error message if the attempt failed. */
+  error?: string;
+}
+
+/**
+ * A controlled multiplication of the discrete-logarithm circuit.
+ */
+export interface DiscreteLogMultiplication {
+  /** The counting register of the control qubit: 0 for a, 1 for b. */
+  register: 0 | 1;
+  /** The index of the control qubit within its register. */
+  control: number;
+  /** The multiplier: g^(2^control) mod p for the first register, h^(-2^control) mod p for the second. */
+  multiplier: bigint;
+}
+
+/**
+ * The block-level circuit of Shor's discrete-logarithm algorithm.
+ */
+export interface DiscreteLogCircuit {
+  /** The prime modulus. */
+  p: bigint;
+  /** The base. */
+  g: bigint;
+  /** The target. */
+  h: bigint;
+  /** The order r of g, the size of each counting register. */
+  order: bigint;
+  /** The number of qubits of each counting register. */
+  registerQubits: number;
+  /** The number of qubits of the work register, enough to hold p - 1. */
+  workQubits: number;
+  /** The controlled multiplications, in the order they are applied. */
+  multiplications: DiscreteLogMultiplication[];
+}
+
+/**
+ * The classical factoring algorithms offered as baselines for Shor's algorithm.
+ * - `trial-division`: division by every odd number up to √N.
+ * - `pollard-rho`: Pollard's rho method with Floyd's cycle detection.
+ * - `pollard-p-minus-1`: stage 1 of Pollard's p − 1 method.
+ * - `quadratic-sieve`: a small quadratic sieve without large primes.
+ */
+export type ClassicalAlgorithm = 'trial-division' | 'pollard-rho' | 'pollard-p-minus-1' | 'quadratic-sieve';
+
+/**
+ * The outcome of a classical factoring algorithm on one number.
+ */
+export interface ClassicalFactoringResult {
+  /** The algorithm that was run. */
+  algorithm: ClassicalAlgorithm;
+  /** A non-trivial factor of N, or null if none was found. */
+  factor: bigint | null;
+  /** The number of basic operations performed: divisions, modular multiplications, sieve updates or row additions. */
+  operations: number;
+  /** True if the algorithm stopped because it reached its operation budget. */
+  budgetExhausted: boolean;
+  /** The wall-clock time taken, in milliseconds. */
+  elapsedMs: number;
+}
+
+/**
+ * The published constructions of the modular exponentiation compared by the resource estimator.
+ * - `beauregard`: Beauregard (2003), Fourier-basis adders on 2n+3 qubits.
+ * - `vedral`: Vedral, Barenco and Ekert (1996), ripple-carry adders.
+ * - `haner`: Häner, Roetteler and Svore (2017), Toffoli-based adders on 2n+2 qubits.
+ * - `gidney-ekera`: Gidney and Ekerå (2019), windowed arithmetic with coset representation.
+ */
+export type ResourceConstruction = 'beauregard' | 'vedral' | 'haner' | 'gidney-ekera';
+
+/**
+ * The parameters of the surface code assumed for the physical estimate.
+ */
+export interface SurfaceCodeParameters {
+  /** The error rate of each physical operation. */
+  physicalErrorRate: number;
+  /** The duration of one surface-code cycle, in microseconds. */
+  cycleTimeUs: number;
+}
+
+/**
+ * The estimated resources of Shor's algorithm for one construction.
+ */
+export interface ResourceEstimate {
+  /** The construction of the modular exponentiation. */
+  construction: ResourceConstruction;
+  /** The number of logical qubits, with the exponent register recycled by a semiclassical QFT. */
+  logicalQubits: number;
+  /** The number of Toffoli gates, counting each T gate as half a Toffoli. */
+  toffoliCount: number;
+  /** The measurement depth: the number of sequential layers of non-Clifford gates. */
+  depth: number;
+  /**
+   * The surface-code realisation, or null if the physical error rate is at or above
+   * the threshold, or no code distance up to the limit reaches the target failure rate.
+   */
+  physical: {
+    /** The code distance. */
+    codeDistance: number;
+    /** The number of physical qubits, for the logical qubits and the magic-state factories. */
+    physicalQubits: number;
+    /** The number of magic-state factories that keep up with the depth. */
+    factories: number;
+    /** The expected runtime in seconds. */
+    runtimeSeconds: number;
+  } | null;
+}
+
+/**
+ * A distinct outcome read from a counts file.
+ */
+export interface MeasurementCount {
+  /** The key of the outcome in the file, such as `01000000`. */
+  bitstring: string;
+  /** The measured value of the first register. */
+  c: bigint;
+  /** The number of shots that gave this outcome. */
+  count: number;
+}
+
+/**
+ * An imported outcome together with the classical post-processing of its measurement.
+ */
+export interface ImportedOutcome extends MeasurementCount {
+  /** The attempt run with the base and the measurement of the outcome pinned. */
+  attempt: ShorAttempt;
+}
+
+/**
+ * The totals of an import of measurement counts.
+ */
+export interface ImportSummary {
+  /** The number of shots in the file. */
+  shots: number;
+  /** The number of shots whose outcome led to a factorization. */
+  successfulShots: number;
+  /** The distinct factor pairs found, each with its smaller factor first. */
+  factorPairs: [bigint, bigint][];
+}
+
+/**
+ * The statistics of the runs of Shor's algorithm on a single N.
+ */
+export interface StatisticsRow extends StatisticsCounts {
+  /** The number that was factored. */
+  n: bigint;
+}
+
+/**
+ * The progress of a statistics job, yielded after every run.
+ */
+export interface StatisticsProgress {
+  /** The number of runs completed so far, over all N. */
+  completedTrials: number;
+  /** The total number of runs of the job. */
+  totalTrials: number;
+  /** The N of the run that just completed. */
+  n: bigint;
+  /** The statistics of that N once its last run has completed, otherwise null. */
+  row: StatisticsRow | null;
+}
+
+/**
+ * What a base 'a' leads to when it is used in Shor's algorithm.
+ * - `shared-factor`: gcd(a, N) > 1, so the base itself reveals a factor.
+ * - `odd-order`: the order r of a is odd.
+ * - `trivial-root`: r is even but a^(r/2) ≡ -1 (mod N).
+ * - `good`: r is even and a^(r/2) ± 1 share a non-trivial factor with N.
+ */
+export type BaseVerdict = 'shared-factor' | 'odd-order' | 'trivial-root' | 'good';
+
+/**
+ * The classical analysis of a single base 'a' for a given N.
+ */
+export interface BaseAnalysis {
+  /** The base. */
+  a: bigint;
+  /** gcd(a, N). */
+  gcd: bigint;
+  /** The multiplicative order r of a modulo N, or null if a is not co-prime with N. */
+  order: bigint | null;
+  /** What the base leads to. */
+  verdict: BaseVerdict;
+  /** The factor the base yields, from the GCD or from gcd(a^(r/2) - 1, N); null if none. */
+  factor: bigint | null;
+}
+
+/**
+ * A summary of the analysis of every base for a given N.
+ */
+export interface BaseLandscapeSummary {
+  /** The number of bases of each verdict. */
+  counts: Record<BaseVerdict, number>;
+  /** The number of bases co-prime with N. */
+  coprime: number;
+  /** The share of the co-prime bases that are good. */
+  goodFraction: number;
+  /** The number k of distinct prime factors of N. */
+  distinctPrimes: number;
+  /** The lower bound 1 - 1/2^(k-1) on the good fraction for odd N that is not a prime power. */
+  theoreticalBound: number;
 }
 
 /**
@@ -87,6 +835,10 @@ export enum ExplanationTopic {
   QuantumPeriodFinding = "Quantum Period Finding",
   QuantumCircuit = "The Quantum Circuit",
   ContinuedFractions = "Continued Fractions",
+  PeriodRecovery = "Period Recovery",
   PeriodVerification = "Period Verification",
   FinalFactorCalculation = "Final Factor Calculation",
+  DiscreteLogIntro = "Shor's Discrete Logarithm Algorithm",
+  DiscreteLogCircuit = "The Discrete Logarithm Circuit",
+  DiscreteLogRecovery = "Recovering the Logarithm",
 }
\ No newline at end of file